@@ -135,6 +135,7 @@
       userPassword,
       ownerPassword,
       keyLength,
+      restrictions,
       callback,
     }) {
       const safeCallback = function (err, arg) {
@@ -154,6 +155,7 @@
             userPassword || '',
             ownerPassword || '',
             String(keyLength || 256),
+            ...(restrictions || []),
             '--',
             'input.pdf',
             'output.pdf'
@@ -163,6 +165,36 @@
       });
     };
   
+    QPDF.decrypt = function ({
+      logger,
+      arrayBuffer,
+      password,
+      callback,
+    }) {
+      const safeCallback = function (err, arg) {
+        if (callback) {
+          if (err || arg) {
+            callback(err, arg);
+            callback = null;
+          }
+        }
+      };
+      QPDF({
+        logger,
+        ready: function (qpdf) {
+          qpdf.save('input.pdf', arrayBuffer, safeCallback);
+          qpdf.execute([
+            '--password=' + (password || ''),
+            '--decrypt',
+            '--warning-exit-0',
+            'input.pdf',
+            'output.pdf'
+          ], safeCallback);
+          qpdf.load('output.pdf', safeCallback);
+        }
+      });
+    };
+  
     QPDF.help = function (logger) {
       QPDF({
         logger,
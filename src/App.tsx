@@ -6,9 +6,12 @@ import { HashRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Encrypt from "./pages/Encrypt";
 import Merge from "./pages/Merge";
+import Split from "./pages/Split";
 import Compress from "./pages/Compress";
 import Convert from "./pages/Convert";
 import Resize from "./pages/Resize";
+import Rotate from "./pages/Rotate";
+import Organize from "./pages/Organize";
 import About from "./pages/About";
 import NotFound from "./pages/NotFound";
 
@@ -23,10 +26,14 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/encrypt" element={<Encrypt />} />
+          <Route path="/unlock" element={<Encrypt />} />
           <Route path="/merge" element={<Merge />} />
+          <Route path="/split" element={<Split />} />
           <Route path="/compress" element={<Compress />} />
           <Route path="/convert" element={<Convert />} />
           <Route path="/resize" element={<Resize />} />
+          <Route path="/rotate" element={<Rotate />} />
+          <Route path="/organize" element={<Organize />} />
           <Route path="/about" element={<About />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
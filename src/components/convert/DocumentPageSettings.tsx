@@ -0,0 +1,110 @@
+import { DocumentPageOptions, DocumentPageSize } from '@/lib/document-pdf';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface DocumentPageSettingsProps {
+  options: DocumentPageOptions;
+  onChange: (options: DocumentPageOptions) => void;
+}
+
+const POINTS_PER_MM = 72 / 25.4;
+
+const PAGE_SIZE_OPTIONS: { value: DocumentPageSize; label: string }[] = [
+  { value: 'a4', label: 'A4 (210 × 297 mm)' },
+  { value: 'letter', label: 'US Letter (8.5 × 11 in)' },
+  { value: 'legal', label: 'US Legal (8.5 × 14 in)' },
+  { value: 'a3', label: 'A3 (297 × 420 mm)' },
+  { value: 'a5', label: 'A5 (148 × 210 mm)' },
+];
+
+const MARGIN_OPTIONS = [
+  { value: 13, label: 'Narrow (13 mm)' },
+  { value: 19, label: 'Normal (19 mm)' },
+  { value: 25, label: 'Wide (25 mm)' },
+];
+
+export const DocumentPageSettings = ({ options, onChange }: DocumentPageSettingsProps) => {
+  const update = (changes: Partial<DocumentPageOptions>) => onChange({ ...options, ...changes });
+
+  return (
+    <div className="space-y-5">
+      <div className="grid sm:grid-cols-3 gap-4">
+        <div className="space-y-3">
+          <Label>Page Size</Label>
+          <Select value={options.pageSize} onValueChange={(v) => update({ pageSize: v as DocumentPageSize })}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Orientation</Label>
+          <Select
+            value={options.orientation}
+            onValueChange={(v) => update({ orientation: v as DocumentPageOptions['orientation'] })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="portrait">Portrait</SelectItem>
+              <SelectItem value="landscape">Landscape</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Margins</Label>
+          <Select
+            value={String(Math.round(options.margin / POINTS_PER_MM))}
+            onValueChange={(v) => update({ margin: parseInt(v, 10) * POINTS_PER_MM })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MARGIN_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="document-header">Header</Label>
+          <Input
+            id="document-header"
+            placeholder="None"
+            value={options.header}
+            onChange={(e) => update({ header: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="document-footer">Footer</Label>
+          <Input
+            id="document-footer"
+            placeholder="None"
+            value={options.footer}
+            onChange={(e) => update({ footer: e.target.value })}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Use {'{page}'}, {'{pages}'}, {'{title}'} and {'{date}'} in the header and footer.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import { useState, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { FileOutput, ShieldCheck, FileText, FileCode } from 'lucide-react';
+import { DocumentPageSettings } from '@/components/convert/DocumentPageSettings';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DEFAULT_DOCUMENT_PAGE, DocumentPageOptions, convertHTMLToPDF, convertMarkdownToPDF } from '@/lib/document-pdf';
+import { downloadBlob, formatFileSize } from '@/lib/pdf-utils';
+import { isImageFile } from '@/lib/crypto-utils';
+import { useToast } from '@/hooks/use-toast';
+
+export type DocumentSource = 'html' | 'markdown';
+
+interface DocumentToPDFConverterProps {
+  source: DocumentSource;
+}
+
+const SOURCES: Record<DocumentSource, { name: string; pattern: RegExp; accept: string; extensions: string }> = {
+  html: { name: 'HTML', pattern: /\.(x?html?)$/i, accept: '.html,.htm,.xhtml', extensions: '.html, .htm and .xhtml' },
+  markdown: { name: 'Markdown', pattern: /\.(md|markdown)$/i, accept: '.md,.markdown', extensions: '.md and .markdown' },
+};
+
+export const DocumentToPDFConverter = ({ source }: DocumentToPDFConverterProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [images, setImages] = useState<File[]>([]);
+  const [pageOptions, setPageOptions] = useState<DocumentPageOptions>(DEFAULT_DOCUMENT_PAGE);
+  const [stylesheet, setStylesheet] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [convertedPdf, setConvertedPdf] = useState<Blob | null>(null);
+  const { toast } = useToast();
+
+  const { name, pattern, accept, extensions } = SOURCES[source];
+  const inputId = `${source}-input`;
+
+  const handleDrop = useCallback((files: File[]) => {
+    const document = files.find((f) => pattern.test(f.name));
+    if (document) setFile(document);
+    // Images go along with the document, for the pictures it refers to
+    const newImages = files.filter(isImageFile);
+    if (newImages.length) setImages((prev) => [...prev, ...newImages]);
+  }, [pattern]);
+
+  const handleConvert = useCallback(async () => {
+    if (!file) return;
+    setIsProcessing(true);
+
+    try {
+      const options = { ...pageOptions, stylesheet, resources: images };
+      const pdfBlob = source === 'html' ? await convertHTMLToPDF(file, options) : await convertMarkdownToPDF(file, options);
+      setConvertedPdf(pdfBlob);
+      toast({
+        title: 'Conversion complete',
+        description: `Successfully converted ${name} to PDF.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Conversion failed',
+        description: error instanceof Error ? error.message : `Failed to convert ${name}`,
+        variant: 'destructive',
+      });
+    }
+
+    setIsProcessing(false);
+  }, [file, images, pageOptions, stylesheet, source, name, toast]);
+
+  const handleDownload = useCallback(() => {
+    if (!convertedPdf || !file) return;
+    downloadBlob(convertedPdf, file.name.replace(pattern, '') + '.pdf');
+  }, [convertedPdf, file, pattern]);
+
+  const handleReset = useCallback(() => {
+    setFile(null);
+    setImages([]);
+    setConvertedPdf(null);
+  }, []);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className="space-y-6"
+    >
+      {!convertedPdf ? (
+        <>
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">1. Upload {name} File</h2>
+            <div
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(Array.from(e.dataTransfer.files));
+              }}
+              onDragOver={(e) => e.preventDefault()}
+              onClick={() => document.getElementById(inputId)?.click()}
+              className="border-2 border-dashed border-border rounded-xl p-8 text-center cursor-pointer hover:border-primary/50 hover:bg-primary/5 transition-colors"
+            >
+              <input
+                id={inputId}
+                type="file"
+                accept={`${accept},image/*`}
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files) {
+                    handleDrop(Array.from(e.target.files));
+                  }
+                  e.target.value = '';
+                }}
+              />
+              <FileCode className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+              <p className="text-foreground font-medium mb-1">
+                Drop a {name} file here or click to browse
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Supports {extensions} files. Add the images it shows to include them.
+              </p>
+            </div>
+
+            {file && (
+              <div className="mt-4 flex items-center justify-between p-4 rounded-xl bg-primary/5 border border-primary/20">
+                <div className="flex items-center gap-3">
+                  <FileCode className="w-5 h-5 text-primary" />
+                  <div>
+                    <p className="font-medium text-foreground">{file.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatFileSize(file.size)}
+                      {images.length > 0 && ` • ${images.length} image${images.length > 1 ? 's' : ''}`}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleReset();
+                  }}
+                  className="p-2 rounded-full hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">2. Page Setup</h2>
+            <div className="space-y-5">
+              <DocumentPageSettings options={pageOptions} onChange={setPageOptions} />
+
+              <div className="space-y-2">
+                <Label htmlFor={`${source}-stylesheet`}>Stylesheet</Label>
+                <Textarea
+                  id={`${source}-stylesheet`}
+                  placeholder={'h1 { color: #1a56db }\np { text-align: justify }'}
+                  value={stylesheet}
+                  onChange={(e) => setStylesheet(e.target.value)}
+                  className="font-mono text-xs min-h-[96px]"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Optional CSS, applied after the document's own. Fonts, colors, sizes, alignment, margins and page
+                  breaks are supported.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-primary/5 border border-primary/20">
+            <ShieldCheck className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium text-foreground">{name} to PDF Conversion</p>
+              <p className="text-muted-foreground">
+                Keeps headings, lists, tables, code blocks, images and links, and turns the headings into PDF bookmarks.
+              </p>
+            </div>
+          </div>
+
+          <Button
+            onClick={handleConvert}
+            disabled={!file || isProcessing}
+            className="w-full h-14 text-lg gap-2 gradient-primary text-primary-foreground shadow-glow"
+          >
+            {isProcessing ? (
+              <>
+                <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+                Converting...
+              </>
+            ) : (
+              <>
+                <FileText className="w-5 h-5" />
+                Convert {name} to PDF
+              </>
+            )}
+          </Button>
+        </>
+      ) : (
+        <>
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">Download Your PDF</h2>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between p-4 rounded-xl bg-success/10 border border-success/20">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-success/20">
+                    <FileText className="w-5 h-5 text-success" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-foreground">PDF Created Successfully</p>
+                    <p className="text-sm text-muted-foreground">From: {file?.name}</p>
+                  </div>
+                </div>
+              </div>
+
+              <Button
+                onClick={handleDownload}
+                className="w-full h-12 gap-2 gradient-primary text-primary-foreground"
+              >
+                <FileOutput className="w-5 h-5" />
+                Download PDF
+              </Button>
+            </div>
+          </div>
+
+          <Button onClick={handleReset} variant="outline" className="w-full h-12">
+            Convert Another {name} File
+          </Button>
+        </>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,189 @@
+import { ImageLayoutOptions, PageSizePreset } from '@/lib/pdf-utils';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface ImageLayoutSettingsProps {
+  layout: ImageLayoutOptions;
+  onChange: (layout: ImageLayoutOptions) => void;
+}
+
+const POINTS_PER_MM = 72 / 25.4;
+
+const PAGE_SIZE_OPTIONS: { value: PageSizePreset; label: string }[] = [
+  { value: 'a4', label: 'A4 (210 × 297 mm)' },
+  { value: 'letter', label: 'US Letter (8.5 × 11 in)' },
+  { value: 'legal', label: 'US Legal (8.5 × 14 in)' },
+  { value: 'a3', label: 'A3 (297 × 420 mm)' },
+  { value: 'a5', label: 'A5 (148 × 210 mm)' },
+  { value: 'custom', label: 'Custom size' },
+  { value: 'image', label: 'Same as each image' },
+];
+
+const MARGIN_OPTIONS = [
+  { value: 0, label: 'None' },
+  { value: 5, label: 'Small (5 mm)' },
+  { value: 10, label: 'Normal (10 mm)' },
+  { value: 20, label: 'Large (20 mm)' },
+];
+
+const FIT_OPTIONS: { value: ImageLayoutOptions['fit']; label: string }[] = [
+  { value: 'fit', label: 'Fit — show the whole image' },
+  { value: 'fill', label: 'Fill — crop to cover the space' },
+  { value: 'original', label: 'Original size — centered' },
+];
+
+const IMAGES_PER_PAGE: ImageLayoutOptions['imagesPerPage'][] = [1, 2, 4, 6, 9];
+
+const toMillimeters = (points: number) => Math.round(points / POINTS_PER_MM);
+
+export const ImageLayoutSettings = ({ layout, onChange }: ImageLayoutSettingsProps) => {
+  const update = (changes: Partial<ImageLayoutOptions>) => onChange({ ...layout, ...changes });
+  const matchesImage = layout.pageSize === 'image';
+  const customSize = layout.customSize || { width: 210 * POINTS_PER_MM, height: 297 * POINTS_PER_MM };
+
+  const updateCustomSize = (dimension: 'width' | 'height', millimeters: string) => {
+    const value = parseFloat(millimeters);
+    update({ customSize: { ...customSize, [dimension]: value > 0 ? value * POINTS_PER_MM : 0 } });
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-3">
+          <Label>Page Size</Label>
+          <Select
+            value={layout.pageSize}
+            onValueChange={(v) => update({ pageSize: v as PageSizePreset, customSize: v === 'custom' ? customSize : layout.customSize })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Orientation</Label>
+          <Select
+            value={layout.orientation}
+            onValueChange={(v) => update({ orientation: v as ImageLayoutOptions['orientation'] })}
+            disabled={matchesImage}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Automatic</SelectItem>
+              <SelectItem value="portrait">Portrait</SelectItem>
+              <SelectItem value="landscape">Landscape</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {layout.pageSize === 'custom' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="custom-width">Width (mm)</Label>
+            <Input
+              id="custom-width"
+              type="number"
+              min={10}
+              defaultValue={toMillimeters(customSize.width)}
+              onChange={(e) => updateCustomSize('width', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="custom-height">Height (mm)</Label>
+            <Input
+              id="custom-height"
+              type="number"
+              min={10}
+              defaultValue={toMillimeters(customSize.height)}
+              onChange={(e) => updateCustomSize('height', e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-3">
+          <Label>Margins</Label>
+          <Select
+            value={String(toMillimeters(layout.margin))}
+            onValueChange={(v) => update({ margin: parseInt(v, 10) * POINTS_PER_MM })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MARGIN_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Images per Page</Label>
+          <Select
+            value={String(layout.imagesPerPage)}
+            onValueChange={(v) => update({ imagesPerPage: parseInt(v, 10) as ImageLayoutOptions['imagesPerPage'] })}
+            disabled={matchesImage}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {IMAGES_PER_PAGE.map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {count === 1 ? '1 image' : `${count} images`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!matchesImage && (
+        <>
+          <div className="space-y-3">
+            <Label>Image Placement</Label>
+            <Select value={layout.fit} onValueChange={(v) => update({ fit: v as ImageLayoutOptions['fit'] })}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FIT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="auto-rotate">Auto-rotate images</Label>
+              <p className="text-xs text-muted-foreground">
+                Turn landscape photos sideways on portrait pages (and vice versa) so they appear larger.
+              </p>
+            </div>
+            <Switch id="auto-rotate" checked={layout.autoRotate} onCheckedChange={(autoRotate) => update({ autoRotate })} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
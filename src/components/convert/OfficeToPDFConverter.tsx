@@ -0,0 +1,145 @@
+import { useState, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { ShieldCheck, FileText } from 'lucide-react';
+import JSZip from 'jszip';
+import { UniversalFileDropzone } from '@/components/pdf/UniversalFileDropzone';
+import { ProcessingStatus } from '@/components/pdf/ProcessingStatus';
+import { DocumentPageSettings } from '@/components/convert/DocumentPageSettings';
+import { Button } from '@/components/ui/button';
+import { DEFAULT_DOCUMENT_PAGE, DocumentPageOptions } from '@/lib/document-pdf';
+import { convertOfficeToPDF } from '@/lib/office-pdf';
+import { ProcessedPDF, downloadBlob } from '@/lib/pdf-utils';
+import { useToast } from '@/hooks/use-toast';
+
+const outputName = (file: ProcessedPDF) => file.name.replace(/\.(docx|xlsx|pptx)$/i, '') + '.pdf';
+
+export const OfficeToPDFConverter = () => {
+  const [files, setFiles] = useState<ProcessedPDF[]>([]);
+  const [pageOptions, setPageOptions] = useState<DocumentPageOptions>(DEFAULT_DOCUMENT_PAGE);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
+  const { toast } = useToast();
+
+  const handleConvert = useCallback(async () => {
+    setIsProcessing(true);
+    setIsComplete(false);
+
+    // Documents are parsed with the browser's XML parser, so they're converted here one at a time
+    const updatedFiles = files.map((f): ProcessedPDF => ({ ...f, status: 'pending', error: undefined }));
+    for (let i = 0; i < updatedFiles.length; i++) {
+      updatedFiles[i] = { ...updatedFiles[i], status: 'processing' };
+      setFiles([...updatedFiles]);
+
+      try {
+        const pdfBlob = await convertOfficeToPDF(updatedFiles[i].originalFile, pageOptions);
+        updatedFiles[i] = { ...updatedFiles[i], status: 'success', processedBlob: pdfBlob };
+      } catch (error) {
+        updatedFiles[i] = {
+          ...updatedFiles[i],
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Failed to convert document',
+        };
+      }
+
+      setFiles([...updatedFiles]);
+    }
+
+    setIsProcessing(false);
+    setIsComplete(true);
+
+    const successCount = updatedFiles.filter((f) => f.status === 'success').length;
+    if (successCount > 0) {
+      toast({
+        title: 'Conversion complete',
+        description: `Converted ${successCount} document${successCount > 1 ? 's' : ''} to PDF.`,
+      });
+    }
+  }, [files, pageOptions, toast]);
+
+  const handleDownload = (file: ProcessedPDF) => {
+    if (file.processedBlob) downloadBlob(file.processedBlob, outputName(file));
+  };
+
+  const handleDownloadAll = async () => {
+    const zip = new JSZip();
+    for (const file of files) {
+      if (file.status === 'success' && file.processedBlob) zip.file(outputName(file), file.processedBlob);
+    }
+    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(zipBlob, 'converted_documents.zip');
+  };
+
+  const handleReset = useCallback(() => {
+    setFiles([]);
+    setIsComplete(false);
+  }, []);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className="space-y-6"
+    >
+      {!isProcessing && !isComplete ? (
+        <>
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">1. Upload Documents</h2>
+            <UniversalFileDropzone
+              files={files}
+              onFilesChange={setFiles}
+              acceptedTypes="office"
+              detectEncryption={false}
+            />
+          </div>
+
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">2. Page Setup</h2>
+            <DocumentPageSettings options={pageOptions} onChange={setPageOptions} />
+          </div>
+
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-primary/5 border border-primary/20">
+            <ShieldCheck className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium text-foreground">Best-Effort Office Conversion</p>
+              <p className="text-muted-foreground">
+                Word documents keep their headings, lists, tables and pictures; every sheet of a workbook becomes a
+                table; each slide gets its own page. The PDF follows the content rather than the exact layout, and
+                nothing leaves your device.
+              </p>
+            </div>
+          </div>
+
+          <Button
+            onClick={handleConvert}
+            disabled={files.length === 0}
+            className="w-full h-14 text-lg gap-2 gradient-primary text-primary-foreground shadow-glow"
+          >
+            <FileText className="w-5 h-5" />
+            Convert {files.length > 0 ? `${files.length} Document${files.length > 1 ? 's' : ''}` : 'Documents'} to PDF
+          </Button>
+        </>
+      ) : (
+        <>
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">
+              {isProcessing ? 'Converting documents...' : 'Download PDFs'}
+            </h2>
+            <ProcessingStatus
+              files={files}
+              onDownload={handleDownload}
+              onDownloadAll={isProcessing ? undefined : handleDownloadAll}
+              actionLabel="converted"
+            />
+          </div>
+
+          {!isProcessing && (
+            <Button onClick={handleReset} variant="outline" className="w-full h-12">
+              Convert More Documents
+            </Button>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,194 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { ShieldCheck, BookOpen } from 'lucide-react';
+import JSZip from 'jszip';
+import { FileDropzone } from '@/components/pdf/FileDropzone';
+import { ProcessingStatus } from '@/components/pdf/ProcessingStatus';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ProcessedPDF, downloadBlob, hasLockedFiles, isAbortError } from '@/lib/pdf-utils';
+import { runPDFTask } from '@/lib/worker-pool';
+import { useToast } from '@/hooks/use-toast';
+
+const outputName = (file: ProcessedPDF) => file.name.replace(/\.pdf$/i, '') + '.epub';
+
+export const PDFToEPUBConverter = () => {
+  const [files, setFiles] = useState<ProcessedPDF[]>([]);
+  const [pageSelection, setPageSelection] = useState('');
+  const [includeImages, setIncludeImages] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  const handleConvert = useCallback(async () => {
+    setIsProcessing(true);
+    setIsComplete(false);
+
+    const updateFile = (id: string, changes: Partial<ProcessedPDF>) => {
+      setFiles((prev) => prev.map((f) => (f.id === id ? { ...f, ...changes } : f)));
+    };
+
+    setFiles((prev) => prev.map((f) => ({ ...f, status: 'processing', error: undefined, progress: undefined })));
+
+    const results = await Promise.all(
+      files.map(async (file) => {
+        const controller = new AbortController();
+        controllersRef.current.set(file.id, controller);
+
+        try {
+          const blob = await runPDFTask(
+            'convertToEpub',
+            { file: file.originalFile, options: { pages: pageSelection, includeImages } },
+            {
+              signal: controller.signal,
+              onProgress: (progress) => updateFile(file.id, { progress }),
+            }
+          );
+          updateFile(file.id, { status: 'success', processedBlob: blob, progress: undefined });
+          return true;
+        } catch (error) {
+          updateFile(file.id, {
+            status: 'error',
+            progress: undefined,
+            error: isAbortError(error)
+              ? 'Cancelled'
+              : error instanceof Error ? error.message : 'Failed to create EPUB',
+          });
+          return false;
+        } finally {
+          controllersRef.current.delete(file.id);
+        }
+      })
+    );
+
+    setIsProcessing(false);
+    setIsComplete(true);
+
+    const successCount = results.filter(Boolean).length;
+    if (successCount > 0) {
+      toast({
+        title: 'Conversion complete',
+        description: `Converted ${successCount} file${successCount > 1 ? 's' : ''} to EPUB.`,
+      });
+    }
+  }, [files, pageSelection, includeImages, toast]);
+
+  const handleCancel = useCallback((file: ProcessedPDF) => {
+    controllersRef.current.get(file.id)?.abort();
+  }, []);
+
+  const handleDownload = (file: ProcessedPDF) => {
+    if (file.processedBlob) downloadBlob(file.processedBlob, outputName(file));
+  };
+
+  const handleDownloadAll = async () => {
+    const zip = new JSZip();
+    for (const file of files) {
+      if (file.status === 'success' && file.processedBlob) zip.file(outputName(file), file.processedBlob);
+    }
+    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(zipBlob, 'converted_epub.zip');
+  };
+
+  const handleReset = useCallback(() => {
+    setFiles([]);
+    setPageSelection('');
+    setIncludeImages(true);
+    setIsComplete(false);
+  }, []);
+
+  const canConvert = files.length > 0 && !hasLockedFiles(files) && !isProcessing;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className="space-y-6"
+    >
+      {!isProcessing && !isComplete ? (
+        <>
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">1. Upload PDFs</h2>
+            <FileDropzone files={files} onFilesChange={setFiles} />
+          </div>
+
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">2. Choose Output Options</h2>
+            <div className="space-y-5">
+              <div className="space-y-3">
+                <Label htmlFor="epub-page-selection">Pages</Label>
+                <Input
+                  id="epub-page-selection"
+                  placeholder="All pages, or e.g. 1-3, 5"
+                  value={pageSelection}
+                  onChange={(e) => setPageSelection(e.target.value)}
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="epub-include-images">Include pictures</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Place the PDF's pictures between the paragraphs they appear among. Logos repeated on most pages are
+                    left out.
+                  </p>
+                </div>
+                <Switch id="epub-include-images" checked={includeImages} onCheckedChange={setIncludeImages} />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-primary/5 border border-primary/20">
+            <ShieldCheck className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium text-foreground">Reflowable E-Book</p>
+              <p className="text-muted-foreground">
+                The text is reflowed to fit any e-reader screen and split into chapters at the PDF's bookmarks, or at
+                its main headings when it has none. Scanned pages have no text to reflow.
+              </p>
+            </div>
+          </div>
+
+          <Button
+            onClick={handleConvert}
+            disabled={!canConvert}
+            className="w-full h-14 text-lg gap-2 gradient-primary text-primary-foreground shadow-glow"
+          >
+            <BookOpen className="w-5 h-5" />
+            Convert {files.length > 0 ? `${files.length} PDF${files.length > 1 ? 's' : ''}` : 'PDFs'} to EPUB
+          </Button>
+        </>
+      ) : (
+        <>
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">
+              {isProcessing ? 'Creating e-books...' : 'Download EPUBs'}
+            </h2>
+            <ProcessingStatus
+              files={files}
+              onDownload={handleDownload}
+              onDownloadAll={isProcessing ? undefined : handleDownloadAll}
+              onCancel={handleCancel}
+              actionLabel="converted"
+            />
+          </div>
+
+          {!isProcessing && (
+            <Button onClick={handleReset} variant="outline" className="w-full h-12">
+              Convert More PDFs
+            </Button>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,205 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { ShieldCheck, FileType } from 'lucide-react';
+import JSZip from 'jszip';
+import { FileDropzone } from '@/components/pdf/FileDropzone';
+import { ProcessingStatus } from '@/components/pdf/ProcessingStatus';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ProcessedPDF, downloadBlob, hasLockedFiles, isAbortError } from '@/lib/pdf-utils';
+import { TextExportFormat } from '@/lib/pdf-text';
+import { runPDFTask } from '@/lib/worker-pool';
+import { useToast } from '@/hooks/use-toast';
+
+const TEXT_FORMATS: { value: TextExportFormat; label: string; extension: string }[] = [
+  { value: 'text', label: 'Plain text (.txt)', extension: 'txt' },
+  { value: 'markdown', label: 'Markdown with headings and lists (.md)', extension: 'md' },
+];
+
+export const PDFToTextConverter = () => {
+  const [files, setFiles] = useState<ProcessedPDF[]>([]);
+  const [format, setFormat] = useState<TextExportFormat>('text');
+  const [pageSelection, setPageSelection] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  const extension = TEXT_FORMATS.find((option) => option.value === format)!.extension;
+  const outputName = (file: ProcessedPDF) => file.name.replace(/\.pdf$/i, '') + `.${extension}`;
+
+  const handleConvert = useCallback(async () => {
+    setIsProcessing(true);
+    setIsComplete(false);
+
+    const updateFile = (id: string, changes: Partial<ProcessedPDF>) => {
+      setFiles((prev) => prev.map((f) => (f.id === id ? { ...f, ...changes } : f)));
+    };
+
+    setFiles((prev) => prev.map((f) => ({ ...f, status: 'processing', error: undefined, progress: undefined })));
+
+    const results = await Promise.all(
+      files.map(async (file) => {
+        const controller = new AbortController();
+        controllersRef.current.set(file.id, controller);
+
+        try {
+          const blob = await runPDFTask(
+            'convertToText',
+            { file: file.originalFile, options: { format, pages: pageSelection } },
+            {
+              signal: controller.signal,
+              onProgress: (progress) => updateFile(file.id, { progress }),
+            }
+          );
+          updateFile(file.id, { status: 'success', processedBlob: blob, progress: undefined });
+          return true;
+        } catch (error) {
+          updateFile(file.id, {
+            status: 'error',
+            progress: undefined,
+            error: isAbortError(error)
+              ? 'Cancelled'
+              : error instanceof Error ? error.message : 'Failed to extract text',
+          });
+          return false;
+        } finally {
+          controllersRef.current.delete(file.id);
+        }
+      })
+    );
+
+    setIsProcessing(false);
+    setIsComplete(true);
+
+    const successCount = results.filter(Boolean).length;
+    if (successCount > 0) {
+      toast({
+        title: 'Conversion complete',
+        description: `Extracted the text of ${successCount} file${successCount > 1 ? 's' : ''}.`,
+      });
+    }
+  }, [files, format, pageSelection, toast]);
+
+  const handleCancel = useCallback((file: ProcessedPDF) => {
+    controllersRef.current.get(file.id)?.abort();
+  }, []);
+
+  const handleDownload = (file: ProcessedPDF) => {
+    if (file.processedBlob) downloadBlob(file.processedBlob, outputName(file));
+  };
+
+  const handleDownloadAll = async () => {
+    const zip = new JSZip();
+    for (const file of files) {
+      if (file.status === 'success' && file.processedBlob) zip.file(outputName(file), file.processedBlob);
+    }
+    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(zipBlob, `converted_${extension}.zip`);
+  };
+
+  const handleReset = useCallback(() => {
+    setFiles([]);
+    setFormat('text');
+    setPageSelection('');
+    setIsComplete(false);
+  }, []);
+
+  const canConvert = files.length > 0 && !hasLockedFiles(files) && !isProcessing;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className="space-y-6"
+    >
+      {!isProcessing && !isComplete ? (
+        <>
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">1. Upload PDFs</h2>
+            <FileDropzone files={files} onFilesChange={setFiles} />
+          </div>
+
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">2. Choose Output Options</h2>
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-3">
+                <Label>Format</Label>
+                <Select value={format} onValueChange={(v) => setFormat(v as TextExportFormat)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEXT_FORMATS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-3">
+                <Label htmlFor="text-page-selection">Pages</Label>
+                <Input
+                  id="text-page-selection"
+                  placeholder="All pages, or e.g. 1-3, 5"
+                  value={pageSelection}
+                  onChange={(e) => setPageSelection(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-primary/5 border border-primary/20">
+            <ShieldCheck className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium text-foreground">Readable Text</p>
+              <p className="text-muted-foreground">
+                Columns are read in order, lines are joined into paragraphs, larger text becomes headings, and page
+                numbers and running headers are left out. Scanned pages have no text to extract.
+              </p>
+            </div>
+          </div>
+
+          <Button
+            onClick={handleConvert}
+            disabled={!canConvert}
+            className="w-full h-14 text-lg gap-2 gradient-primary text-primary-foreground shadow-glow"
+          >
+            <FileType className="w-5 h-5" />
+            Extract Text from {files.length > 0 ? `${files.length} PDF${files.length > 1 ? 's' : ''}` : 'PDFs'}
+          </Button>
+        </>
+      ) : (
+        <>
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">
+              {isProcessing ? 'Extracting text...' : 'Download Text Files'}
+            </h2>
+            <ProcessingStatus
+              files={files}
+              onDownload={handleDownload}
+              onDownloadAll={isProcessing ? undefined : handleDownloadAll}
+              onCancel={handleCancel}
+              actionLabel="converted"
+            />
+          </div>
+
+          {!isProcessing && (
+            <Button onClick={handleReset} variant="outline" className="w-full h-12">
+              Convert More PDFs
+            </Button>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,294 @@
+import { useState, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { FileOutput, ShieldCheck, FileText, FileSpreadsheet } from 'lucide-react';
+import { DocumentPageSettings } from '@/components/convert/DocumentPageSettings';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  CSVDelimiter,
+  DEFAULT_DOCUMENT_PAGE,
+  DocumentPageOptions,
+  convertCSVToPDF,
+  convertTextToPDF,
+} from '@/lib/document-pdf';
+import { downloadBlob, formatFileSize } from '@/lib/pdf-utils';
+import { useToast } from '@/hooks/use-toast';
+
+export type TextSource = 'text' | 'csv';
+
+interface TextToPDFConverterProps {
+  source: TextSource;
+}
+
+const SOURCES: Record<TextSource, { name: string; pattern: RegExp; accept: string; extensions: string; description: string }> = {
+  text: {
+    name: 'Text',
+    pattern: /\.(txt|text|log)$/i,
+    accept: '.txt,.text,.log,text/plain',
+    extensions: '.txt and .log',
+    description: 'Set in a monospaced font with line numbers. Long lines wrap under their own number.',
+  },
+  csv: {
+    name: 'CSV',
+    pattern: /\.(csv|tsv)$/i,
+    accept: '.csv,.tsv,text/csv',
+    extensions: '.csv and .tsv',
+    description: 'Laid out as a table across as many pages as it needs, with the header row repeated on every page.',
+  },
+};
+
+const FONT_SIZES = [7, 8, 9, 10, 11];
+
+const DELIMITERS: { value: CSVDelimiter; label: string }[] = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' },
+];
+
+export const TextToPDFConverter = ({ source }: TextToPDFConverterProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [pageOptions, setPageOptions] = useState<DocumentPageOptions>({ ...DEFAULT_DOCUMENT_PAGE, header: '{title}' });
+  const [fontSize, setFontSize] = useState(9);
+  const [lineNumbers, setLineNumbers] = useState(true);
+  const [delimiter, setDelimiter] = useState<CSVDelimiter>('auto');
+  const [headerRow, setHeaderRow] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [convertedPdf, setConvertedPdf] = useState<Blob | null>(null);
+  const { toast } = useToast();
+
+  const { name, pattern, accept, extensions, description } = SOURCES[source];
+  const Icon = source === 'csv' ? FileSpreadsheet : FileText;
+  const inputId = `${source}-input`;
+
+  const handleDrop = useCallback((files: File[]) => {
+    const textFile = files.find((f) => pattern.test(f.name)) || files.find((f) => f.type.startsWith('text/'));
+    if (textFile) setFile(textFile);
+  }, [pattern]);
+
+  const handleConvert = useCallback(async () => {
+    if (!file) return;
+    setIsProcessing(true);
+
+    try {
+      const pdfBlob = source === 'csv'
+        ? await convertCSVToPDF(file, { ...pageOptions, fontSize, delimiter, headerRow })
+        : await convertTextToPDF(file, { ...pageOptions, fontSize, lineNumbers });
+      setConvertedPdf(pdfBlob);
+      toast({
+        title: 'Conversion complete',
+        description: `Successfully converted ${name} to PDF.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Conversion failed',
+        description: error instanceof Error ? error.message : `Failed to convert ${name}`,
+        variant: 'destructive',
+      });
+    }
+
+    setIsProcessing(false);
+  }, [file, pageOptions, fontSize, lineNumbers, delimiter, headerRow, source, name, toast]);
+
+  const handleDownload = useCallback(() => {
+    if (!convertedPdf || !file) return;
+    downloadBlob(convertedPdf, file.name.replace(/\.[^.]+$/, '') + '.pdf');
+  }, [convertedPdf, file]);
+
+  const handleReset = useCallback(() => {
+    setFile(null);
+    setConvertedPdf(null);
+  }, []);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className="space-y-6"
+    >
+      {!convertedPdf ? (
+        <>
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">1. Upload {name} File</h2>
+            <div
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(Array.from(e.dataTransfer.files));
+              }}
+              onDragOver={(e) => e.preventDefault()}
+              onClick={() => document.getElementById(inputId)?.click()}
+              className="border-2 border-dashed border-border rounded-xl p-8 text-center cursor-pointer hover:border-primary/50 hover:bg-primary/5 transition-colors"
+            >
+              <input
+                id={inputId}
+                type="file"
+                accept={accept}
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files) {
+                    handleDrop(Array.from(e.target.files));
+                  }
+                  e.target.value = '';
+                }}
+              />
+              <Icon className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+              <p className="text-foreground font-medium mb-1">
+                Drop a {name} file here or click to browse
+              </p>
+              <p className="text-sm text-muted-foreground">Supports {extensions} files</p>
+            </div>
+
+            {file && (
+              <div className="mt-4 flex items-center justify-between p-4 rounded-xl bg-primary/5 border border-primary/20">
+                <div className="flex items-center gap-3">
+                  <Icon className="w-5 h-5 text-primary" />
+                  <div>
+                    <p className="font-medium text-foreground">{file.name}</p>
+                    <p className="text-sm text-muted-foreground">{formatFileSize(file.size)}</p>
+                  </div>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleReset();
+                  }}
+                  className="p-2 rounded-full hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">2. Page Setup</h2>
+            <div className="space-y-5">
+              <DocumentPageSettings options={pageOptions} onChange={setPageOptions} />
+
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div className="space-y-3">
+                  <Label>Font Size</Label>
+                  <Select value={String(fontSize)} onValueChange={(v) => setFontSize(parseInt(v, 10))}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FONT_SIZES.map((size) => (
+                        <SelectItem key={size} value={String(size)}>
+                          {size} pt
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {source === 'csv' && (
+                  <div className="space-y-3">
+                    <Label>Delimiter</Label>
+                    <Select value={delimiter} onValueChange={(v) => setDelimiter(v as CSVDelimiter)}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DELIMITERS.map((option) => (
+                          <SelectItem key={option.label} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              {source === 'csv' ? (
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="csv-header-row">First row is a header</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Set it in bold and repeat it at the top of every page.
+                    </p>
+                  </div>
+                  <Switch id="csv-header-row" checked={headerRow} onCheckedChange={setHeaderRow} />
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="text-line-numbers">Line numbers</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Number every line of the file in the left margin.
+                    </p>
+                  </div>
+                  <Switch id="text-line-numbers" checked={lineNumbers} onCheckedChange={setLineNumbers} />
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-primary/5 border border-primary/20">
+            <ShieldCheck className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium text-foreground">{name} to PDF Conversion</p>
+              <p className="text-muted-foreground">{description}</p>
+            </div>
+          </div>
+
+          <Button
+            onClick={handleConvert}
+            disabled={!file || isProcessing}
+            className="w-full h-14 text-lg gap-2 gradient-primary text-primary-foreground shadow-glow"
+          >
+            {isProcessing ? (
+              <>
+                <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+                Converting...
+              </>
+            ) : (
+              <>
+                <FileText className="w-5 h-5" />
+                Convert {name} to PDF
+              </>
+            )}
+          </Button>
+        </>
+      ) : (
+        <>
+          <div className="p-6 rounded-2xl bg-card border border-border">
+            <h2 className="font-semibold text-foreground mb-4">Download Your PDF</h2>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between p-4 rounded-xl bg-success/10 border border-success/20">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-success/20">
+                    <FileText className="w-5 h-5 text-success" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-foreground">PDF Created Successfully</p>
+                    <p className="text-sm text-muted-foreground">From: {file?.name}</p>
+                  </div>
+                </div>
+              </div>
+
+              <Button
+                onClick={handleDownload}
+                className="w-full h-12 gap-2 gradient-primary text-primary-foreground"
+              >
+                <FileOutput className="w-5 h-5" />
+                Download PDF
+              </Button>
+            </div>
+          </div>
+
+          <Button onClick={handleReset} variant="outline" className="w-full h-12">
+            Convert Another {name} File
+          </Button>
+        </>
+      )}
+    </motion.div>
+  );
+};
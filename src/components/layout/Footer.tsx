@@ -1,10 +1,13 @@
-import { Shield, Lock, Unlock, Layers, FileDown, ArrowRightLeft, Mail, Github, Twitter } from 'lucide-react';
+import { Shield, Lock, Unlock, Layers, Scissors, RotateCw, LayoutGrid, FileDown, ArrowRightLeft, Mail, Github, Twitter } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
 const toolLinks = [
   { href: '/encrypt', label: 'Encrypt PDF', icon: Lock },
   { href: '/unlock', label: 'Unlock PDF', icon: Unlock },
   { href: '/merge', label: 'Merge PDFs', icon: Layers },
+  { href: '/split', label: 'Split PDF', icon: Scissors },
+  { href: '/rotate', label: 'Rotate PDF', icon: RotateCw },
+  { href: '/organize', label: 'Organize PDF', icon: LayoutGrid },
   { href: '/compress', label: 'Compress PDF', icon: FileDown },
   { href: '/convert', label: 'Convert PDF', icon: ArrowRightLeft },
 ];
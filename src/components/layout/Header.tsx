@@ -1,6 +1,6 @@
 import { Link, useLocation } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Shield, Lock, Menu, X, Layers, Minimize2, FileOutput, Users, Maximize2 } from 'lucide-react';
+import { Shield, Lock, Menu, X, Layers, Minimize2, FileOutput, Users, Maximize2, Scissors, RotateCw, LayoutGrid } from 'lucide-react';
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
@@ -9,6 +9,9 @@ import { ThemeToggle } from '@/components/ThemeToggle';
 const navLinks = [
   { href: '/encrypt', label: 'Encrypt', icon: Lock },
   { href: '/merge', label: 'Merge', icon: Layers },
+  { href: '/split', label: 'Split', icon: Scissors },
+  { href: '/rotate', label: 'Rotate', icon: RotateCw },
+  { href: '/organize', label: 'Organize', icon: LayoutGrid },
   { href: '/compress', label: 'Compress', icon: Minimize2 },
   { href: '/convert', label: 'Convert', icon: FileOutput },
   { href: '/resize', label: 'Resize', icon: Maximize2 },
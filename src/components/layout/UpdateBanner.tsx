@@ -0,0 +1,37 @@
+import { useSyncExternalStore } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { applyUpdate, dismissUpdate, isUpdateAvailable, subscribeToUpdates } from '@/lib/pwa';
+
+export const UpdateBanner = () => {
+  const updateAvailable = useSyncExternalStore(subscribeToUpdates, isUpdateAvailable);
+
+  return (
+    <AnimatePresence>
+      {updateAvailable && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          role="status"
+          className="fixed bottom-4 inset-x-4 z-50 mx-auto max-w-md flex items-center gap-3 p-4 rounded-xl bg-card border border-border shadow-lg"
+        >
+          <div className="p-2 rounded-lg bg-primary/10 text-primary">
+            <RefreshCw className="w-4 h-4" />
+          </div>
+          <div className="flex-1 min-w-0 text-sm">
+            <p className="font-medium text-foreground">Update available</p>
+            <p className="text-muted-foreground">Reload to use the latest version.</p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={dismissUpdate}>
+            Later
+          </Button>
+          <Button size="sm" onClick={applyUpdate}>
+            Reload
+          </Button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
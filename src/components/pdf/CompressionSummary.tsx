@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { CompressionReport, CompressionStrategy, formatFileSize } from '@/lib/pdf-utils';
+import { PDFSizeBreakdown } from '@/lib/pdf-analysis';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { cn } from '@/lib/utils';
+
+interface CompressionSummaryProps {
+  report: CompressionReport;
+}
+
+const STRATEGY_LABELS: Record<CompressionStrategy, string> = {
+  'object-streams': 'Optimized file structure (object streams)',
+  'image-downsampling': 'Downsampled images',
+  rasterization: 'Converted pages to images',
+  'color-conversion': 'Converted colors only, nothing else helped',
+  unchanged: 'Already optimized, kept original',
+};
+
+const CATEGORY_LABELS: [keyof PDFSizeBreakdown, string][] = [
+  ['images', 'Images'],
+  ['fonts', 'Fonts'],
+  ['contentStreams', 'Content streams'],
+  ['metadata', 'Metadata'],
+  ['other', 'Structure & other'],
+];
+
+export const CompressionSummary = ({ report }: CompressionSummaryProps) => {
+  const [open, setOpen] = useState(false);
+  const { originalSize, compressedSize, original, compressed } = report;
+  const saved = originalSize > 0 ? Math.round((1 - compressedSize / originalSize) * 100) : 0;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="w-full mt-3 pt-3 border-t border-border/60">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+        <span className="font-medium text-foreground">
+          {formatFileSize(originalSize)} → {formatFileSize(compressedSize)}
+        </span>
+        <span className={cn('font-semibold', saved > 0 ? 'text-success' : 'text-muted-foreground')}>
+          {saved > 0 ? `${saved}% smaller` : 'No reduction'}
+        </span>
+        <span className="text-muted-foreground">{STRATEGY_LABELS[report.strategy]}</span>
+        {original && compressed && (
+          <CollapsibleTrigger className="ml-auto inline-flex items-center gap-1 text-muted-foreground hover:text-foreground">
+            Breakdown
+            <ChevronDown className={cn('w-3.5 h-3.5 transition-transform', open && 'rotate-180')} />
+          </CollapsibleTrigger>
+        )}
+      </div>
+
+      {original && compressed && (
+        <CollapsibleContent>
+          <table className="w-full mt-2 text-xs">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="text-left font-normal py-1">Content</th>
+                <th className="text-right font-normal py-1">Before</th>
+                <th className="text-right font-normal py-1">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {CATEGORY_LABELS.map(([key, label]) => (
+                <tr key={key} className="border-t border-border/40">
+                  <td className="py-1 text-foreground">{label}</td>
+                  <td className="py-1 text-right text-muted-foreground">{formatFileSize(original[key])}</td>
+                  <td className="py-1 text-right text-foreground">{formatFileSize(compressed[key])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CollapsibleContent>
+      )}
+    </Collapsible>
+  );
+};
@@ -1,13 +1,14 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useState, type Dispatch, type SetStateAction } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, FileText, X, AlertCircle } from 'lucide-react';
+import { Upload, FileText, Lock, X, AlertCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { validatePDFFile, formatFileSize, generateFileId, ProcessedPDF } from '@/lib/pdf-utils';
+import { validatePDFFile, formatFileSize, generateFileId, unlockAddedPDF, ProcessedPDF } from '@/lib/pdf-utils';
 import { Button } from '@/components/ui/button';
+import { FilePasswordPrompt } from './FilePasswordPrompt';
 
 interface FileDropzoneProps {
   files: ProcessedPDF[];
-  onFilesChange: (files: ProcessedPDF[]) => void;
+  onFilesChange: Dispatch<SetStateAction<ProcessedPDF[]>>;
   multiple?: boolean;
   maxFiles?: number;
 }
@@ -21,7 +22,7 @@ export const FileDropzone = ({
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handleFiles = useCallback((fileList: FileList) => {
+  const handleFiles = useCallback(async (fileList: FileList) => {
     setError(null);
     const newFiles: ProcessedPDF[] = [];
     
@@ -35,19 +36,26 @@ export const FileDropzone = ({
       const validation = validatePDFFile(file);
       
       if (validation.valid) {
-        newFiles.push({
-          id: generateFileId(),
-          name: file.name,
-          originalFile: file,
-          status: 'pending',
-        });
+        try {
+          const { file: readable, isLocked } = await unlockAddedPDF(file);
+          newFiles.push({
+            id: generateFileId(),
+            name: file.name,
+            originalFile: readable,
+            status: 'pending',
+            isLocked,
+          });
+        } catch (err) {
+          setError(`Could not open ${file.name}: ${err instanceof Error ? err.message : 'unknown error'}`);
+        }
       } else {
         setError(validation.error || 'Invalid file');
       }
     }
     
     if (newFiles.length > 0) {
-      onFilesChange([...files, ...newFiles]);
+      // Checking for passwords takes a moment, so add to whatever the list holds by then
+      onFilesChange((prev) => [...prev, ...newFiles].slice(0, maxFiles));
     }
   }, [files, onFilesChange, maxFiles]);
 
@@ -74,8 +82,12 @@ export const FileDropzone = ({
   }, [handleFiles]);
 
   const removeFile = useCallback((id: string) => {
-    onFilesChange(files.filter(f => f.id !== id));
-  }, [files, onFilesChange]);
+    onFilesChange((prev) => prev.filter(f => f.id !== id));
+  }, [onFilesChange]);
+
+  const replaceFile = useCallback((updated: ProcessedPDF) => {
+    onFilesChange((prev) => prev.map(f => (f.id === updated.id ? updated : f)));
+  }, [onFilesChange]);
 
   return (
     <div className="space-y-4">
@@ -161,15 +173,23 @@ export const FileDropzone = ({
                 )}
               >
                 <div className="p-2 rounded-lg bg-primary/10">
-                  <FileText className="w-5 h-5 text-primary" />
+                  {file.isLocked ? (
+                    <Lock className="w-5 h-5 text-warning" />
+                  ) : (
+                    <FileText className="w-5 h-5 text-primary" />
+                  )}
                 </div>
                 
-                <div className="flex-1 min-w-0">
-                  <p className="font-medium text-foreground truncate">{file.name}</p>
-                  <p className="text-xs text-muted-foreground">
-                    {formatFileSize(file.originalFile.size)}
-                    {file.pageCount && ` • ${file.pageCount} pages`}
-                  </p>
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div>
+                    <p className="font-medium text-foreground truncate">{file.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(file.originalFile.size)}
+                      {file.pageCount && ` • ${file.pageCount} pages`}
+                      {file.isLocked && ' • Password protected'}
+                    </p>
+                  </div>
+                  {file.isLocked && <FilePasswordPrompt file={file} onUnlock={replaceFile} />}
                 </div>
 
                 {file.status === 'processing' && (
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { ProcessedPDF, decryptPDF } from '@/lib/pdf-utils';
+
+interface FilePasswordPromptProps {
+  file: ProcessedPDF;
+  onUnlock: (file: ProcessedPDF) => void;
+}
+
+/**
+ * Inline password field for a locked PDF in a dropzone list.
+ * On success the file is swapped for a decrypted copy so every tool can read it.
+ */
+export const FilePasswordPrompt = ({ file, onUnlock }: FilePasswordPromptProps) => {
+  const [password, setPassword] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async () => {
+    setIsUnlocking(true);
+    setError(null);
+
+    try {
+      const blob = await decryptPDF(file.originalFile, password);
+      const unlockedFile = new File([blob], file.originalFile.name, { type: 'application/pdf' });
+      onUnlock({ ...file, originalFile: unlockedFile, isLocked: false });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock file');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <form
+      className="space-y-1"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleUnlock();
+      }}
+    >
+      <div className="flex items-center gap-2">
+        <Input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Enter password to open"
+          className="h-8 text-sm"
+          aria-label={`Password for ${file.name}`}
+        />
+        <Button type="submit" size="sm" className="h-8 gap-1 shrink-0" disabled={isUnlocking}>
+          {isUnlocking ? (
+            <div className="w-4 h-4 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+          ) : (
+            <KeyRound className="w-4 h-4" />
+          )}
+          Unlock
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </form>
+  );
+};
@@ -0,0 +1,110 @@
+import { CSSProperties, ReactNode, useState } from 'react';
+import { FileText } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { cn } from '@/lib/utils';
+
+export interface PageGridItem {
+  id: string;
+  label: string;
+  thumbnailUrl?: string;
+  sublabel?: string;
+  accentClass?: string;
+  rotation?: number; // degrees clockwise to show the thumbnail turned by
+}
+
+interface PageGridProps {
+  items: PageGridItem[];
+  onReorder?: (fromIndex: number, toIndex: number) => void;
+  renderActions?: (item: PageGridItem, index: number) => ReactNode;
+  selectedIds?: Set<string>;
+  onToggleSelect?: (item: PageGridItem, index: number) => void;
+}
+
+// Quarter turns are shrunk so a page turned on its side still fits the portrait frame
+const getRotationStyle = (rotation?: number): CSSProperties | undefined =>
+  rotation ? { transform: `rotate(${rotation}deg)${rotation % 180 ? ' scale(0.75)' : ''}` } : undefined;
+
+export const PageGrid = ({ items, onReorder, renderActions, selectedIds, onToggleSelect }: PageGridProps) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index && onReorder) {
+      onReorder(dragIndex, index);
+    }
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+      {items.map((item, index) => (
+        <div
+          key={item.id}
+          draggable={!!onReorder}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDragIndex(index);
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            if (overIndex !== index) setOverIndex(index);
+          }}
+          onDragLeave={() => setOverIndex((current) => (current === index ? null : current))}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(index);
+          }}
+          onDragEnd={() => {
+            setDragIndex(null);
+            setOverIndex(null);
+          }}
+          className={cn(
+            'group relative flex flex-col rounded-xl border bg-muted/50 p-2 transition-all',
+            onReorder && 'cursor-grab active:cursor-grabbing',
+            dragIndex === index && 'opacity-40',
+            overIndex === index && dragIndex !== index
+              ? 'border-primary ring-2 ring-primary/30'
+              : selectedIds?.has(item.id)
+              ? 'border-primary bg-primary/10'
+              : 'border-border'
+          )}
+        >
+          <div className="relative aspect-[3/4] flex items-center justify-center overflow-hidden rounded-lg bg-background">
+            {item.thumbnailUrl ? (
+              <img
+                src={item.thumbnailUrl}
+                alt={item.label}
+                draggable={false}
+                className="max-w-full max-h-full object-contain shadow-sm transition-transform"
+                style={getRotationStyle(item.rotation)}
+              />
+            ) : (
+              <FileText className="w-8 h-8 text-muted-foreground" />
+            )}
+            {item.accentClass && (
+              <span className={cn('absolute left-1 top-1 h-2.5 w-2.5 rounded-full', item.accentClass)} />
+            )}
+            {onToggleSelect && (
+              <Checkbox
+                checked={selectedIds?.has(item.id) ?? false}
+                onCheckedChange={() => onToggleSelect(item, index)}
+                aria-label={`Select ${item.label}`}
+                className="absolute left-1 bottom-1 bg-background"
+              />
+            )}
+            {renderActions && (
+              <div className="absolute right-1 top-1 flex flex-col gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                {renderActions(item, index)}
+              </div>
+            )}
+          </div>
+          <p className="mt-2 text-xs font-medium text-foreground text-center">{item.label}</p>
+          {item.sublabel && (
+            <p className="text-[10px] text-muted-foreground text-center truncate">{item.sublabel}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
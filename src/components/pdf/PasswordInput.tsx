@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label';
 import { cn } from '@/lib/utils';
 
 interface PasswordInputProps {
+  id?: string;
   value: string;
   onChange: (value: string) => void;
   label?: string;
@@ -33,6 +34,7 @@ const getPasswordStrength = (password: string): { score: number; label: string;
 };
 
 export const PasswordInput = ({
+  id = 'password',
   value,
   onChange,
   label = 'Password',
@@ -51,13 +53,13 @@ export const PasswordInput = ({
   return (
     <div className="space-y-4">
       <div className="space-y-2">
-        <Label htmlFor="password" className="flex items-center gap-2">
+        <Label htmlFor={id} className="flex items-center gap-2">
           <Shield className="w-4 h-4 text-primary" />
           {label}
         </Label>
         <div className="relative">
           <Input
-            id="password"
+            id={id}
             type={showPassword ? 'text' : 'password'}
             value={value}
             onChange={(e) => onChange(e.target.value)}
@@ -112,10 +114,10 @@ export const PasswordInput = ({
 
       {confirmPassword && onConfirmChange && (
         <div className="space-y-2">
-          <Label htmlFor="confirm-password">Confirm Password</Label>
+          <Label htmlFor={`confirm-${id}`}>Confirm Password</Label>
           <div className="relative">
             <Input
-              id="confirm-password"
+              id={`confirm-${id}`}
               type={showConfirm ? 'text' : 'password'}
               value={confirmValue}
               onChange={(e) => onConfirmChange(e.target.value)}
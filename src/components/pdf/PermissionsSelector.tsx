@@ -0,0 +1,54 @@
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PDFPermissions } from '@/lib/pdf-utils';
+
+interface PermissionsSelectorProps {
+  value: PDFPermissions;
+  onChange: (value: PDFPermissions) => void;
+}
+
+const toggles: { key: Exclude<keyof PDFPermissions, 'print'>; label: string; description: string }[] = [
+  { key: 'extract', label: 'Copy text & images', description: 'Select and copy content out of the document' },
+  { key: 'fillForms', label: 'Fill in forms', description: 'Type into existing form fields' },
+  { key: 'annotate', label: 'Comment & annotate', description: 'Add notes, highlights and other annotations' },
+  { key: 'assemble', label: 'Assemble pages', description: 'Insert, rotate and delete pages' },
+  { key: 'modify', label: 'Other changes', description: 'Edit the document content in any other way' },
+];
+
+export const PermissionsSelector = ({ value, onChange }: PermissionsSelectorProps) => {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Printing</Label>
+        <Select
+          value={value.print}
+          onValueChange={(print) => onChange({ ...value, print: print as PDFPermissions['print'] })}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="full">Allowed (high quality)</SelectItem>
+            <SelectItem value="low">Low resolution only</SelectItem>
+            <SelectItem value="none">Not allowed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {toggles.map((toggle) => (
+        <div key={toggle.key} className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor={`permission-${toggle.key}`}>{toggle.label}</Label>
+            <p className="text-xs text-muted-foreground">{toggle.description}</p>
+          </div>
+          <Switch
+            id={`permission-${toggle.key}`}
+            checked={value[toggle.key]}
+            onCheckedChange={(checked) => onChange({ ...value, [toggle.key]: checked })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
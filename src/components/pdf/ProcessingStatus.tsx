@@ -1,21 +1,36 @@
+import { ReactNode } from 'react';
 import { motion } from 'framer-motion';
-import { CheckCircle, XCircle, Loader2, Download, FileText } from 'lucide-react';
+import { CheckCircle, XCircle, Loader2, Download, FileText, X } from 'lucide-react';
 import { ProcessedPDF, formatFileSize, downloadBlob } from '@/lib/pdf-utils';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
 
 interface ProcessingStatusProps {
   files: ProcessedPDF[];
-  onDownload: (file: ProcessedPDF) => void;
+  onDownload?: (file: ProcessedPDF) => void;
   onDownloadAll?: () => void;
+  onCancel?: (file: ProcessedPDF) => void;
   actionLabel?: string;
+  progressUnit?: string; // what progress.current counts, e.g. "Page" or "Chapter"
+  renderDetails?: (file: ProcessedPDF) => ReactNode; // extra full-width content below a row
 }
 
+const getProgressText = (file: ProcessedPDF, unit: string): string => {
+  if (!file.progress) return 'Processing...';
+  const { current, total, bytesWritten } = file.progress;
+  const text = `${file.progress.unit || unit} ${current} of ${total}`;
+  return bytesWritten ? `${text} • ${formatFileSize(bytesWritten)} written` : text;
+};
+
 export const ProcessingStatus = ({
   files,
   onDownload,
   onDownloadAll,
+  onCancel,
   actionLabel = 'protected',
+  progressUnit = 'Page',
+  renderDetails,
 }: ProcessingStatusProps) => {
   const successFiles = files.filter((f) => f.status === 'success');
   const hasMultipleSuccess = successFiles.length > 1;
@@ -29,7 +44,7 @@ export const ProcessingStatus = ({
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
             className={cn(
-              'flex items-center gap-3 p-4 rounded-xl border transition-all',
+              'flex flex-wrap items-center gap-3 p-4 rounded-xl border transition-all',
               file.status === 'success' && 'bg-success/5 border-success/30',
               file.status === 'error' && 'bg-destructive/5 border-destructive/30',
               file.status === 'processing' && 'bg-primary/5 border-primary/30',
@@ -63,13 +78,35 @@ export const ProcessingStatus = ({
               <p className="font-medium text-foreground truncate">{file.name}</p>
               <p className="text-xs text-muted-foreground">
                 {file.status === 'success' && `Successfully ${actionLabel}`}
+                {file.status === 'success' && file.processedBlob && ` • ${formatFileSize(file.processedBlob.size)}`}
                 {file.status === 'error' && (file.error || 'Processing failed')}
-                {file.status === 'processing' && 'Processing...'}
+                {file.status === 'processing' && getProgressText(file, progressUnit)}
                 {file.status === 'pending' && formatFileSize(file.originalFile.size)}
               </p>
+              {file.status === 'success' && file.warning && (
+                <p className="text-xs text-amber-600 dark:text-amber-500 mt-1">{file.warning}</p>
+              )}
+              {file.status === 'processing' && file.progress && file.progress.total > 0 && (
+                <Progress
+                  value={(file.progress.current / file.progress.total) * 100}
+                  className="h-1.5 mt-2"
+                />
+              )}
             </div>
 
-            {file.status === 'success' && file.processedBlob && (
+            {onCancel && (file.status === 'processing' || file.status === 'pending') && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-1 shrink-0 text-muted-foreground hover:text-destructive"
+                onClick={() => onCancel(file)}
+              >
+                <X className="w-4 h-4" />
+                Cancel
+              </Button>
+            )}
+
+            {file.status === 'success' && file.processedBlob && onDownload && (
               <Button
                 variant="outline"
                 size="sm"
@@ -80,6 +117,8 @@ export const ProcessingStatus = ({
                 Download
               </Button>
             )}
+
+            {renderDetails?.(file)}
           </motion.div>
         ))}
       </div>
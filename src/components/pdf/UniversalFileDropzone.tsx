@@ -1,22 +1,26 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useState, type Dispatch, type SetStateAction } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, FileText, Image, X, AlertCircle } from 'lucide-react';
+import { Upload, FileText, FileSpreadsheet, Image, Lock, X, AlertCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { formatFileSize, generateFileId, ProcessedPDF } from '@/lib/pdf-utils';
-import { isImageFile, isPDFFile } from '@/lib/crypto-utils';
+import { formatFileSize, generateFileId, unlockAddedPDF, ProcessedPDF } from '@/lib/pdf-utils';
+import { isImageFile, isOfficeFile, isPDFFile } from '@/lib/crypto-utils';
 import { Button } from '@/components/ui/button';
+import { FilePasswordPrompt } from './FilePasswordPrompt';
 
 const MAX_FILE_SIZE = 500 * 1024 * 1024; // 500MB
 
+type AcceptedFileTypes = 'all' | 'pdf' | 'image' | 'office';
+
 interface UniversalFileDropzoneProps {
   files: ProcessedPDF[];
-  onFilesChange: (files: ProcessedPDF[]) => void;
+  onFilesChange: Dispatch<SetStateAction<ProcessedPDF[]>>;
   multiple?: boolean;
   maxFiles?: number;
-  acceptedTypes?: 'all' | 'pdf' | 'image';
+  acceptedTypes?: AcceptedFileTypes;
+  detectEncryption?: boolean; // prompt for passwords of encrypted PDFs as they are added
 }
 
-const validateFile = (file: File, acceptedTypes: 'all' | 'pdf' | 'image'): { valid: boolean; error?: string } => {
+const validateFile = (file: File, acceptedTypes: AcceptedFileTypes): { valid: boolean; error?: string } => {
   if (file.size > MAX_FILE_SIZE) {
     return { valid: false, error: `File "${file.name}" exceeds 500MB limit` };
   }
@@ -31,6 +35,10 @@ const validateFile = (file: File, acceptedTypes: 'all' | 'pdf' | 'image'): { val
   if (acceptedTypes === 'image' && !isImage) {
     return { valid: false, error: `File "${file.name}" is not an image` };
   }
+
+  if (acceptedTypes === 'office' && !isOfficeFile(file)) {
+    return { valid: false, error: `File "${file.name}" is not a Word, Excel or PowerPoint document (.docx, .xlsx or .pptx)` };
+  }
   
   if (acceptedTypes === 'all' && !isPdf && !isImage) {
     return { valid: false, error: `File "${file.name}" is not a supported format (PDF or image)` };
@@ -45,6 +53,7 @@ export const UniversalFileDropzone = ({
   multiple = true,
   maxFiles = 10,
   acceptedTypes = 'all',
+  detectEncryption = true,
 }: UniversalFileDropzoneProps) => {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -55,6 +64,8 @@ export const UniversalFileDropzone = ({
         return '.pdf,application/pdf';
       case 'image':
         return 'image/*,.jpg,.jpeg,.png,.gif,.bmp,.webp,.svg,.ico,.tiff,.tif,.heic,.heif,.avif';
+      case 'office':
+        return '.docx,.xlsx,.pptx';
       default:
         return '.pdf,application/pdf,image/*,.jpg,.jpeg,.png,.gif,.bmp,.webp,.svg,.ico,.tiff,.tif,.heic,.heif,.avif';
     }
@@ -66,12 +77,14 @@ export const UniversalFileDropzone = ({
         return { drag: 'Drop your PDFs here', idle: 'Drag & drop PDFs here' };
       case 'image':
         return { drag: 'Drop your images here', idle: 'Drag & drop images here' };
+      case 'office':
+        return { drag: 'Drop your documents here', idle: 'Drag & drop Word, Excel or PowerPoint files here' };
       default:
         return { drag: 'Drop your files here', idle: 'Drag & drop PDFs or images here' };
     }
   };
 
-  const handleFiles = useCallback((fileList: FileList) => {
+  const handleFiles = useCallback(async (fileList: FileList) => {
     setError(null);
     const newFiles: ProcessedPDF[] = [];
     
@@ -85,21 +98,30 @@ export const UniversalFileDropzone = ({
       const validation = validateFile(file, acceptedTypes);
       
       if (validation.valid) {
-        newFiles.push({
-          id: generateFileId(),
-          name: file.name,
-          originalFile: file,
-          status: 'pending',
-        });
+        try {
+          const { file: readable, isLocked } = detectEncryption && isPDFFile(file)
+            ? await unlockAddedPDF(file)
+            : { file, isLocked: false };
+          newFiles.push({
+            id: generateFileId(),
+            name: file.name,
+            originalFile: readable,
+            status: 'pending',
+            isLocked,
+          });
+        } catch (err) {
+          setError(`Could not open ${file.name}: ${err instanceof Error ? err.message : 'unknown error'}`);
+        }
       } else {
         setError(validation.error || 'Invalid file');
       }
     }
     
     if (newFiles.length > 0) {
-      onFilesChange([...files, ...newFiles]);
+      // Checking for passwords takes a moment, so add to whatever the list holds by then
+      onFilesChange((prev) => [...prev, ...newFiles].slice(0, maxFiles));
     }
-  }, [files, onFilesChange, maxFiles, acceptedTypes]);
+  }, [files, onFilesChange, maxFiles, acceptedTypes, detectEncryption]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -124,13 +146,20 @@ export const UniversalFileDropzone = ({
   }, [handleFiles]);
 
   const removeFile = useCallback((id: string) => {
-    onFilesChange(files.filter(f => f.id !== id));
-  }, [files, onFilesChange]);
+    onFilesChange((prev) => prev.filter(f => f.id !== id));
+  }, [onFilesChange]);
+
+  const replaceFile = useCallback((updated: ProcessedPDF) => {
+    onFilesChange((prev) => prev.map(f => (f.id === updated.id ? updated : f)));
+  }, [onFilesChange]);
 
   const getFileIcon = (file: ProcessedPDF) => {
     if (isImageFile(file.originalFile)) {
       return <Image className="w-5 h-5 text-primary" />;
     }
+    if (/\.xlsx$/i.test(file.name)) {
+      return <FileSpreadsheet className="w-5 h-5 text-primary" />;
+    }
     return <FileText className="w-5 h-5 text-primary" />;
   };
 
@@ -220,16 +249,21 @@ export const UniversalFileDropzone = ({
                 )}
               >
                 <div className="p-2 rounded-lg bg-primary/10">
-                  {getFileIcon(file)}
+                  {file.isLocked ? <Lock className="w-5 h-5 text-warning" /> : getFileIcon(file)}
                 </div>
                 
-                <div className="flex-1 min-w-0">
-                  <p className="font-medium text-foreground truncate">{file.name}</p>
-                  <p className="text-xs text-muted-foreground">
-                    {formatFileSize(file.originalFile.size)}
-                    {isImageFile(file.originalFile) && ' • Image'}
-                    {isPDFFile(file.originalFile) && ' • PDF'}
-                  </p>
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div>
+                    <p className="font-medium text-foreground truncate">{file.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(file.originalFile.size)}
+                      {isImageFile(file.originalFile) && ' • Image'}
+                      {isPDFFile(file.originalFile) && ' • PDF'}
+                      {isOfficeFile(file.originalFile) && ' • Office document'}
+                      {file.isLocked && ' • Password protected'}
+                    </p>
+                  </div>
+                  {file.isLocked && <FilePasswordPrompt file={file} onUnlock={replaceFile} />}
                 </div>
 
                 {file.status === 'processing' && (
@@ -0,0 +1,57 @@
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type AnyCanvasContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Create a 2D canvas that works both on the page and inside a Web Worker,
+ * where there is no document and only OffscreenCanvas is available.
+ */
+export const createCanvas = (width: number, height: number): { canvas: AnyCanvas; context: AnyCanvasContext } => {
+  const canvas: AnyCanvas =
+    typeof document === 'undefined'
+      ? new OffscreenCanvas(Math.ceil(width), Math.ceil(height))
+      : document.createElement('canvas');
+
+  canvas.width = Math.ceil(width);
+  canvas.height = Math.ceil(height);
+
+  const context = canvas.getContext('2d') as AnyCanvasContext | null;
+  if (!context) throw new Error('Could not create canvas context');
+
+  return { canvas, context };
+};
+
+export const canvasToBlob = (canvas: AnyCanvas, type: string, quality?: number): Promise<Blob> => {
+  if (!('toBlob' in canvas)) {
+    return canvas.convertToBlob({ type, quality });
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (b) => (b ? resolve(b) : reject(new Error('Failed to create image'))),
+      type,
+      quality
+    );
+  });
+};
+
+/**
+ * Canvas factory handed to pdf.js so it can allocate scratch canvases
+ * (patterns, soft masks) without touching the DOM.
+ */
+export const canvasFactory = {
+  create: (width: number, height: number) => {
+    if (width <= 0 || height <= 0) throw new Error('Invalid canvas size');
+    return createCanvas(width, height);
+  },
+  reset: (canvasAndContext: { canvas: AnyCanvas }, width: number, height: number) => {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  },
+  destroy: (canvasAndContext: { canvas: AnyCanvas; context: AnyCanvasContext | null }) => {
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+    canvasAndContext.context = null;
+  },
+};
+
+export const isWorkerContext = (): boolean => typeof document === 'undefined' && typeof self !== 'undefined';
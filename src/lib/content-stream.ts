@@ -0,0 +1,275 @@
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFFlateStream,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+} from 'pdf-lib';
+
+/**
+ * A minimal tokenizer for PDF page content streams. It keeps the raw source of
+ * every operand so a stream can be rewritten without disturbing what we don't touch.
+ */
+
+export interface ContentOperand {
+  type: 'number' | 'name' | 'string' | 'array' | 'dict' | 'keyword';
+  raw: string;
+  value?: number | string; // numbers, and names without the leading slash
+}
+
+export interface ContentOperation {
+  operator: string;
+  operands: ContentOperand[];
+  raw?: string; // inline images (BI ... ID ... EI) are kept verbatim
+}
+
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Concatenate m with the current transformation: the result maps through m first
+export const multiplyMatrix = (m: Matrix, ctm: Matrix): Matrix => [
+  m[0] * ctm[0] + m[1] * ctm[2],
+  m[0] * ctm[1] + m[1] * ctm[3],
+  m[2] * ctm[0] + m[3] * ctm[2],
+  m[2] * ctm[1] + m[3] * ctm[3],
+  m[4] * ctm[0] + m[5] * ctm[2] + ctm[4],
+  m[4] * ctm[1] + m[5] * ctm[3] + ctm[5],
+];
+
+const isWhitespace = (ch: string) => ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t' || ch === '\f' || ch === '\0';
+const isDelimiter = (ch: string) => '()<>[]{}/%'.includes(ch);
+const isRegular = (ch: string) => ch !== '' && !isWhitespace(ch) && !isDelimiter(ch);
+
+// Bytes are mapped 1:1 onto chars so binary data survives a round trip
+const bytesToLatin1 = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+};
+
+const latin1ToBytes = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+export const parseContentStream = (bytes: Uint8Array): ContentOperation[] => {
+  const source = bytesToLatin1(bytes);
+  const operations: ContentOperation[] = [];
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < source.length) {
+      const ch = source[pos];
+      if (isWhitespace(ch)) {
+        pos++;
+      } else if (ch === '%') {
+        while (pos < source.length && source[pos] !== '\n' && source[pos] !== '\r') pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readRegular = () => {
+    const start = pos;
+    while (pos < source.length && isRegular(source[pos])) pos++;
+    return source.slice(start, pos);
+  };
+
+  const skipLiteralString = () => {
+    let depth = 0;
+    while (pos < source.length) {
+      const ch = source[pos++];
+      if (ch === '\\') pos++;
+      else if (ch === '(') depth++;
+      else if (ch === ')' && --depth === 0) return;
+    }
+  };
+
+  // Read one operand or operator; null at end of input
+  const readToken = (): { operand?: ContentOperand; operator?: string } | null => {
+    skipWhitespace();
+    if (pos >= source.length) return null;
+
+    const start = pos;
+    const ch = source[pos];
+
+    if (ch === '(') {
+      skipLiteralString();
+      return { operand: { type: 'string', raw: source.slice(start, pos) } };
+    }
+
+    if (ch === '<' && source[pos + 1] === '<') {
+      pos += 2;
+      for (;;) {
+        skipWhitespace();
+        if (pos >= source.length) break;
+        if (source[pos] === '>' && source[pos + 1] === '>') {
+          pos += 2;
+          break;
+        }
+        if (!readToken()) break;
+      }
+      return { operand: { type: 'dict', raw: source.slice(start, pos) } };
+    }
+
+    if (ch === '<') {
+      const end = source.indexOf('>', pos);
+      pos = end === -1 ? source.length : end + 1;
+      return { operand: { type: 'string', raw: source.slice(start, pos) } };
+    }
+
+    if (ch === '[') {
+      pos++;
+      for (;;) {
+        skipWhitespace();
+        if (pos >= source.length) break;
+        if (source[pos] === ']') {
+          pos++;
+          break;
+        }
+        if (!readToken()) break;
+      }
+      return { operand: { type: 'array', raw: source.slice(start, pos) } };
+    }
+
+    if (ch === '/') {
+      pos++;
+      const name = readRegular();
+      return {
+        operand: {
+          type: 'name',
+          raw: source.slice(start, pos),
+          value: name.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+        },
+      };
+    }
+
+    if (!isRegular(ch)) {
+      // Stray closing delimiter in a damaged stream
+      pos++;
+      return { operator: '' };
+    }
+
+    const word = readRegular();
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return { operand: { type: 'number', raw: word, value: parseFloat(word) } };
+    }
+    if (word === 'true' || word === 'false' || word === 'null') {
+      return { operand: { type: 'keyword', raw: word } };
+    }
+    return { operator: word };
+  };
+
+  // Binary image data runs until an EI that stands on its own
+  const skipInlineImageData = () => {
+    pos++; // the single whitespace byte after ID
+    for (;;) {
+      const end = source.indexOf('EI', pos);
+      if (end === -1) {
+        pos = source.length;
+        return;
+      }
+      const before = source[end - 1];
+      const after = source[end + 2];
+      pos = end + 2;
+      if (isWhitespace(before) && (after === undefined || isWhitespace(after))) return;
+    }
+  };
+
+  let operands: ContentOperand[] = [];
+  let inlineImageStart = -1;
+
+  for (;;) {
+    const tokenStart = pos;
+    const token = readToken();
+    if (!token) break;
+
+    if (token.operand) {
+      operands.push(token.operand);
+      continue;
+    }
+
+    const operator = token.operator;
+    if (!operator) continue;
+
+    if (operator === 'BI') {
+      skipWhitespace();
+      inlineImageStart = tokenStart;
+    } else if (operator === 'ID' && inlineImageStart !== -1) {
+      skipInlineImageData();
+      operations.push({ operator: 'BI', operands: [], raw: source.slice(inlineImageStart, pos).trimStart() });
+      inlineImageStart = -1;
+    } else if (inlineImageStart === -1) {
+      operations.push({ operator, operands });
+    }
+    operands = [];
+  }
+
+  return operations;
+};
+
+export const serializeContentStream = (operations: ContentOperation[]): Uint8Array => {
+  const text = operations
+    .map((op) => op.raw ?? [...op.operands.map((operand) => operand.raw), op.operator].join(' '))
+    .join('\n');
+  return latin1ToBytes(text);
+};
+
+export const formatNumber = (value: number): string => {
+  const rounded = Math.round(value * 10000) / 10000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+/** Decoded bytes of a stream, or undefined when it uses a filter pdf-lib can't decode. */
+export const getDecodedStreamBytes = (stream: PDFStream): Uint8Array | undefined => {
+  try {
+    if (stream instanceof PDFRawStream) return decodePDFRawStream(stream).decode();
+    // Streams pdf-lib builds itself (e.g. drawn page content) are compressed on request
+    if (stream instanceof PDFFlateStream) return stream.getUnencodedContents();
+    return stream.getContents();
+  } catch {
+    return undefined;
+  }
+};
+
+/** A page's content may be one stream or an array of them, to be read as a single sequence. */
+export const getContentStreams = (context: PDFContext, contents: PDFStream | PDFArray | undefined): PDFStream[] => {
+  if (!contents) return [];
+  if (contents instanceof PDFStream) return [contents];
+
+  const streams: PDFStream[] = [];
+  for (let i = 0; i < contents.size(); i++) {
+    const stream = context.lookup(contents.get(i));
+    if (stream instanceof PDFStream) streams.push(stream);
+  }
+  return streams;
+};
+
+export const readMatrix = (context: PDFContext, dict: PDFDict): Matrix => {
+  const array = context.lookup(dict.get(PDFName.of('Matrix')));
+  if (!(array instanceof PDFArray) || array.size() !== 6) return IDENTITY_MATRIX;
+
+  return Array.from({ length: 6 }, (_, i) => {
+    const value = context.lookup(array.get(i));
+    return value instanceof PDFNumber ? value.asNumber() : IDENTITY_MATRIX[i];
+  }) as Matrix;
+};
+
+export const getXObjectRef = (context: PDFContext, resources: PDFDict | undefined, name: string): PDFRef | undefined => {
+  const xObjects = resources && context.lookup(resources.get(PDFName.of('XObject')));
+  if (!(xObjects instanceof PDFDict)) return undefined;
+
+  const ref = xObjects.get(PDFName.of(name));
+  return ref instanceof PDFRef ? ref : undefined;
+};
@@ -0,0 +1,819 @@
+import type { jsPDF, TextOptionsLight } from 'jspdf';
+import { DocumentFonts, FontStyle, encodePDFText, selectFont } from './fonts';
+
+/**
+ * A small page layout engine on top of jsPDF. A document is a flat list of blocks
+ * (paragraphs, images, tables, rules); the engine wraps text, paginates, repeats
+ * table header rows and remembers where anchors landed so links and the outline
+ * can point at them. Text is drawn with whichever registered font has its glyphs,
+ * ideographic text breaks between characters, and paragraphs that start in a
+ * right-to-left script are laid out from the right.
+ */
+
+export type RGB = [number, number, number];
+
+export type TextLink = { type: 'url'; url: string } | { type: 'anchor'; anchor: string };
+
+export interface TextStyle {
+  fontSize: number; // points
+  bold: boolean;
+  italic: boolean;
+  monospace: boolean;
+  underline: boolean;
+  color: RGB;
+  link?: TextLink;
+}
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontSize: 11,
+  bold: false,
+  italic: false,
+  monospace: false,
+  underline: false,
+  color: [0, 0, 0],
+};
+
+export interface TextRun {
+  text: string; // whitespace already collapsed unless the paragraph is preformatted; '\n' forces a line break
+  style: TextStyle;
+}
+
+export type TextAlign = 'left' | 'center' | 'right' | 'justify';
+
+interface BlockBase {
+  anchors?: string[]; // anchor keys that should resolve to the top of this block
+  spaceBefore?: number;
+  spaceAfter?: number;
+  indent?: number; // from the left margin
+}
+
+export interface ParagraphBlock extends BlockBase {
+  type: 'paragraph';
+  runs: TextRun[];
+  align?: TextAlign;
+  lineHeight?: number; // multiple of the font size
+  firstLineIndent?: number;
+  marker?: TextRun; // list bullet or number, drawn in the indent before the first line
+  preformatted?: boolean; // keep spaces; only break lines at '\n' or when a line is too long
+  keepWithNext?: boolean; // don't leave it alone at the bottom of a page, for headings
+  background?: RGB;
+  quote?: boolean; // draw a bar in the left indent
+}
+
+export interface ImageBlock extends BlockBase {
+  type: 'image';
+  data: Uint8Array;
+  format: 'JPEG' | 'PNG';
+  width: number; // points, shrunk to fit the page if needed
+  height: number;
+  align?: Exclude<TextAlign, 'justify'>;
+  alias?: string; // the same alias embeds the image data only once
+}
+
+export interface RuleBlock extends BlockBase {
+  type: 'rule';
+}
+
+export interface PageBreakBlock {
+  type: 'page-break';
+}
+
+export interface TableCell {
+  blocks: ParagraphBlock[];
+  header?: boolean;
+}
+
+export interface TableBlock extends BlockBase {
+  type: 'table';
+  rows: TableCell[][];
+  headerRows: number; // leading rows repeated at the top of every page the table continues on
+}
+
+export type LayoutBlock = ParagraphBlock | ImageBlock | RuleBlock | PageBreakBlock | TableBlock;
+
+export interface PageDecoration {
+  header?: ParagraphBlock; // centered in the top margin
+  footer?: ParagraphBlock; // centered in the bottom margin
+}
+
+export interface LayoutOptions {
+  margins: { top: number; right: number; bottom: number; left: number };
+  // Running headers and footers, asked for once the page count is known
+  decoratePage?: (page: number, pageCount: number) => PageDecoration;
+}
+
+export interface AnchorPosition {
+  page: number;
+  top: number; // points from the top of the page
+}
+
+export interface LayoutResult {
+  anchors: Map<string, AnchorPosition>;
+  pageCount: number;
+}
+
+export interface OutlineEntry {
+  title: string;
+  anchor: string;
+  children?: OutlineEntry[];
+}
+
+const DEFAULT_LINE_HEIGHT = 1.4;
+const CELL_PADDING = 4;
+const TAB_SIZE = 8; // columns between tab stops in preformatted text
+const BORDER_COLOR: RGB = [190, 190, 190];
+const HEADER_BACKGROUND: RGB = [240, 240, 240];
+
+interface Fragment {
+  text: string;
+  font: string;
+  style: TextStyle;
+  width: number;
+  space: number; // width of the collapsible space after it; 0 when the next fragment continues the word
+  breakAfter: boolean; // a line may end after this fragment
+}
+
+const LINE_BREAK = 'break' as const;
+type LineItem = Fragment | typeof LINE_BREAK;
+
+interface Line {
+  fragments: Fragment[];
+  width: number; // without the trailing space
+  height: number;
+  fontSize: number; // largest on the line, to place the baseline
+  justify: boolean; // false for the last line of a paragraph and lines ended by '\n'
+  rtl: boolean; // words run from the right
+}
+
+// CJK text has no spaces, so lines may break between any two of these characters
+const BREAK_ANYWHERE = /[\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+// ...except before closing punctuation or after opening punctuation
+const NO_BREAK_BEFORE = /[、。，．：；！？）」』】〕〉》〗〙ー々…‥・,.:;!?)\]}]/;
+const NO_BREAK_AFTER = /[（「『【〔〈《〖〘([{]/;
+
+const RTL_TEXT = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc]/;
+// jsPDF shapes Arabic itself but needs telling that the text is in logical order
+const RTL_TEXT_OPTIONS: TextOptionsLight = {
+  isInputVisual: false,
+  isOutputVisual: true,
+  isInputRtl: true,
+  isOutputRtl: false,
+  isSymmetricSwapping: true,
+};
+
+const getFontStyle = (style: TextStyle): FontStyle => {
+  if (style.bold && style.italic) return 'bolditalic';
+  if (style.bold) return 'bold';
+  return style.italic ? 'italic' : 'normal';
+};
+
+const splitAtBreaks = (word: string): string[] => {
+  const parts: string[] = [];
+  let previous = '';
+  for (const char of word) {
+    const breakable =
+      previous &&
+      (BREAK_ANYWHERE.test(previous) || BREAK_ANYWHERE.test(char)) &&
+      !NO_BREAK_BEFORE.test(char) &&
+      !NO_BREAK_AFTER.test(previous);
+    if (breakable || !parts.length) parts.push(char);
+    else parts[parts.length - 1] += char;
+    previous = char;
+  }
+  return parts;
+};
+
+// Tab stops every 8 columns, counted from the start of the line (which may be in an earlier run)
+const expandTabs = (text: string, startColumn: number): string => {
+  let column = startColumn;
+  let expanded = '';
+  for (const char of text) {
+    const part = char === '\t' ? ' '.repeat(TAB_SIZE - (column % TAB_SIZE)) : char;
+    expanded += part;
+    column += part.length;
+  }
+  return expanded;
+};
+
+// The first letter decides, as for dir="auto"
+const isRightToLeft = (runs: TextRun[]) => {
+  for (const { text } of runs) {
+    const letter = text.match(/\p{L}/u);
+    if (letter) return RTL_TEXT.test(letter[0]);
+  }
+  return false;
+};
+
+const sameStyle = (a: TextStyle, b: TextStyle) =>
+  a.fontSize === b.fontSize &&
+  a.bold === b.bold &&
+  a.italic === b.italic &&
+  a.monospace === b.monospace &&
+  a.underline === b.underline &&
+  a.link === b.link &&
+  a.color.every((value, i) => value === b.color[i]);
+
+export const layoutDocument = (
+  doc: jsPDF,
+  blocks: LayoutBlock[],
+  fonts: DocumentFonts,
+  { margins, decoratePage }: LayoutOptions
+): LayoutResult => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - margins.left - margins.right;
+  const top = margins.top;
+  const bottom = pageHeight - margins.bottom;
+
+  const anchors = new Map<string, AnchorPosition>();
+  const pendingLinks: { page: number; x: number; y: number; width: number; height: number; anchor: string }[] = [];
+
+  let page = 1;
+  let y = top;
+  let pendingSpace = 0;
+
+  // jsPDF font switches are cheap but not free, and measuring switches constantly
+  let currentFont = '';
+  const applyFont = (font: string, style: TextStyle) => {
+    const key = `${font}|${getFontStyle(style)}|${style.fontSize}`;
+    if (key === currentFont) return;
+    currentFont = key;
+    selectFont(doc, font, getFontStyle(style));
+    doc.setFontSize(style.fontSize);
+  };
+
+  const measure = (text: string, font: string, style: TextStyle) => {
+    applyFont(font, style);
+    return doc.getTextWidth(text);
+  };
+
+  // Spaces always come from the main font, which has them
+  const mainFont = (style: TextStyle) => (style.monospace ? fonts.mono : fonts.sans);
+
+  const newPage = () => {
+    doc.addPage();
+    page++;
+    y = top;
+    pendingSpace = 0;
+  };
+
+  // Start a new page unless the content fits or we're already at the top
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom && y > top) newPage();
+  };
+
+  const applySpace = (spaceBefore = 0) => {
+    if (y > top) y += Math.max(pendingSpace, spaceBefore);
+    pendingSpace = 0;
+  };
+
+  const recordAnchors = (keys: string[] | undefined) => {
+    for (const key of keys || []) {
+      if (!anchors.has(key)) anchors.set(key, { page, top: y });
+    }
+  };
+
+  const toLineItems = (runs: TextRun[], preformatted: boolean): LineItem[] => {
+    const items: LineItem[] = [];
+
+    // A space after the last fragment lets the line break there; leading spaces are dropped
+    const markSpace = () => {
+      const last = items[items.length - 1];
+      if (last && last !== LINE_BREAK && !last.space) {
+        last.breakAfter = true;
+        last.space = measure(' ', mainFont(last.style), last.style);
+      }
+    };
+
+    // One fragment per font; only the last may end a line
+    const addText = (text: string, style: TextStyle, breakAfter: boolean) => {
+      const fontRuns = fonts.splitText(text, style.monospace);
+      fontRuns.forEach(({ text, font }, i) => {
+        const width = measure(text, font, style);
+        items.push({ text, font, style, width, space: 0, breakAfter: breakAfter && i === fontRuns.length - 1 });
+      });
+    };
+
+    let column = 0;
+
+    for (const { text, style } of runs) {
+      text.split('\n').forEach((lineText, lineIndex) => {
+        if (lineIndex > 0) {
+          items.push(LINE_BREAK);
+          column = 0;
+        }
+
+        if (preformatted) {
+          const expanded = expandTabs(lineText, column);
+          column += [...expanded].length;
+          for (const token of expanded.match(/\S+\s*|\s+/g) || []) {
+            addText(token, style, /\s$/.test(token));
+          }
+          return;
+        }
+
+        lineText.split(' ').forEach((word, wordIndex) => {
+          if (wordIndex > 0) markSpace();
+          splitAtBreaks(word).forEach((part, i, parts) => addText(part, style, i < parts.length - 1));
+        });
+      });
+    }
+
+    return items;
+  };
+
+  const makeLine = (
+    fragments: Fragment[],
+    justify: boolean,
+    fallbackSize: number,
+    lineHeight: number,
+    rtl: boolean
+  ): Line => {
+    const fontSize = fragments.reduce((size, fragment) => Math.max(size, fragment.style.fontSize), 0) || fallbackSize;
+    const width = fragments.reduce(
+      (total, fragment, i) => total + fragment.width + (i < fragments.length - 1 ? fragment.space : 0),
+      0
+    );
+    return { fragments, width, height: fontSize * lineHeight, fontSize, justify, rtl };
+  };
+
+  const breakLines = (block: ParagraphBlock, maxWidth: number): Line[] => {
+    const lineHeight = block.lineHeight || DEFAULT_LINE_HEIGHT;
+    const fallbackSize = block.runs[0]?.style.fontSize || DEFAULT_TEXT_STYLE.fontSize;
+    const items = toLineItems(block.runs, !!block.preformatted);
+    const rtl = isRightToLeft(block.runs);
+    const lines: Line[] = [];
+
+    let current: Fragment[] = [];
+    let currentWidth = 0;
+    let word: Fragment[] = [];
+    let wordWidth = 0;
+
+    const available = () => maxWidth - (lines.length === 0 ? block.firstLineIndent || 0 : 0);
+
+    const finishLine = (justify: boolean) => {
+      lines.push(makeLine(current, justify, fallbackSize, lineHeight, rtl));
+      current = [];
+      currentWidth = 0;
+    };
+
+    // A word too long for any line is broken between characters
+    const splitWord = () => {
+      for (const fragment of word) {
+        for (const char of Array.from(fragment.text)) {
+          const width = measure(char, fragment.font, fragment.style);
+          if (current.length && currentWidth + width > available()) finishLine(false);
+
+          const last = current[current.length - 1];
+          if (last && last.style === fragment.style && last.font === fragment.font && last.space === 0) {
+            last.text += char;
+            last.width += width;
+          } else {
+            current.push({ ...fragment, text: char, width, space: 0, breakAfter: false });
+          }
+          currentWidth += width;
+        }
+      }
+      const last = current[current.length - 1];
+      const source = word[word.length - 1];
+      last.space = source.space;
+      last.breakAfter = source.breakAfter;
+      currentWidth += source.space;
+    };
+
+    const placeWord = () => {
+      if (!word.length) return;
+      if (current.length && currentWidth + wordWidth > available()) finishLine(true);
+
+      if (wordWidth > available()) {
+        splitWord();
+      } else {
+        current.push(...word);
+        currentWidth += wordWidth + word[word.length - 1].space;
+      }
+      word = [];
+      wordWidth = 0;
+    };
+
+    for (const item of items) {
+      if (item === LINE_BREAK) {
+        placeWord();
+        finishLine(false);
+        continue;
+      }
+      word.push(item);
+      wordWidth += item.width;
+      if (item.breakAfter) placeWord();
+    }
+    placeWord();
+    if (current.length) finishLine(false);
+
+    return lines;
+  };
+
+  const drawLine = (line: Line, x: number, lineTop: number, maxWidth: number, align: TextAlign = 'left') => {
+    // Right-to-left lines are drawn in visual order, so each gap belongs to the fragment after it
+    const fragments = line.rtl ? [...line.fragments].reverse() : line.fragments;
+    const gapAfter = (i: number) => (line.rtl ? fragments[i + 1]?.space || 0 : fragments[i].space);
+    const baseline = lineTop + line.height / 2 + line.fontSize * 0.3;
+    const slack = Math.max(0, maxWidth - line.width);
+
+    let cursor = x;
+    let extraSpace = 0;
+    if (align === 'center') cursor += slack / 2;
+    else if (align === 'right' || (align === 'left' && line.rtl)) cursor += slack;
+    else if (align === 'justify' && line.justify) {
+      const gaps = fragments.slice(0, -1).filter((_, i) => gapAfter(i) > 0).length;
+      extraSpace = gaps ? slack / gaps : 0;
+    }
+
+    for (let i = 0; i < fragments.length; i++) {
+      const { style, font } = fragments[i];
+      let text = fragments[i].text;
+      let width = fragments[i].width;
+
+      // Draw runs of the same style in one go unless spaces are being stretched or words reordered
+      while (
+        !extraSpace &&
+        !line.rtl &&
+        i + 1 < fragments.length &&
+        fragments[i + 1].font === font &&
+        sameStyle(fragments[i + 1].style, style) &&
+        (!fragments[i].space || font === mainFont(style))
+      ) {
+        if (fragments[i].space) text += ' ';
+        text += fragments[i + 1].text;
+        width += fragments[i].space + fragments[i + 1].width;
+        i++;
+      }
+
+      applyFont(font, style);
+      doc.setTextColor(...style.color);
+      doc.text(text, cursor, baseline, RTL_TEXT.test(text) ? RTL_TEXT_OPTIONS : undefined);
+
+      if (style.underline) {
+        doc.setDrawColor(...style.color);
+        doc.setLineWidth(style.fontSize / 18);
+        doc.line(cursor, baseline + style.fontSize * 0.15, cursor + width, baseline + style.fontSize * 0.15);
+      }
+
+      const linkTop = baseline - style.fontSize * 0.8;
+      if (style.link?.type === 'url') {
+        doc.link(cursor, linkTop, width, style.fontSize, { url: style.link.url });
+      } else if (style.link?.type === 'anchor') {
+        pendingLinks.push({ page, x: cursor, y: linkTop, width, height: style.fontSize, anchor: style.link.anchor });
+      }
+
+      const gap = gapAfter(i);
+      cursor += width + gap;
+      if (gap && i < fragments.length - 1) cursor += extraSpace;
+    }
+  };
+
+  const drawMarker = (marker: TextRun, x: number, lineTop: number, line: Line) => {
+    const fontRuns = fonts.splitText(marker.text, marker.style.monospace);
+    const widths = fontRuns.map(({ text, font }) => measure(text, font, marker.style));
+    let cursor = x - widths.reduce((total, width) => total + width, 0) - marker.style.fontSize * 0.5;
+
+    doc.setTextColor(...marker.style.color);
+    fontRuns.forEach(({ text, font }, i) => {
+      applyFont(font, marker.style);
+      doc.text(text, cursor, lineTop + line.height / 2 + line.fontSize * 0.3);
+      cursor += widths[i];
+    });
+  };
+
+  const renderParagraph = (block: ParagraphBlock) => {
+    const indent = block.indent || 0;
+    const x = margins.left + indent;
+    const width = contentWidth - indent;
+    const lines = breakLines(block, width);
+    const firstLineIndent = block.firstLineIndent || 0;
+
+    applySpace(block.spaceBefore);
+    if (lines.length) {
+      // Keep at least two lines together, and a heading with the start of what follows
+      const leading = lines.slice(0, 2).reduce((total, line) => total + line.height, 0);
+      ensureSpace(block.keepWithNext ? leading + DEFAULT_TEXT_STYLE.fontSize * DEFAULT_LINE_HEIGHT * 2 : leading);
+    }
+    recordAnchors(block.anchors);
+
+    lines.forEach((line, i) => {
+      ensureSpace(line.height);
+
+      if (block.background) {
+        doc.setFillColor(...block.background);
+        doc.rect(x - CELL_PADDING, y, width + CELL_PADDING * 2, line.height, 'F');
+      }
+      if (block.quote) {
+        doc.setDrawColor(...BORDER_COLOR);
+        doc.setLineWidth(2);
+        doc.line(x - 10, y, x - 10, y + line.height);
+      }
+      if (i === 0 && block.marker) drawMarker(block.marker, x, y, line);
+
+      const lineIndent = i === 0 ? firstLineIndent : 0;
+      drawLine(line, x + lineIndent, y, width - lineIndent, block.align);
+      y += line.height;
+    });
+
+    pendingSpace = block.spaceAfter || 0;
+  };
+
+  const renderImage = (block: ImageBlock) => {
+    const indent = block.indent || 0;
+    const available = contentWidth - indent;
+    const scale = Math.min(1, available / block.width, (bottom - top) / block.height);
+    const width = block.width * scale;
+    const height = block.height * scale;
+
+    applySpace(block.spaceBefore);
+    ensureSpace(height);
+    recordAnchors(block.anchors);
+
+    const align = block.align || 'center';
+    const offset = align === 'center' ? (available - width) / 2 : align === 'right' ? available - width : 0;
+    doc.addImage(block.data, block.format, margins.left + indent + offset, y, width, height, block.alias, 'FAST');
+
+    y += height;
+    pendingSpace = block.spaceAfter || 0;
+  };
+
+  const renderRule = (block: RuleBlock) => {
+    applySpace(block.spaceBefore ?? 6);
+    ensureSpace(1);
+    recordAnchors(block.anchors);
+    doc.setDrawColor(...BORDER_COLOR);
+    doc.setLineWidth(0.75);
+    doc.line(margins.left + (block.indent || 0), y, pageWidth - margins.right, y);
+    y += 1;
+    pendingSpace = block.spaceAfter ?? 6;
+  };
+
+  interface CellLine {
+    line: Line;
+    offset: number; // paragraph indent within the cell
+    align?: TextAlign;
+    gap: number; // space above it, between paragraphs
+  }
+
+  const layoutCell = (cell: TableCell, width: number): CellLine[] => {
+    const result: CellLine[] = [];
+    cell.blocks.forEach((block, blockIndex) => {
+      const indent = block.indent || 0;
+      breakLines(block, width - indent).forEach((line, lineIndex) => {
+        const gap = blockIndex > 0 && lineIndex === 0 ? block.spaceBefore || 0 : 0;
+        result.push({ line, offset: indent + (lineIndex === 0 ? block.firstLineIndent || 0 : 0), align: block.align, gap });
+      });
+    });
+    return result;
+  };
+
+  // The widest unbreakable word and the width of the text on one line
+  const measureCell = (cell: TableCell) => {
+    let min = 0;
+    let max = 0;
+    for (const block of cell.blocks) {
+      let word = 0;
+      let line = 0;
+      for (const item of toLineItems(block.runs, !!block.preformatted)) {
+        if (item === LINE_BREAK) {
+          max = Math.max(max, line);
+          line = 0;
+          continue;
+        }
+        word += item.width;
+        line += item.width + item.space;
+        if (item.breakAfter) {
+          min = Math.max(min, word);
+          word = 0;
+        }
+      }
+      min = Math.max(min, word);
+      max = Math.max(max, line);
+    }
+    return { min: min + CELL_PADDING * 2, max: max + CELL_PADDING * 2 };
+  };
+
+  const getColumnWidths = (block: TableBlock, available: number): number[] => {
+    const columns = block.rows.reduce((most, row) => Math.max(most, row.length), 0);
+    const min = new Array(columns).fill(CELL_PADDING * 2);
+    const max = new Array(columns).fill(CELL_PADDING * 2);
+
+    for (const row of block.rows) {
+      row.forEach((cell, column) => {
+        const size = measureCell(cell);
+        min[column] = Math.max(min[column], size.min);
+        max[column] = Math.max(max[column], size.max);
+      });
+    }
+
+    const sumMin = min.reduce((a, b) => a + b, 0);
+    const sumMax = max.reduce((a, b) => a + b, 0);
+    if (sumMax <= available) return max;
+    if (sumMin >= available) return min.map((width) => (width / sumMin) * available);
+
+    // Columns narrower than an even share keep their natural width
+    const widths = [...min];
+    let flexible = widths.map((_, i) => i);
+    let remaining = available;
+    for (;;) {
+      const share = remaining / flexible.length;
+      const narrow = flexible.filter((i) => max[i] <= share);
+      if (!narrow.length) break;
+      for (const i of narrow) {
+        widths[i] = max[i];
+        remaining -= max[i];
+      }
+      flexible = flexible.filter((i) => max[i] > share);
+    }
+
+    // The rest get their longest word, then share what's left by how much text they hold
+    const flexMin = flexible.reduce((total, i) => total + min[i], 0);
+    const flexMax = flexible.reduce((total, i) => total + max[i], 0);
+    for (const i of flexible) {
+      widths[i] = remaining <= flexMin
+        ? (min[i] / flexMin) * remaining
+        : min[i] + ((max[i] - min[i]) / (flexMax - flexMin)) * (remaining - flexMin);
+    }
+    return widths;
+  };
+
+  const renderTable = (block: TableBlock) => {
+    const indent = block.indent || 0;
+    const widths = getColumnWidths(block, contentWidth - indent);
+    const left = margins.left + indent;
+
+    const drawRowSlice = (row: TableCell[], cells: CellLine[][], from: number[], available: number): number[] => {
+      // Take as many lines from each cell as fit, always at least one so huge lines still progress
+      const until = cells.map((lines, column) => {
+        let used = 0;
+        let end = from[column];
+        while (end < lines.length) {
+          const height = lines[end].gap + lines[end].line.height;
+          if (used + height > available && end > from[column]) break;
+          used += height;
+          end++;
+        }
+        return end;
+      });
+      const heights = cells.map((lines, column) =>
+        lines.slice(from[column], until[column]).reduce((total, entry) => total + entry.gap + entry.line.height, 0)
+      );
+      const rowHeight = Math.max(...heights) + CELL_PADDING * 2;
+
+      let x = left;
+      widths.forEach((width, column) => {
+        const cell = row[column];
+        if (cell?.header) {
+          doc.setFillColor(...HEADER_BACKGROUND);
+          doc.rect(x, y, width, rowHeight, 'F');
+        }
+        doc.setDrawColor(...BORDER_COLOR);
+        doc.setLineWidth(0.5);
+        doc.rect(x, y, width, rowHeight, 'S');
+
+        let lineTop = y + CELL_PADDING;
+        for (const entry of (cells[column] || []).slice(from[column], until[column])) {
+          lineTop += entry.gap;
+          drawLine(entry.line, x + CELL_PADDING + entry.offset, lineTop, width - CELL_PADDING * 2 - entry.offset, entry.align);
+          lineTop += entry.line.height;
+        }
+        x += width;
+      });
+
+      y += rowHeight;
+      return until;
+    };
+
+    const layoutRow = (row: TableCell[]) => widths.map((width, column) =>
+      row[column] ? layoutCell(row[column], width - CELL_PADDING * 2) : []
+    );
+
+    const rowHeight = (cells: CellLine[][]) =>
+      Math.max(...cells.map((lines) => lines.reduce((total, entry) => total + entry.gap + entry.line.height, 0))) +
+      CELL_PADDING * 2;
+
+    const headers = block.rows.slice(0, block.headerRows).map((row) => ({ row, cells: layoutRow(row) }));
+    const drawHeaders = () => {
+      for (const header of headers) drawRowSlice(header.row, header.cells, header.cells.map(() => 0), Infinity);
+    };
+
+    applySpace(block.spaceBefore);
+    const headerHeight = headers.reduce((total, header) => total + rowHeight(header.cells), 0);
+    ensureSpace(headerHeight + (block.rows[block.headerRows] ? rowHeight(layoutRow(block.rows[block.headerRows])) : 0));
+    recordAnchors(block.anchors);
+    drawHeaders();
+    let pageStart = y;
+
+    const continueOnNewPage = () => {
+      newPage();
+      drawHeaders();
+      pageStart = y;
+    };
+
+    for (const row of block.rows.slice(block.headerRows)) {
+      const cells = layoutRow(row);
+      const height = rowHeight(cells);
+
+      // Move whole rows to the next page when they fit there; split the rest
+      if (y + height > bottom && y > pageStart && height <= bottom - top - headerHeight) continueOnNewPage();
+
+      let from = cells.map(() => 0);
+      for (;;) {
+        const next = cells.map((lines, column) => lines[from[column]]).filter(Boolean);
+        const needed = Math.max(0, ...next.map((entry) => entry.gap + entry.line.height)) + CELL_PADDING * 2;
+        if (y + needed > bottom && y > pageStart) continueOnNewPage();
+
+        from = drawRowSlice(row, cells, from, bottom - y - CELL_PADDING * 2);
+        if (from.every((index, column) => index >= cells[column].length)) break;
+        continueOnNewPage();
+      }
+    }
+
+    pendingSpace = block.spaceAfter || 0;
+  };
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'paragraph':
+        renderParagraph(block);
+        break;
+      case 'image':
+        renderImage(block);
+        break;
+      case 'rule':
+        renderRule(block);
+        break;
+      case 'table':
+        if (block.rows.length) renderTable(block);
+        break;
+      case 'page-break':
+        if (y > top) newPage();
+        break;
+    }
+  }
+
+  const renderMarginBlock = (block: ParagraphBlock, areaTop: number, areaHeight: number) => {
+    const indent = block.indent || 0;
+    const lines = breakLines(block, contentWidth - indent);
+    const height = lines.reduce((total, line) => total + line.height, 0);
+    let lineTop = areaTop + Math.max(0, (areaHeight - height) / 2);
+    for (const line of lines) {
+      drawLine(line, margins.left + indent, lineTop, contentWidth - indent, block.align);
+      lineTop += line.height;
+    }
+  };
+
+  if (decoratePage) {
+    const pageCount = page;
+    for (page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      const { header, footer } = decoratePage(page, pageCount);
+      if (header) renderMarginBlock(header, 0, margins.top);
+      if (footer) renderMarginBlock(footer, bottom, margins.bottom);
+    }
+    page = pageCount;
+  }
+
+  // Internal links can point forward, so they're added once every anchor has a position
+  for (const link of pendingLinks) {
+    const target = anchors.get(link.anchor);
+    if (!target) continue;
+    doc.setPage(link.page);
+    doc.link(link.x, link.y, link.width, link.height, { pageNumber: target.page, top: target.top });
+  }
+  doc.setPage(page);
+
+  return { anchors, pageCount: page };
+};
+
+/** All the text in the blocks, for picking the fonts the document needs. */
+export const getBlocksText = (blocks: LayoutBlock[]): string => {
+  const parts: string[] = [];
+  const addParagraph = (block: ParagraphBlock) => {
+    if (block.marker) parts.push(block.marker.text);
+    for (const run of block.runs) parts.push(run.text);
+  };
+  for (const block of blocks) {
+    if (block.type === 'paragraph') addParagraph(block);
+    else if (block.type === 'table') block.rows.flat().forEach((cell) => cell.blocks.forEach(addParagraph));
+  }
+  return parts.join('\n');
+};
+
+/** Add bookmarks for entries whose anchors were laid out; children nest under their parent. */
+export const addOutline = (doc: jsPDF, entries: OutlineEntry[], anchors: Map<string, AnchorPosition>) => {
+  const addEntries = (items: OutlineEntry[], parent: unknown) => {
+    for (const item of items) {
+      const target = anchors.get(item.anchor);
+      if (!target) {
+        addEntries(item.children || [], parent);
+        continue;
+      }
+      const node = doc.outline.add(parent, encodePDFText(item.title), { pageNumber: target.page });
+      addEntries(item.children || [], node);
+    }
+  };
+  addEntries(entries, null);
+};
@@ -0,0 +1,305 @@
+import { jsPDF } from 'jspdf';
+import { marked } from 'marked';
+import {
+  DEFAULT_TEXT_STYLE,
+  LayoutBlock,
+  OutlineEntry,
+  ParagraphBlock,
+  RGB,
+  TableBlock,
+  TableCell,
+  addOutline,
+  getBlocksText,
+  layoutDocument,
+} from './document-layout';
+import { HTMLHeading, HTMLImage, htmlToBlocks } from './html-blocks';
+import { encodePDFText, registerDocumentFonts } from './fonts';
+import { prepareImageForPDF } from './image-decoders';
+import { PAGE_SIZES, PageSizePreset } from './pdf-utils';
+
+/**
+ * Paginated PDFs from text documents: HTML, Markdown, plain text and CSV.
+ * Sources are turned into layout blocks, laid out on the chosen page size with
+ * a running header and footer on every page, and their headings become
+ * bookmarks.
+ */
+
+export type DocumentPageSize = Exclude<PageSizePreset, 'image' | 'custom'>;
+
+export interface DocumentPageOptions {
+  pageSize: DocumentPageSize;
+  orientation: 'portrait' | 'landscape';
+  margin: number; // points, on every side; the header and footer sit inside it
+  header: string; // {page}, {pages}, {title} and {date} are filled in; empty for none
+  footer: string;
+}
+
+export const DEFAULT_DOCUMENT_PAGE: DocumentPageOptions = {
+  pageSize: 'a4',
+  orientation: 'portrait',
+  margin: 54,
+  header: '',
+  footer: 'Page {page} of {pages}',
+};
+
+export interface HTMLExportOptions extends DocumentPageOptions {
+  stylesheet?: string; // CSS that takes precedence over the document's own
+  resources?: File[]; // images the document refers to, matched by file name
+}
+
+const RUNNING_TEXT_STYLE = { ...DEFAULT_TEXT_STYLE, fontSize: 9, color: [110, 110, 110] as RGB };
+const OUTLINE_DEPTH = 3;
+
+const fillPlaceholders = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(page|pages|title|date)\}/g, (match, name: string) => values[name] ?? match);
+
+const runningBlock = (text: string): ParagraphBlock | undefined => {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed ? { type: 'paragraph', runs: [{ text: collapsed, style: RUNNING_TEXT_STYLE }], align: 'center' } : undefined;
+};
+
+/** Bookmarks for the headings, nested by level. */
+export const toOutline = (headings: HTMLHeading[]): OutlineEntry[] => {
+  const root: OutlineEntry[] = [];
+  const stack: { level: number; children: OutlineEntry[] }[] = [{ level: 0, children: root }];
+  for (const heading of headings.filter((heading) => heading.level <= OUTLINE_DEPTH)) {
+    while (stack[stack.length - 1].level >= heading.level) stack.pop();
+    const entry = { title: heading.title, anchor: heading.anchor, children: [] };
+    stack[stack.length - 1].children.push(entry);
+    stack.push({ level: heading.level, children: entry.children });
+  }
+  return root;
+};
+
+/** An empty document in the chosen page size and orientation. */
+export const createDocumentPDF = ({ pageSize, orientation }: DocumentPageOptions, title: string): jsPDF => {
+  const doc = new jsPDF({ orientation, unit: 'pt', format: PAGE_SIZES[pageSize], compress: true });
+  doc.setProperties({ title: encodePDFText(title) });
+  return doc;
+};
+
+/** Lay the blocks out with the running header and footer, bookmark the outline and return the file. */
+export const renderDocumentPDF = async (
+  doc: jsPDF,
+  blocks: LayoutBlock[],
+  outline: OutlineEntry[],
+  options: DocumentPageOptions,
+  title: string
+): Promise<Blob> => {
+  const date = new Date().toLocaleDateString();
+  const fill = (template: string, page: number, pages: number) =>
+    fillPlaceholders(template, { page: String(page), pages: String(pages), title, date });
+
+  // Page numbers are digits, which every font has
+  const runningText = [options.header, options.footer].map((template) => fill(template, 0, 0)).join('\n');
+  const fonts = await registerDocumentFonts(doc, `${getBlocksText(blocks)}\n${runningText}`);
+
+  const { margin } = options;
+  const { anchors } = layoutDocument(doc, blocks, fonts, {
+    margins: { top: margin, right: margin, bottom: margin, left: margin },
+    decoratePage: (page, pageCount) => ({
+      header: runningBlock(fill(options.header, page, pageCount)),
+      footer: runningBlock(fill(options.footer, page, pageCount)),
+    }),
+  });
+  addOutline(doc, outline, anchors);
+
+  return doc.output('blob');
+};
+
+const loadImage = async (doc: jsPDF, src: string, resources: File[]): Promise<HTMLImage | undefined> => {
+  let file: File | undefined;
+  if (src.startsWith('data:')) {
+    const blob = await (await fetch(src)).blob();
+    file = new File([blob], 'image', { type: blob.type });
+  } else {
+    // Nothing can be fetched relative to an uploaded file, so paths are matched to the uploaded images by name
+    const name = decodeURIComponent(src.split(/[?#]/)[0].split('/').pop() || '').toLowerCase();
+    file = resources.find((resource) => resource.name.toLowerCase() === name);
+  }
+  if (!file) return undefined;
+
+  const { bytes, format } = await prepareImageForPDF(file);
+  const { width, height } = doc.getImageProperties(bytes);
+  return { data: bytes, format: format === 'jpeg' ? 'JPEG' : 'PNG', width, height, alias: src };
+};
+
+const convertHTMLDocument = async (document: Document, fallbackTitle: string, options: HTMLExportOptions) => {
+  const title = document.title.trim() || document.querySelector('h1')?.textContent?.trim() || fallbackTitle;
+  const doc = createDocumentPDF(options, title);
+  const images = new Map<string, Promise<HTMLImage | undefined>>();
+
+  const { blocks, headings } = await htmlToBlocks(document.documentElement, {
+    overrides: options.stylesheet ? [options.stylesheet] : [],
+    resolveImage: (src) => {
+      if (!images.has(src)) images.set(src, loadImage(doc, src, options.resources || []).catch(() => undefined));
+      return images.get(src) as Promise<HTMLImage | undefined>;
+    },
+  });
+  if (!blocks.some((block) => block.type !== 'paragraph' || block.runs.length)) {
+    throw new Error('The document has no content to convert');
+  }
+
+  return renderDocumentPDF(doc, blocks, toOutline(headings), options, title);
+};
+
+export const convertHTMLToPDF = async (file: File, options: HTMLExportOptions): Promise<Blob> => {
+  const document = new DOMParser().parseFromString(await file.text(), 'text/html');
+  return convertHTMLDocument(document, file.name.replace(/\.x?html?$/i, ''), options);
+};
+
+// GitHub-style ids, so links to #some-heading work
+const addHeadingIds = (document: Document) => {
+  const used = new Set<string>();
+  for (const heading of Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6'))) {
+    const slug = (heading.textContent || '').trim().toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').replace(/\s/g, '-');
+    let id = slug;
+    for (let n = 1; used.has(id); n++) id = `${slug}-${n}`;
+    used.add(id);
+    if (!heading.id) heading.id = id;
+  }
+};
+
+/** Markdown with GitHub's extensions: tables, task lists, strikethrough and autolinks. */
+export const convertMarkdownToPDF = async (file: File, options: HTMLExportOptions): Promise<Blob> => {
+  const body = await marked.parse(await file.text(), { gfm: true });
+  const document = new DOMParser().parseFromString(`<!DOCTYPE html><html><body>${body}</body></html>`, 'text/html');
+  addHeadingIds(document);
+
+  // Task list checkboxes are form controls, which aren't drawn
+  for (const checkbox of Array.from(document.querySelectorAll('input[type="checkbox"]'))) {
+    checkbox.replaceWith((checkbox as HTMLInputElement).checked ? '☑' : '☐');
+  }
+
+  return convertHTMLDocument(document, file.name.replace(/\.(md|markdown|txt)$/i, ''), options);
+};
+
+export interface PlainTextExportOptions extends DocumentPageOptions {
+  fontSize: number;
+  lineNumbers: boolean;
+}
+
+export type CSVDelimiter = 'auto' | ',' | ';' | '\t' | '|';
+
+export interface CSVExportOptions extends DocumentPageOptions {
+  fontSize: number;
+  delimiter: CSVDelimiter;
+  headerRow: boolean; // the first row is bold and repeated at the top of every page
+}
+
+const LINE_NUMBER_COLOR: RGB = [150, 150, 150];
+const MONOSPACE_ADVANCE = 0.6; // DejaVu Sans Mono glyph width, in ems
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+const NUMERIC_CELL = /^[-+(]?[$€£¥]?\s?\d[\d,.\s']*%?\)?$/;
+
+const ESCAPE = '\u001b';
+
+// Terminal colors and other control characters show up in logs but have no glyphs
+const readPlainText = async (file: File) =>
+  (await file.text())
+    .replace(/^\ufeff/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(ESCAPE)
+    .map((part, i) => (i > 0 ? part.replace(/^\[[0-9;?]*[A-Za-z]/, '') : part))
+    .join('')
+    .replace(/[^\P{Cc}\n\t]/gu, '');
+
+/** Monospaced text, one numbered paragraph per line so long lines wrap under their own number. */
+export const convertTextToPDF = async (file: File, options: PlainTextExportOptions): Promise<Blob> => {
+  const text = await readPlainText(file);
+  if (!text.trim()) throw new Error('The file has no text to convert');
+  const lines = text.replace(/\n$/, '').split('\n');
+
+  const { fontSize, lineNumbers } = options;
+  const style = { ...DEFAULT_TEXT_STYLE, fontSize, monospace: true };
+  const numberStyle = { ...style, color: LINE_NUMBER_COLOR };
+  const indent = lineNumbers ? fontSize * (String(lines.length).length * MONOSPACE_ADVANCE + 1) : 0;
+
+  const blocks: LayoutBlock[] = lines.map((line, i) => ({
+    type: 'paragraph',
+    // A space keeps blank lines from collapsing
+    runs: [{ text: line || ' ', style }],
+    preformatted: true,
+    lineHeight: 1.3,
+    indent,
+    marker: lineNumbers ? { text: String(i + 1), style: numberStyle } : undefined,
+  }));
+
+  const doc = createDocumentPDF(options, file.name);
+  return renderDocumentPDF(doc, blocks, [], options, file.name);
+};
+
+// RFC 4180: quoted fields may hold delimiters, line breaks and doubled quotes
+const parseCSV = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (text[i + 1] === '"') field += text[++i];
+      else quoted = false;
+    } else if (char === '"' && !field) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+// The delimiter that splits the first rows into the most columns, most consistently
+const detectDelimiter = (text: string) => {
+  let best = ',';
+  let bestScore = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const rows = parseCSV(text.slice(0, 20000), delimiter).slice(0, 20);
+    const columns = rows[0]?.length || 0;
+    const score = columns > 1 ? rows.filter((row) => row.length === columns).length * columns : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/** A table that runs over as many pages as it needs, with numbers aligned right. */
+export const convertCSVToPDF = async (file: File, options: CSVExportOptions): Promise<Blob> => {
+  const text = await readPlainText(file);
+  const rows = parseCSV(text, options.delimiter === 'auto' ? detectDelimiter(text) : options.delimiter);
+  if (!rows.length) throw new Error('The file has no rows to convert');
+
+  const columns = rows.reduce((most, row) => Math.max(most, row.length), 0);
+  const style = { ...DEFAULT_TEXT_STYLE, fontSize: options.fontSize };
+  const headerStyle = { ...style, bold: true };
+
+  const table: TableBlock = {
+    type: 'table',
+    headerRows: options.headerRow ? 1 : 0,
+    rows: rows.map((row, rowIndex) => {
+      const header = options.headerRow && rowIndex === 0;
+      return Array.from({ length: columns }, (_, column): TableCell => {
+        const value = (row[column] || '').trim();
+        const runs = value ? [{ text: value.replace(/[^\S\n]+/g, ' '), style: header ? headerStyle : style }] : [];
+        const align = !header && NUMERIC_CELL.test(value) ? 'right' : undefined;
+        return { header, blocks: [{ type: 'paragraph', runs, align, lineHeight: 1.25 }] };
+      });
+    }),
+  };
+
+  const doc = createDocumentPDF(options, file.name);
+  return renderDocumentPDF(doc, [table], [], options, file.name);
+};
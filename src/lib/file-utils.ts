@@ -42,6 +42,26 @@ export const downloadBlob = (blob: Blob, filename: string): void => {
   URL.revokeObjectURL(url);
 };
 
+// zlib-wrapped deflate, as used by PDF FlateDecode and TIFF compression 8
+export const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const compressed = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(compressed).arrayBuffer());
+};
+
+export const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const decompressed = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(decompressed).arrayBuffer());
+};
+
+// FileReader works in workers too, where canvases have no toDataURL
+export const blobToDataURL = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
 export const getFileExtension = (filename: string): string => {
   return filename.split('.').pop()?.toLowerCase() || '';
 };
@@ -0,0 +1,278 @@
+import type { jsPDF } from 'jspdf';
+import dejaVuSansUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url';
+import dejaVuSansBoldUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url';
+import dejaVuSansObliqueUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans-Oblique.ttf?url';
+import dejaVuSansBoldObliqueUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans-BoldOblique.ttf?url';
+import dejaVuMonoUrl from 'dejavu-fonts-ttf/ttf/DejaVuSansMono.ttf?url';
+import dejaVuMonoBoldUrl from 'dejavu-fonts-ttf/ttf/DejaVuSansMono-Bold.ttf?url';
+import dejaVuMonoObliqueUrl from 'dejavu-fonts-ttf/ttf/DejaVuSansMono-Oblique.ttf?url';
+import dejaVuMonoBoldObliqueUrl from 'dejavu-fonts-ttf/ttf/DejaVuSansMono-BoldOblique.ttf?url';
+import notoSansSCUrl from '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url';
+import notoSansKRUrl from '@expo-google-fonts/noto-sans-kr/400Regular/NotoSansKR_400Regular.ttf?url';
+import notoSansThaiUrl from '@expo-google-fonts/noto-sans-thai/400Regular/NotoSansThai_400Regular.ttf?url';
+import notoSansThaiBoldUrl from '@expo-google-fonts/noto-sans-thai/700Bold/NotoSansThai_700Bold.ttf?url';
+import notoSansDevanagariUrl from '@expo-google-fonts/noto-sans-devanagari/400Regular/NotoSansDevanagari_400Regular.ttf?url';
+import notoSansDevanagariBoldUrl from '@expo-google-fonts/noto-sans-devanagari/700Bold/NotoSansDevanagari_700Bold.ttf?url';
+import notoEmojiUrl from '@expo-google-fonts/noto-emoji/400Regular/NotoEmoji_400Regular.ttf?url';
+import { aliasSupplementaryCharacters, readCharacterMap } from './truetype';
+
+/**
+ * Fonts for text generated into PDFs with jsPDF, whose built-in fonts only cover
+ * Latin-1. Body text uses Liberation Sans (shipped with the pdf.js assets) and
+ * code uses DejaVu Sans Mono; characters they lack fall back, per character, to
+ * fonts for other scripts. Fallbacks are only downloaded when the text needs
+ * them, and jsPDF subsets every embedded font so only the glyphs used end up in
+ * the file.
+ */
+
+export interface FontRun {
+  text: string; // characters outside the Basic Multilingual Plane already swapped for the font's aliases
+  font: string;
+}
+
+export interface DocumentFonts {
+  sans: string;
+  mono: string;
+  /** Split text into runs that can each be drawn with one font. */
+  splitText: (text: string, monospace: boolean) => FontRun[];
+}
+
+export type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+interface FontFamily {
+  name: string;
+  files: { normal: string } & Partial<Record<FontStyle, string>>; // missing styles are drawn with the closest one
+  ranges?: [number, number][]; // the scripts it's worth downloading for
+  aliasSupplementary?: boolean; // it has glyphs above U+FFFF that jsPDF can't reach directly
+}
+
+interface FontFile {
+  data: string; // jsPDF reads fonts from its virtual file system as binary strings
+  coverage: Set<number>;
+  aliases: Map<number, number>;
+}
+
+interface LoadedFamily {
+  name: string;
+  coverage: Set<number>;
+  aliases: Map<number, number>;
+}
+
+const FONTS_PATH = `${import.meta.env.BASE_URL}pdfjs/standard_fonts/`;
+
+const LIBERATION_SANS: FontFamily = {
+  name: 'LiberationSans',
+  files: {
+    normal: `${FONTS_PATH}LiberationSans-Regular.ttf`,
+    bold: `${FONTS_PATH}LiberationSans-Bold.ttf`,
+    italic: `${FONTS_PATH}LiberationSans-Italic.ttf`,
+    bolditalic: `${FONTS_PATH}LiberationSans-BoldItalic.ttf`,
+  },
+};
+
+const DEJAVU_SANS_MONO: FontFamily = {
+  name: 'DejaVuSansMono',
+  files: {
+    normal: dejaVuMonoUrl,
+    bold: dejaVuMonoBoldUrl,
+    italic: dejaVuMonoObliqueUrl,
+    bolditalic: dejaVuMonoBoldObliqueUrl,
+  },
+};
+
+// In order of preference when several have a glyph
+const FALLBACK_FAMILIES: FontFamily[] = [
+  {
+    // Latin Extended, Greek, Cyrillic, Armenian, Hebrew, Arabic, Georgian and symbols
+    name: 'DejaVuSans',
+    files: {
+      normal: dejaVuSansUrl,
+      bold: dejaVuSansBoldUrl,
+      italic: dejaVuSansObliqueUrl,
+      bolditalic: dejaVuSansBoldObliqueUrl,
+    },
+    ranges: [[0x0100, 0x06ff], [0x0750, 0x077f], [0x10a0, 0x10ff], [0x1e00, 0x2bff], [0xfb00, 0xfdff], [0xfe70, 0xfeff]],
+  },
+  {
+    // Han, kana and CJK punctuation
+    name: 'NotoSansSC',
+    files: { normal: notoSansSCUrl },
+    ranges: [[0x2e80, 0x9fff], [0xf900, 0xfaff], [0xfe30, 0xfe4f], [0xff00, 0xffef]],
+  },
+  {
+    name: 'NotoSansKR',
+    files: { normal: notoSansKRUrl },
+    ranges: [[0x1100, 0x11ff], [0x3130, 0x318f], [0xa960, 0xa97f], [0xac00, 0xd7ff]],
+  },
+  {
+    name: 'NotoSansThai',
+    files: { normal: notoSansThaiUrl, bold: notoSansThaiBoldUrl },
+    ranges: [[0x0e00, 0x0e7f]],
+  },
+  {
+    name: 'NotoSansDevanagari',
+    files: { normal: notoSansDevanagariUrl, bold: notoSansDevanagariBoldUrl },
+    ranges: [[0x0900, 0x097f], [0xa8e0, 0xa8ff]],
+  },
+  {
+    name: 'NotoEmoji',
+    files: { normal: notoEmojiUrl },
+    ranges: [[0x2300, 0x23ff], [0x2600, 0x27bf], [0x2b00, 0x2bff], [0x1f000, 0x1faff]],
+    aliasSupplementary: true,
+  },
+];
+
+// What jsPDF's built-in fonts can encode (WinAnsi)
+const BUILT_IN_COVERAGE = new Set<number>([
+  ...Array.from({ length: 0x5f }, (_, i) => 0x20 + i),
+  ...Array.from({ length: 0x60 }, (_, i) => 0xa0 + i),
+  ...Array.from('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ', (char) => char.codePointAt(0)!),
+]);
+
+// Invisible characters, dropped rather than drawn as missing glyphs: soft hyphens,
+// zero-width spaces and joiners, variation selectors and tags
+const IGNORABLE_RANGES: [number, number][] = [
+  [0x00ad, 0x00ad],
+  [0x200b, 0x200f],
+  [0x2060, 0x206f],
+  [0xfe00, 0xfe0f],
+  [0xfeff, 0xfeff],
+  [0xe0000, 0xe0fff],
+];
+
+const inRanges = (code: number, ranges: [number, number][]) => ranges.some(([start, end]) => code >= start && code <= end);
+
+const fontFiles = new Map<string, Promise<FontFile>>();
+
+const toBinaryString = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+};
+
+const loadFontFile = (url: string, aliasSupplementary: boolean): Promise<FontFile> => {
+  let file = fontFiles.get(url);
+  if (!file) {
+    file = fetch(url).then(async (response) => {
+      if (!response.ok) throw new Error(`Could not load the font ${url}`);
+      let bytes = new Uint8Array(await response.arrayBuffer());
+      let aliases = new Map<number, number>();
+      if (aliasSupplementary) ({ bytes, aliases } = aliasSupplementaryCharacters(bytes));
+      // Without aliases, glyphs above U+FFFF are out of jsPDF's reach
+      const codes = [...readCharacterMap(bytes).keys()].filter((code) => code <= 0xffff);
+      return { data: toBinaryString(bytes), coverage: new Set([...codes, ...aliases.keys()]), aliases };
+    });
+    // Let a failed download be retried next time
+    file.catch(() => fontFiles.delete(url));
+    fontFiles.set(url, file);
+  }
+  return file;
+};
+
+const registerFamily = async (doc: jsPDF, family: FontFamily): Promise<LoadedFamily> => {
+  const styles = Object.entries(family.files) as [FontStyle, string][];
+  const files = await Promise.all(styles.map(([, url]) => loadFontFile(url, !!family.aliasSupplementary)));
+
+  styles.forEach(([style, url], i) => {
+    const fileName = `${family.name}-${url.split('/').pop()}`;
+    if (!doc.existsFileInVFS(fileName)) doc.addFileToVFS(fileName, files[i].data);
+    doc.addFont(fileName, family.name, style);
+  });
+  // Every style of a family covers the same characters
+  return { name: family.name, coverage: files[0].coverage, aliases: files[0].aliases };
+};
+
+const registerWithFallback = (doc: jsPDF, family: FontFamily, builtIn: string): Promise<LoadedFamily> =>
+  registerFamily(doc, family).catch((error) => {
+    console.warn(`Falling back to the built-in ${builtIn} font:`, error);
+    return { name: builtIn, coverage: BUILT_IN_COVERAGE, aliases: new Map() };
+  });
+
+// jsPDF embeds every style that's registered, used or not, so styles a family lacks aren't faked
+const STYLE_FALLBACKS: Record<FontStyle, FontStyle[]> = {
+  normal: ['normal'],
+  bold: ['bold', 'normal'],
+  italic: ['italic', 'normal'],
+  bolditalic: ['bolditalic', 'bold', 'italic', 'normal'],
+};
+
+/** Switch to a registered font, in the closest style its family has. */
+export const selectFont = (doc: jsPDF, font: string, style: FontStyle) => {
+  const available = doc.getFontList()[font] || [];
+  doc.setFont(font, STYLE_FALLBACKS[style].find((candidate) => available.includes(candidate)) || 'normal');
+};
+
+/**
+ * jsPDF writes bookmark titles and document properties as single-byte strings,
+ * so text beyond Latin-1 is passed as UTF-16 with a byte order mark instead.
+ */
+export const encodePDFText = (text: string): string => {
+  if (Array.from(text).every((char) => char.charCodeAt(0) <= 0xff)) return text;
+  let result = '\xfe\xff';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    result += String.fromCharCode(code >> 8, code & 0xff);
+  }
+  return result;
+};
+
+/**
+ * Embed the body and code fonts, plus whichever fallback fonts the given text
+ * needs. Pass all the text the document will contain.
+ */
+export const registerDocumentFonts = async (doc: jsPDF, text = ''): Promise<DocumentFonts> => {
+  const [sans, mono] = await Promise.all([
+    registerWithFallback(doc, LIBERATION_SANS, 'helvetica'),
+    registerWithFallback(doc, DEJAVU_SANS_MONO, 'courier'),
+  ]);
+
+  const missing = new Set<number>();
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code >= 0x20 && !(sans.coverage.has(code) && mono.coverage.has(code))) missing.add(code);
+  }
+
+  const needed = FALLBACK_FAMILIES.filter((family) =>
+    [...missing].some((code) => inRanges(code, family.ranges || []))
+  );
+  const fallbacks = (
+    await Promise.all(
+      needed.map((family) =>
+        registerFamily(doc, family).catch((error) => {
+          console.warn(`Could not load the ${family.name} font:`, error);
+          return null;
+        })
+      )
+    )
+  ).filter((family): family is LoadedFamily => !!family);
+
+  const pickFont = (code: number, monospace: boolean): LoadedFamily | null => {
+    if (monospace && mono.coverage.has(code)) return mono;
+    if (sans.coverage.has(code)) return sans;
+    return fallbacks.find((family) => family.coverage.has(code)) || null;
+  };
+
+  const splitText = (text: string, monospace: boolean): FontRun[] => {
+    const runs: FontRun[] = [];
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      let family = pickFont(code, monospace);
+      if (!family) {
+        if (inRanges(code, IGNORABLE_RANGES)) continue;
+        // Nothing has it, so let the main font draw its missing-glyph box
+        family = monospace ? mono : sans;
+      }
+
+      const alias = family.aliases.get(code);
+      const drawn = alias ? String.fromCharCode(alias) : char;
+      const last = runs[runs.length - 1];
+      if (last && last.font === family.name) last.text += drawn;
+      else runs.push({ text: drawn, font: family.name });
+    }
+    return runs;
+  };
+
+  return { sans: sans.name, mono: mono.name, splitText };
+};
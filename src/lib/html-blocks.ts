@@ -0,0 +1,577 @@
+import {
+  DEFAULT_TEXT_STYLE,
+  LayoutBlock,
+  ParagraphBlock,
+  RGB,
+  TableCell,
+  TextAlign,
+  TextLink,
+  TextRun,
+  TextStyle,
+} from './document-layout';
+
+/**
+ * Convert an HTML or XHTML element into layout blocks. Tag semantics come first,
+ * then rules from the document's stylesheets (in source order, without specificity),
+ * then inline styles. Only what the layout engine can draw is honored: font weight,
+ * style and size, color, underline, alignment, indents, margins and page breaks.
+ */
+
+export interface HTMLImage {
+  data: Uint8Array;
+  format: 'JPEG' | 'PNG';
+  width: number; // pixels
+  height: number;
+  alias?: string;
+}
+
+export interface HTMLHeading {
+  level: number;
+  title: string;
+  anchor: string;
+}
+
+export interface HTMLConversionOptions {
+  baseFontSize?: number;
+  stylesheets?: string[]; // CSS applied before the document's own <style> elements
+  overrides?: string[]; // CSS applied after them, so it wins
+  anchors?: string[]; // anchor keys for the start of the content
+  anchorKey?: (id: string) => string;
+  resolveLink?: (href: string) => TextLink | undefined;
+  resolveImage?: (src: string) => Promise<HTMLImage | undefined>;
+}
+
+export interface HTMLConversion {
+  blocks: LayoutBlock[];
+  headings: HTMLHeading[];
+}
+
+interface Context {
+  text: TextStyle;
+  align: TextAlign;
+  indent: number;
+  preformatted: boolean;
+  quote: boolean;
+  background?: RGB;
+  list?: { ordered: boolean; counter: number; depth: number };
+}
+
+interface BlockSettings {
+  context: Context;
+  firstLineIndent?: number;
+  keepWithNext?: boolean;
+}
+
+const HEADING_SCALES: Record<string, number> = { h1: 1.8, h2: 1.5, h3: 1.25, h4: 1.1, h5: 1, h6: 0.9 };
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'body', 'caption', 'center', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset',
+  'figcaption', 'figure', 'footer', 'form', 'header', 'hgroup', 'legend', 'main', 'nav', 'p', 'section', 'summary',
+]);
+
+const SKIP_TAGS = new Set([
+  'audio', 'button', 'canvas', 'head', 'iframe', 'input', 'link', 'meta', 'noscript', 'object', 'script', 'select',
+  'style', 'template', 'textarea', 'title', 'video',
+]);
+
+const NAMED_COLORS: Record<string, RGB> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128],
+  silver: [192, 192, 192],
+  red: [255, 0, 0],
+  maroon: [128, 0, 0],
+  green: [0, 128, 0],
+  olive: [128, 128, 0],
+  navy: [0, 0, 128],
+  blue: [0, 0, 255],
+  teal: [0, 128, 128],
+  purple: [128, 0, 128],
+};
+
+const FONT_SIZE_KEYWORDS: Record<string, number> = {
+  'xx-small': 0.6,
+  'x-small': 0.75,
+  small: 0.89,
+  medium: 1,
+  large: 1.2,
+  'x-large': 1.5,
+  'xx-large': 2,
+};
+
+const LINK_COLOR: RGB = [26, 86, 219];
+const CODE_BACKGROUND: RGB = [244, 244, 245];
+const LIST_INDENT = 22;
+const BULLETS = ['•', '◦', '▪'];
+
+const PX_TO_PT = 0.75;
+
+/** A CSS length in points, relative to the given font size for em and %. */
+const parseLength = (value: string | undefined, fontSize: number, rootSize: number): number | undefined => {
+  const match = value?.trim().match(/^(-?[\d.]+)(px|pt|em|rem|%|in|cm|mm|ex)?$/);
+  if (!match) return undefined;
+  const amount = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'px': return amount * PX_TO_PT;
+    case 'em': return amount * fontSize;
+    case 'ex': return amount * fontSize * 0.5;
+    case 'rem': return amount * rootSize;
+    case '%': return (amount / 100) * fontSize;
+    case 'in': return amount * 72;
+    case 'cm': return (amount * 72) / 2.54;
+    case 'mm': return (amount * 72) / 25.4;
+    case 'pt': return amount;
+    default: return amount === 0 ? 0 : amount * PX_TO_PT;
+  }
+};
+
+const parseColor = (value: string | undefined): RGB | undefined => {
+  if (!value) return undefined;
+  const color = value.trim().toLowerCase();
+  if (NAMED_COLORS[color]) return NAMED_COLORS[color];
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16)) as RGB;
+  }
+
+  const rgb = color.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)/);
+  return rgb ? [rgb[1], rgb[2], rgb[3]].map((channel) => Math.min(255, Math.round(+channel))) as RGB : undefined;
+};
+
+// Parsed by the browser without attaching anything to the page
+const parseStylesheet = (source: string): CSSRuleList | undefined => {
+  if ('replaceSync' in CSSStyleSheet.prototype) {
+    const sheet = new CSSStyleSheet();
+    sheet.replaceSync(source);
+    return sheet.cssRules;
+  }
+  const host = document.implementation.createHTMLDocument('');
+  const style = host.createElement('style');
+  style.textContent = source;
+  host.head.appendChild(style);
+  return style.sheet?.cssRules;
+};
+
+const parseStylesheets = (sources: string[]): CSSStyleRule[] => {
+  const rules: CSSStyleRule[] = [];
+  for (const source of sources) {
+    try {
+      for (const rule of Array.from(parseStylesheet(source) || [])) {
+        if (rule instanceof CSSStyleRule) rules.push(rule);
+      }
+    } catch (error) {
+      console.warn('Ignoring a stylesheet that could not be parsed:', error);
+    }
+  }
+  return rules;
+};
+
+const isExternalLink = (href: string) => /^[a-z][a-z\d+.-]*:/i.test(href);
+
+export const htmlToBlocks = async (root: Element, options: HTMLConversionOptions = {}): Promise<HTMLConversion> => {
+  const rootSize = options.baseFontSize || DEFAULT_TEXT_STYLE.fontSize;
+  const anchorKey = options.anchorKey || ((id: string) => `#${id}`);
+  const resolveLink = options.resolveLink || ((href: string): TextLink | undefined => {
+    if (isExternalLink(href)) return { type: 'url', url: href };
+    return href.startsWith('#') ? { type: 'anchor', anchor: anchorKey(href.slice(1)) } : undefined;
+  });
+
+  const embedded = Array.from(root.ownerDocument.getElementsByTagName('style')).map((style) => style.textContent || '');
+  const rules = parseStylesheets([...(options.stylesheets || []), ...embedded, ...(options.overrides || [])]);
+  // Inline styles are parsed by the browser through a detached element
+  const scratch = document.createElement('div');
+
+  let blocks: LayoutBlock[] = [];
+  let runs: TextRun[] = [];
+  let paragraph: Omit<ParagraphBlock, 'type' | 'runs'> | null = null;
+  let current: BlockSettings;
+  let pendingAnchors: string[] = [...(options.anchors || [])];
+  let pendingMarker: TextRun | undefined;
+  const headings: HTMLHeading[] = [];
+
+  const takeAnchors = () => {
+    const anchors = pendingAnchors;
+    pendingAnchors = [];
+    return anchors.length ? anchors : undefined;
+  };
+
+  const getDeclarations = (element: Element): Map<string, string> => {
+    const declarations = new Map<string, string>();
+    const apply = (style: CSSStyleDeclaration) => {
+      for (let i = 0; i < style.length; i++) declarations.set(style[i], style.getPropertyValue(style[i]));
+    };
+
+    for (const rule of rules) {
+      try {
+        if (element.matches(rule.selectorText)) apply(rule.style);
+      } catch {
+        // Selectors the browser can't match against (pseudo-elements and the like)
+      }
+    }
+
+    const inline = element.getAttribute('style');
+    if (inline) {
+      scratch.setAttribute('style', inline);
+      apply(scratch.style);
+    }
+    return declarations;
+  };
+
+  const flush = () => {
+    const keep = paragraph && runs.some((run) => /[^ ]/.test(run.text));
+    if (paragraph && keep) {
+      if (paragraph.preformatted) runs[0].text = runs[0].text.replace(/^\n/, '');
+      blocks.push({ type: 'paragraph', ...paragraph, runs, marker: pendingMarker, anchors: takeAnchors() });
+      pendingMarker = undefined;
+    }
+    runs = [];
+    paragraph = null;
+  };
+
+  const appendText = (value: string, context: Context, raw = false) => {
+    let text = raw || context.preformatted ? value.replace(/\r\n?/g, '\n') : value.replace(/[ \t\n\r\f]+/g, ' ');
+    const last = runs[runs.length - 1];
+    // Collapse spaces across element boundaries, and drop them at the start of a line
+    if (!context.preformatted && text.startsWith(' ') && (!last || /[ \n]$/.test(last.text))) text = text.slice(1);
+    if (!text) return;
+
+    if (!paragraph) {
+      const { context: block, firstLineIndent, keepWithNext } = current;
+      paragraph = {
+        align: block.align,
+        indent: block.indent,
+        preformatted: block.preformatted,
+        quote: block.quote,
+        background: block.background,
+        firstLineIndent,
+        keepWithNext,
+      };
+    }
+
+    if (last && last.style === context.text) last.text += text;
+    else runs.push({ text, style: context.text });
+  };
+
+  const computeContext = (element: Element, tag: string, parent: Context, css: Map<string, string>): Context => {
+    const text = { ...parent.text };
+    const context: Context = { ...parent, text };
+
+    if (HEADING_SCALES[tag]) {
+      text.bold = true;
+      text.fontSize = rootSize * HEADING_SCALES[tag];
+    }
+    switch (tag) {
+      case 'b': case 'strong': case 'th': case 'dt':
+        text.bold = true;
+        break;
+      case 'i': case 'em': case 'cite': case 'var': case 'dfn': case 'address':
+        text.italic = true;
+        break;
+      case 'u': case 'ins':
+        text.underline = true;
+        break;
+      case 'small': case 'figcaption':
+        text.fontSize *= 0.85;
+        break;
+      case 'big':
+        text.fontSize *= 1.2;
+        break;
+      case 'sup': case 'sub':
+        text.fontSize *= 0.75;
+        break;
+      case 'code': case 'kbd': case 'samp': case 'tt':
+        text.monospace = true;
+        text.fontSize *= 0.9;
+        break;
+      case 'pre':
+        text.monospace = true;
+        text.fontSize *= 0.9;
+        context.preformatted = true;
+        context.background = CODE_BACKGROUND;
+        break;
+      case 'center':
+        context.align = 'center';
+        break;
+      case 'blockquote':
+        context.indent += 20;
+        context.quote = true;
+        break;
+      case 'dd':
+        context.indent += 24;
+        break;
+      case 'a': {
+        const href = element.getAttribute('href');
+        const link = href ? resolveLink(href) : undefined;
+        if (link) {
+          text.link = link;
+          text.underline = true;
+          text.color = LINK_COLOR;
+        }
+        break;
+      }
+    }
+
+    const align = element.getAttribute('align')?.toLowerCase();
+    if (align === 'left' || align === 'center' || align === 'right' || align === 'justify') context.align = align;
+
+    const fontWeight = css.get('font-weight');
+    if (fontWeight) text.bold = fontWeight === 'bold' || fontWeight === 'bolder' || parseInt(fontWeight, 10) >= 600;
+
+    const fontStyle = css.get('font-style');
+    if (fontStyle) text.italic = fontStyle === 'italic' || fontStyle === 'oblique';
+
+    const fontSize = css.get('font-size');
+    if (fontSize) {
+      const keyword = FONT_SIZE_KEYWORDS[fontSize];
+      if (keyword) text.fontSize = rootSize * keyword;
+      else if (fontSize === 'smaller') text.fontSize = parent.text.fontSize * 0.83;
+      else if (fontSize === 'larger') text.fontSize = parent.text.fontSize * 1.2;
+      else text.fontSize = parseLength(fontSize, parent.text.fontSize, rootSize) || text.fontSize;
+    }
+
+    const fontFamily = css.get('font-family');
+    if (fontFamily) text.monospace = /monospace|courier|consolas|menlo/i.test(fontFamily);
+
+    const color = parseColor(css.get('color'));
+    if (color) text.color = color;
+
+    const decoration = css.get('text-decoration-line') || css.get('text-decoration');
+    if (decoration) text.underline = decoration.includes('underline');
+
+    const textAlign = css.get('text-align');
+    if (textAlign === 'left' || textAlign === 'start') context.align = 'left';
+    else if (textAlign === 'right' || textAlign === 'end') context.align = 'right';
+    else if (textAlign === 'center' || textAlign === 'justify') context.align = textAlign;
+
+    const whiteSpace = css.get('white-space');
+    if (whiteSpace) context.preformatted = whiteSpace.startsWith('pre');
+
+    return context;
+  };
+
+  const walkChildren = async (element: Element, context: Context) => {
+    for (const node of Array.from(element.childNodes)) {
+      if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+        appendText(node.nodeValue || '', context);
+      } else if (node.nodeType === Node.ELEMENT_NODE) {
+        await walkElement(node as Element, context);
+      }
+    }
+  };
+
+  const walkBlock = async (
+    element: Element,
+    context: Context,
+    css: Map<string, string>,
+    spacing: { before: number; after: number },
+    settings: Omit<BlockSettings, 'context'> = {}
+  ) => {
+    flush();
+    const start = blocks.length;
+    const parent = current;
+    const { fontSize } = context.text;
+    const textIndent = parseLength(css.get('text-indent'), fontSize, rootSize);
+    current = { context, firstLineIndent: textIndent && textIndent > 0 ? textIndent : undefined, ...settings };
+
+    await walkChildren(element, context);
+    flush();
+    current = parent;
+
+    // Margins go on the outermost blocks this element produced
+    const first = blocks[start];
+    const last = blocks[blocks.length - 1];
+    const before = parseLength(css.get('margin-top'), fontSize, rootSize) ?? spacing.before;
+    const after = parseLength(css.get('margin-bottom'), fontSize, rootSize) ?? spacing.after;
+    if (first && first.type !== 'page-break') first.spaceBefore = Math.max(first.spaceBefore || 0, before);
+    if (last && last.type !== 'page-break' && blocks.length > start) last.spaceAfter = Math.max(last.spaceAfter || 0, after);
+  };
+
+  const addImage = async (src: string | null, element: Element, context: Context) => {
+    const image = src ? await options.resolveImage?.(src).catch(() => undefined) : undefined;
+    if (!image) {
+      const alt = element.getAttribute('alt');
+      if (alt) appendText(alt, context);
+      return;
+    }
+
+    flush();
+    // Explicit sizes are CSS pixels; keep the aspect ratio when only one is given
+    const widthAttribute = parseFloat(element.getAttribute('width') || '');
+    const heightAttribute = parseFloat(element.getAttribute('height') || '');
+    let width = image.width * PX_TO_PT;
+    let height = image.height * PX_TO_PT;
+    if (widthAttribute > 0) {
+      height = heightAttribute > 0 ? heightAttribute * PX_TO_PT : (height * widthAttribute * PX_TO_PT) / width;
+      width = widthAttribute * PX_TO_PT;
+    } else if (heightAttribute > 0) {
+      width = (width * heightAttribute * PX_TO_PT) / height;
+      height = heightAttribute * PX_TO_PT;
+    }
+
+    blocks.push({
+      type: 'image',
+      data: image.data,
+      format: image.format,
+      width,
+      height,
+      alias: image.alias,
+      indent: context.indent,
+      align: context.align === 'right' ? 'right' : 'center',
+      spaceBefore: 6,
+      spaceAfter: 6,
+      anchors: takeAnchors(),
+    });
+  };
+
+  const addTable = async (table: Element, context: Context) => {
+    flush();
+    const caption = Array.from(table.children).find((child) => child.localName.toLowerCase() === 'caption');
+    if (caption) await walkElement(caption, { ...context, align: 'center' });
+
+    const outer = { blocks, current, anchors: takeAnchors() };
+    const cellContext: Context = { ...context, indent: 0, quote: false, background: undefined, list: undefined };
+    const rows: TableCell[][] = [];
+    let headerRows = 0;
+
+    const rowElements = Array.from(table.getElementsByTagName('*')).filter(
+      (element) => element.localName.toLowerCase() === 'tr' && element.closest('table') === table
+    );
+
+    for (const row of rowElements) {
+      const cells: TableCell[] = [];
+      for (const cell of Array.from(row.children)) {
+        const tag = cell.localName.toLowerCase();
+        if (tag !== 'td' && tag !== 'th') continue;
+
+        // Convert the cell on its own; only its text can go into the table
+        blocks = [];
+        const css = getDeclarations(cell);
+        const context = computeContext(cell, tag, cellContext, css);
+        current = { context };
+        await walkChildren(cell, context);
+        flush();
+        cells.push({
+          blocks: blocks.filter((block): block is ParagraphBlock => block.type === 'paragraph'),
+          header: tag === 'th',
+        });
+      }
+      if (!cells.length) continue;
+
+      const inHead = row.parentElement?.localName.toLowerCase() === 'thead';
+      if (rows.length === headerRows && (inHead || (rows.length === 0 && cells.every((cell) => cell.header)))) {
+        headerRows++;
+      }
+      rows.push(cells);
+    }
+
+    blocks = outer.blocks;
+    current = outer.current;
+    blocks.push({
+      type: 'table',
+      rows,
+      headerRows,
+      indent: context.indent,
+      spaceBefore: 8,
+      spaceAfter: 8,
+      anchors: outer.anchors,
+    });
+  };
+
+  const walkElement = async (element: Element, parent: Context) => {
+    const tag = element.localName.toLowerCase();
+    if (SKIP_TAGS.has(tag)) return;
+
+    const css = getDeclarations(element);
+    const display = css.get('display');
+    if (display === 'none') return;
+
+    const id = element.getAttribute('id') || (tag === 'a' ? element.getAttribute('name') : null);
+    if (id) pendingAnchors.push(anchorKey(id));
+
+    const breakBefore = css.get('break-before') || css.get('page-break-before');
+    if (breakBefore && /always|page|left|right/.test(breakBefore)) {
+      flush();
+      blocks.push({ type: 'page-break' });
+    }
+
+    const context = computeContext(element, tag, parent, css);
+    const { fontSize } = context.text;
+    const isInline = display === 'inline' || display === 'inline-block';
+
+    if (HEADING_SCALES[tag]) {
+      const title = (element.textContent || '').replace(/\s+/g, ' ').trim();
+      const anchor = id ? anchorKey(id) : anchorKey(`__heading-${headings.length + 1}`);
+      if (!id) pendingAnchors.push(anchor);
+      if (title) headings.push({ level: parseInt(tag.slice(1), 10), title, anchor });
+      await walkBlock(element, context, css, { before: fontSize * 0.8, after: fontSize * 0.4 }, { keepWithNext: true });
+    } else if (tag === 'br') {
+      appendText('\n', context, true);
+    } else if (tag === 'hr') {
+      flush();
+      blocks.push({ type: 'rule', indent: context.indent, anchors: takeAnchors() });
+    } else if (tag === 'img') {
+      await addImage(element.getAttribute('src'), element, context);
+    } else if (tag === 'svg') {
+      // Covers are often an SVG wrapping a single bitmap
+      for (const image of Array.from(element.getElementsByTagName('image'))) {
+        const href = image.getAttribute('href') || image.getAttribute('xlink:href');
+        await addImage(href, image, context);
+      }
+    } else if (tag === 'table') {
+      await addTable(element, context);
+    } else if (tag === 'ul' || tag === 'ol') {
+      const start = parseInt(element.getAttribute('start') || '1', 10);
+      const depth = parent.list ? parent.list.depth + 1 : 0;
+      const list = { ordered: tag === 'ol', counter: (Number.isNaN(start) ? 1 : start) - 1, depth };
+      const spacing = depth ? { before: 0, after: 0 } : { before: fontSize * 0.5, after: fontSize * 0.5 };
+      await walkBlock(element, { ...context, indent: context.indent + LIST_INDENT, list }, css, spacing);
+    } else if (tag === 'li') {
+      const list = parent.list;
+      flush();
+      if (list) {
+        const value = parseInt(element.getAttribute('value') || '', 10);
+        list.counter = Number.isNaN(value) ? list.counter + 1 : value;
+      }
+      const marker = list?.ordered ? `${list.counter}.` : BULLETS[(list?.depth || 0) % BULLETS.length];
+      pendingMarker = { text: marker, style: { ...context.text, link: undefined, underline: false } };
+      await walkBlock(element, context, css, { before: fontSize * 0.2, after: fontSize * 0.2 });
+      pendingMarker = undefined;
+    } else if (tag === 'pre' || tag === 'blockquote') {
+      await walkBlock(element, context, css, { before: fontSize * 0.6, after: fontSize * 0.6 });
+    } else if (!isInline && (BLOCK_TAGS.has(tag) || display === 'block' || display === 'list-item')) {
+      const margin = tag === 'p' || tag === 'figure' || tag === 'dl' ? fontSize * 0.6 : 0;
+      await walkBlock(element, context, css, { before: margin, after: margin });
+    } else {
+      await walkChildren(element, context);
+    }
+
+    const breakAfter = css.get('break-after') || css.get('page-break-after');
+    if (breakAfter && /always|page|left|right/.test(breakAfter)) {
+      flush();
+      blocks.push({ type: 'page-break' });
+    }
+  };
+
+  const rootContext: Context = {
+    text: { ...DEFAULT_TEXT_STYLE, fontSize: rootSize },
+    align: 'left',
+    indent: 0,
+    preformatted: false,
+    quote: false,
+  };
+  current = { context: rootContext };
+
+  const body = root.localName.toLowerCase() === 'html'
+    ? Array.from(root.children).find((child) => child.localName.toLowerCase() === 'body') || root
+    : root;
+  await walkElement(body, rootContext);
+  flush();
+
+  // Anchors at the very end (an empty chapter, a trailing id) still need a position
+  if (pendingAnchors.length) blocks.push({ type: 'paragraph', runs: [], anchors: takeAnchors() });
+
+  return { blocks, headings };
+};
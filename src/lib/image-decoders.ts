@@ -0,0 +1,152 @@
+import { canvasToBlob, createCanvas } from './canvas-utils';
+import { decodeTIFF } from './tiff';
+
+/**
+ * Turn any image the browser (or our own decoders) can read into bytes pdf-lib
+ * can embed. JPEGs and PNGs pass through untouched; everything else is decoded
+ * and re-encoded. EXIF orientation is reported rather than baked in, so JPEGs
+ * never lose quality to a second encode.
+ */
+
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export interface PreparedImage {
+  bytes: Uint8Array;
+  format: 'jpeg' | 'png';
+  orientation: ExifOrientation; // how the stored pixels must be turned to display upright
+}
+
+type ImageKind = 'jpeg' | 'png' | 'tiff' | 'heic' | 'other';
+
+// HEIF brands used by phones; AVIF shares the container but decodes natively
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs'];
+
+const sniffImageKind = (bytes: Uint8Array): ImageKind => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'png';
+  if ((bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42) || (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[3] === 42)) {
+    return 'tiff';
+  }
+
+  const text = String.fromCharCode(...bytes.subarray(4, 32));
+  if (text.startsWith('ftyp')) {
+    // Major brand, then the compatible brands list
+    const brands: string[] = text.slice(4).match(/.{4}/g) || [];
+    if (brands.some((brand) => HEIC_BRANDS.includes(brand)) && !brands.includes('avif')) return 'heic';
+  }
+  return 'other';
+};
+
+const parseJPEGOrientation = (bytes: Uint8Array): ExifOrientation => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Image data starts here; metadata can't follow
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = view.getUint16(offset + 2);
+
+    // APP1 "Exif\0\0" followed by a TIFF header
+    if (marker === 0xe1 && String.fromCharCode(...bytes.subarray(offset + 4, offset + 10)) === 'Exif\0\0') {
+      const tiff = offset + 10;
+      if (tiff + 8 > bytes.length) return 1;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd + 2 > bytes.length) return 1;
+      const entries = view.getUint16(ifd, littleEndian);
+
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > bytes.length) break;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const value = view.getUint16(entry + 8, littleEndian);
+          return value >= 1 && value <= 8 ? (value as ExifOrientation) : 1;
+        }
+      }
+      return 1;
+    }
+
+    offset += 2 + length;
+  }
+
+  return 1;
+};
+
+/** The EXIF orientation tag of a JPEG, or 1 when there is none or the metadata is damaged. */
+export const readJPEGOrientation = (bytes: Uint8Array): ExifOrientation => {
+  try {
+    return parseJPEGOrientation(bytes);
+  } catch {
+    // Browsers draw these files fine, so a broken EXIF block shouldn't stop a conversion
+    return 1;
+  }
+};
+
+const loadImageElement = (file: File): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => {
+      URL.revokeObjectURL(img.src);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(img.src);
+      reject(new Error(`Could not read "${file.name}". This image format isn't supported by your browser.`));
+    };
+    img.src = URL.createObjectURL(file);
+  });
+};
+
+// Safari decodes HEIC itself; elsewhere the libheif build is fetched only when first needed
+const decodeHEIC = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file);
+  } catch {
+    const { heicTo } = await import('heic-to');
+    return heicTo({ blob: file, type: 'bitmap' });
+  }
+};
+
+const encodeCanvasSource = async (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  format: PreparedImage['format']
+): Promise<Uint8Array> => {
+  const { canvas, context } = createCanvas(width, height);
+  context.drawImage(source, 0, 0);
+  const blob = await canvasToBlob(canvas, `image/${format}`, format === 'jpeg' ? 0.92 : undefined);
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+export const prepareImageForPDF = async (file: File): Promise<PreparedImage> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const kind = sniffImageKind(bytes);
+
+  if (kind === 'jpeg') return { bytes, format: 'jpeg', orientation: readJPEGOrientation(bytes) };
+  if (kind === 'png') return { bytes, format: 'png', orientation: 1 };
+
+  if (kind === 'tiff') {
+    const { width, height, data } = await decodeTIFF(bytes);
+    const { canvas, context } = createCanvas(width, height);
+    context.putImageData(new ImageData(data, width, height), 0, 0);
+    return { bytes: await encodeCanvasSource(canvas, width, height, 'png'), format: 'png', orientation: 1 };
+  }
+
+  if (kind === 'heic') {
+    // Phone photos are opaque, so JPEG keeps them a sensible size
+    const bitmap = await decodeHEIC(file).catch(() => {
+      throw new Error(`Could not decode the HEIC image "${file.name}"`);
+    });
+    const encoded = await encodeCanvasSource(bitmap, bitmap.width, bitmap.height, 'jpeg');
+    bitmap.close();
+    return { bytes: encoded, format: 'jpeg', orientation: 1 };
+  }
+
+  // WebP, AVIF, GIF, BMP and SVG go through the browser's own decoders
+  const source = await createImageBitmap(file).catch(() => loadImageElement(file));
+  const encoded = await encodeCanvasSource(source, source.width, source.height, 'png');
+  if ('close' in source) source.close();
+  return { bytes: encoded, format: 'png', orientation: 1 };
+};
@@ -0,0 +1,897 @@
+import JSZip from 'jszip';
+import type { jsPDF } from 'jspdf';
+import {
+  DEFAULT_TEXT_STYLE,
+  ImageBlock,
+  LayoutBlock,
+  ParagraphBlock,
+  RGB,
+  TableBlock,
+  TableCell,
+  TextAlign,
+  TextLink,
+  TextRun,
+  TextStyle,
+} from './document-layout';
+import { DocumentPageOptions, createDocumentPDF, renderDocumentPDF, toOutline } from './document-pdf';
+import { HTMLHeading } from './html-blocks';
+import { prepareImageForPDF } from './image-decoders';
+
+/**
+ * Office Open XML files (Word, Excel and PowerPoint) converted in the browser.
+ * They are zipped XML; the content is read into layout blocks and paginated
+ * like any other document, so the PDF follows the structure of the original
+ * rather than its exact look: Word paragraphs, lists, tables and pictures,
+ * every visible sheet of a workbook as a table, and one page per slide.
+ */
+
+export type OfficeFormat = 'docx' | 'xlsx' | 'pptx';
+
+interface OfficeConversion {
+  blocks: LayoutBlock[];
+  headings: HTMLHeading[];
+}
+
+interface Relationship {
+  target: string; // a path inside the package, or a URL when external
+  external: boolean;
+}
+
+interface RunProps {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  caps?: boolean;
+  hidden?: boolean;
+  script?: boolean; // superscript or subscript
+  monospace?: boolean;
+  size?: number; // points
+  color?: RGB;
+}
+
+interface ParagraphProps {
+  align?: TextAlign;
+  spaceBefore?: number;
+  spaceAfter?: number;
+  line?: { value: number; rule: string }; // twips, or 240ths of a line for the 'auto' rule
+  indent?: number;
+  firstLineIndent?: number;
+  headingLevel?: number;
+  pageBreakBefore?: boolean;
+  keepWithNext?: boolean;
+  background?: RGB;
+  numId?: string;
+  numLevel?: number;
+}
+
+interface WordStyle {
+  basedOn?: string;
+  run: RunProps;
+  paragraph: ParagraphProps;
+}
+
+interface ListLevel {
+  format: string;
+  text: string;
+  start: number;
+  paragraph: ParagraphProps;
+}
+
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const EMU_PER_POINT = 12700;
+const TWIPS_PER_POINT = 20;
+const LINK_COLOR: RGB = [26, 86, 219];
+const HEADING_SCALES = [1.8, 1.5, 1.25, 1.1, 1, 0.9];
+const BULLETS = ['•', '◦', '▪'];
+const LIST_INDENT = 18;
+const MONOSPACE_FONT = /courier|consolas|mono|menlo|lucida console/i;
+const SHEET_FONT_SIZE = 9;
+const SLIDE_TITLE_SIZE = 20;
+const SLIDE_TEXT_SIZE = 12;
+
+// Built-in Excel number formats that show dates and times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+const BUILT_IN_FORMATS: Record<number, string> = { 1: '0', 2: '0.00', 3: '#,##0', 4: '#,##0.00', 9: '0%', 10: '0.00%' };
+
+const ALIGNMENTS: Record<string, TextAlign> = {
+  left: 'left',
+  start: 'left',
+  center: 'center',
+  ctr: 'center',
+  right: 'right',
+  end: 'right',
+  r: 'right',
+  both: 'justify',
+  distribute: 'justify',
+  just: 'justify',
+};
+
+const childElements = (parent: Element | null | undefined, name?: string): Element[] =>
+  parent ? Array.from(parent.children).filter((child) => !name || child.localName === name) : [];
+
+const findChild = (parent: Element | null | undefined, name: string): Element | undefined =>
+  childElements(parent, name)[0];
+
+const descendants = (parent: Element | Document | null | undefined, name: string): Element[] =>
+  parent ? Array.from(parent.getElementsByTagNameNS('*', name)) : [];
+
+// Attributes are looked up by local name, whatever prefix the file uses
+const attribute = (element: Element | null | undefined, name: string): string | undefined => {
+  for (const attr of Array.from(element?.attributes || [])) {
+    if (attr.localName === name) return attr.value;
+  }
+  return undefined;
+};
+
+const numberAttribute = (element: Element | null | undefined, name: string): number | undefined => {
+  const value = parseFloat(attribute(element, name) || '');
+  return Number.isFinite(value) ? value : undefined;
+};
+
+const relationshipId = (element: Element | null | undefined, name = 'id') =>
+  element?.getAttributeNS(RELATIONSHIPS_NS, name) || '';
+
+// <w:b/> is on; <w:b w:val="0"/> turns off what a style turned on
+const toggle = (element: Element | undefined): boolean | undefined =>
+  element ? !['0', 'false', 'off', 'none'].includes(attribute(element, 'val') || '') : undefined;
+
+const parseHexColor = (value: string | undefined): RGB | undefined => {
+  if (!value || !/^[0-9a-f]{6}$/i.test(value)) return undefined;
+  return [0, 2, 4].map((i) => parseInt(value.slice(i, i + 2), 16)) as RGB;
+};
+
+// Later sources win; undefined properties don't override
+const merge = <T extends object>(...sources: (T | undefined)[]): T => {
+  const result = {} as T;
+  for (const source of sources) {
+    for (const [key, value] of Object.entries(source || {})) {
+      if (value !== undefined) (result as Record<string, unknown>)[key] = value;
+    }
+  }
+  return result;
+};
+
+const readXML = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const entry = zip.file(path);
+  if (!entry) return null;
+  return new DOMParser().parseFromString(await entry.async('text'), 'application/xml');
+};
+
+const resolvePath = (folder: string, target: string) => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts: string[] = [];
+  for (const part of `${folder}${target}`.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+};
+
+// Every part lists what it links to in a .rels file next to it
+const readRelationships = async (zip: JSZip, partPath: string): Promise<Map<string, Relationship>> => {
+  const folder = partPath.slice(0, partPath.lastIndexOf('/') + 1);
+  const xml = await readXML(zip, `${folder}_rels/${partPath.slice(folder.length)}.rels`);
+  const relationships = new Map<string, Relationship>();
+  for (const relationship of descendants(xml, 'Relationship')) {
+    const target = relationship.getAttribute('Target') || '';
+    const external = relationship.getAttribute('TargetMode') === 'External';
+    relationships.set(relationship.getAttribute('Id') || '', {
+      target: external ? target : resolvePath(folder, decodeURIComponent(target)),
+      external,
+    });
+  }
+  return relationships;
+};
+
+const loadImage = async (doc: jsPDF, zip: JSZip, path: string, width?: number, height?: number) => {
+  const entry = zip.file(path);
+  if (!entry) return undefined;
+  try {
+    const file = new File([await entry.async('uint8array')], path.split('/').pop() || 'image');
+    const { bytes, format } = await prepareImageForPDF(file);
+    const size = doc.getImageProperties(bytes);
+    const block: ImageBlock = {
+      type: 'image',
+      data: bytes,
+      format: format === 'jpeg' ? 'JPEG' : 'PNG',
+      width: width || size.width * 0.75,
+      height: height || size.height * 0.75,
+      alias: path,
+      spaceBefore: 4,
+      spaceAfter: 4,
+    };
+    return block;
+  } catch {
+    // EMF and WMF drawings have no browser decoder
+    return undefined;
+  }
+};
+
+const formatListNumber = (value: number, format: string): string => {
+  if (format === 'lowerLetter' || format === 'upperLetter') {
+    let letters = '';
+    for (let n = value; n > 0; n = Math.floor((n - 1) / 26)) letters = String.fromCharCode(97 + ((n - 1) % 26)) + letters;
+    return format === 'upperLetter' ? letters.toUpperCase() : letters;
+  }
+  if (format === 'lowerRoman' || format === 'upperRoman') {
+    const numerals: [number, string][] = [
+      [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+      [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+    ];
+    let roman = '';
+    let rest = value;
+    for (const [amount, numeral] of numerals) {
+      for (; rest >= amount; rest -= amount) roman += numeral;
+    }
+    return format === 'upperRoman' ? roman.toUpperCase() : roman;
+  }
+  if (format === 'decimalZero') return String(value).padStart(2, '0');
+  return String(value);
+};
+
+const readRunProps = (rPr: Element | undefined): RunProps => {
+  if (!rPr) return {};
+  const fonts = findChild(rPr, 'rFonts');
+  const font = attribute(fonts, 'ascii') || attribute(fonts, 'hAnsi');
+  const size = numberAttribute(findChild(rPr, 'sz'), 'val');
+  const underline = findChild(rPr, 'u');
+  const script = attribute(findChild(rPr, 'vertAlign'), 'val');
+  return {
+    bold: toggle(findChild(rPr, 'b')),
+    italic: toggle(findChild(rPr, 'i')),
+    underline: underline ? attribute(underline, 'val') !== 'none' : undefined,
+    caps: toggle(findChild(rPr, 'caps')),
+    hidden: toggle(findChild(rPr, 'vanish')),
+    script: script ? script !== 'baseline' : undefined,
+    monospace: font ? MONOSPACE_FONT.test(font) : undefined,
+    size: size ? size / 2 : undefined,
+    color: parseHexColor(attribute(findChild(rPr, 'color'), 'val')),
+  };
+};
+
+const readParagraphProps = (pPr: Element | undefined): ParagraphProps => {
+  if (!pPr) return {};
+  const spacing = findChild(pPr, 'spacing');
+  const ind = findChild(pPr, 'ind');
+  const numPr = findChild(pPr, 'numPr');
+  const outlineLevel = numberAttribute(findChild(pPr, 'outlineLvl'), 'val');
+  const line = numberAttribute(spacing, 'line');
+  const before = numberAttribute(spacing, 'before');
+  const after = numberAttribute(spacing, 'after');
+  const left = numberAttribute(ind, 'left') ?? numberAttribute(ind, 'start');
+  const firstLine = numberAttribute(ind, 'firstLine');
+  const hanging = numberAttribute(ind, 'hanging');
+  const shading = attribute(findChild(pPr, 'shd'), 'fill');
+  return {
+    align: ALIGNMENTS[attribute(findChild(pPr, 'jc'), 'val') || ''],
+    spaceBefore: before !== undefined ? before / TWIPS_PER_POINT : undefined,
+    spaceAfter: after !== undefined ? after / TWIPS_PER_POINT : undefined,
+    line: line ? { value: line, rule: attribute(spacing, 'lineRule') || 'auto' } : undefined,
+    indent: left !== undefined ? left / TWIPS_PER_POINT : undefined,
+    firstLineIndent:
+      hanging !== undefined ? -hanging / TWIPS_PER_POINT : firstLine !== undefined ? firstLine / TWIPS_PER_POINT : undefined,
+    // Level 9 is body text
+    headingLevel: outlineLevel !== undefined && outlineLevel < 6 ? outlineLevel + 1 : undefined,
+    pageBreakBefore: toggle(findChild(pPr, 'pageBreakBefore')),
+    keepWithNext: toggle(findChild(pPr, 'keepNext')),
+    background: shading && shading !== 'auto' ? parseHexColor(shading) : undefined,
+    numId: attribute(findChild(numPr, 'numId'), 'val'),
+    numLevel: numberAttribute(findChild(numPr, 'ilvl'), 'val'),
+  };
+};
+
+const readWordStyles = (xml: Document | null) => {
+  const styles = new Map<string, WordStyle>();
+  let defaultParagraphStyle: string | undefined;
+
+  for (const style of descendants(xml, 'style')) {
+    const id = attribute(style, 'styleId') || '';
+    const name = (attribute(findChild(style, 'name'), 'val') || '').toLowerCase();
+    const paragraph = readParagraphProps(findChild(style, 'pPr'));
+    const heading = name.match(/^heading ([1-6])$/);
+    if (heading) paragraph.headingLevel = Number(heading[1]);
+    else if (name === 'title') paragraph.headingLevel = 1;
+
+    styles.set(id, { basedOn: attribute(findChild(style, 'basedOn'), 'val'), run: readRunProps(findChild(style, 'rPr')), paragraph });
+    if (attribute(style, 'type') === 'paragraph' && ['1', 'true'].includes(attribute(style, 'default') || '')) {
+      defaultParagraphStyle = id;
+    }
+  }
+
+  const defaults = descendants(xml, 'docDefaults')[0];
+  const defaultStyle: WordStyle = {
+    run: readRunProps(findChild(findChild(defaults, 'rPrDefault'), 'rPr')),
+    paragraph: readParagraphProps(findChild(findChild(defaults, 'pPrDefault'), 'pPr')),
+  };
+
+  // A style holds only what it changes from the one it's based on
+  const resolved = new Map<string, WordStyle>();
+  const resolve = (id: string | undefined, depth = 0): WordStyle => {
+    const style = id ? styles.get(id) : undefined;
+    if (!style || depth > 20) return { run: {}, paragraph: {} };
+    if (!resolved.has(id!)) {
+      const base = resolve(style.basedOn, depth + 1);
+      resolved.set(id!, { run: merge(base.run, style.run), paragraph: merge(base.paragraph, style.paragraph) });
+    }
+    return resolved.get(id!)!;
+  };
+
+  return { resolve, defaultStyle, defaultParagraphStyle };
+};
+
+const readNumbering = (xml: Document | null) => {
+  const abstracts = new Map<string, ListLevel[]>();
+  for (const abstract of descendants(xml, 'abstractNum')) {
+    const levels: ListLevel[] = [];
+    for (const level of childElements(abstract, 'lvl')) {
+      levels[numberAttribute(level, 'ilvl') || 0] = {
+        format: attribute(findChild(level, 'numFmt'), 'val') || 'decimal',
+        text: attribute(findChild(level, 'lvlText'), 'val') || '',
+        start: numberAttribute(findChild(level, 'start'), 'val') ?? 1,
+        paragraph: readParagraphProps(findChild(level, 'pPr')),
+      };
+    }
+    abstracts.set(attribute(abstract, 'abstractNumId') || '', levels);
+  }
+
+  const lists = new Map<string, ListLevel[]>();
+  for (const num of descendants(xml, 'num')) {
+    const levels = [...(abstracts.get(attribute(findChild(num, 'abstractNumId'), 'val') || '') || [])];
+    for (const override of childElements(num, 'lvlOverride')) {
+      const index = numberAttribute(override, 'ilvl') || 0;
+      const start = numberAttribute(findChild(override, 'startOverride'), 'val');
+      if (levels[index] && start !== undefined) levels[index] = { ...levels[index], start };
+    }
+    lists.set(attribute(num, 'numId') || '', levels);
+  }
+  return lists;
+};
+
+const convertWordDocument = async (zip: JSZip, doc: jsPDF): Promise<OfficeConversion> => {
+  const documentPath = 'word/document.xml';
+  const xml = await readXML(zip, documentPath);
+  const body = descendants(xml, 'body')[0];
+  if (!body) throw new Error('The file is not a Word document');
+
+  const relationships = await readRelationships(zip, documentPath);
+  const { resolve, defaultStyle, defaultParagraphStyle } = readWordStyles(await readXML(zip, 'word/styles.xml'));
+  const lists = readNumbering(await readXML(zip, 'word/numbering.xml'));
+  const counters = new Map<string, number[]>();
+  const headings: HTMLHeading[] = [];
+  const bookmark = (name: string) => `docx-bookmark-${name}`;
+
+  const listMarker = (numId: string, level: number, levels: ListLevel[]): string => {
+    const definition = levels[level];
+    const counts = counters.get(numId) || [];
+    counts[level] = counts[level] === undefined ? definition.start : counts[level] + 1;
+    counts.length = level + 1; // deeper levels start over
+    counters.set(numId, counts);
+
+    // Bullets are usually drawn from symbol fonts, so they're replaced with plain ones
+    if (definition.format === 'bullet') return BULLETS[level % BULLETS.length];
+    if (definition.format === 'none') return '';
+    return definition.text.replace(/%(\d)/g, (_, n: string) => {
+      const index = Number(n) - 1;
+      return formatListNumber(counts[index] ?? levels[index]?.start ?? 1, levels[index]?.format || 'decimal');
+    });
+  };
+
+  const readDrawing = (drawing: Element): Promise<ImageBlock | undefined>[] =>
+    descendants(drawing, 'blip').map((blip) => {
+      const target = relationships.get(relationshipId(blip, 'embed'));
+      const extent = descendants(drawing, 'extent')[0];
+      const width = (numberAttribute(extent, 'cx') || 0) / EMU_PER_POINT;
+      const height = (numberAttribute(extent, 'cy') || 0) / EMU_PER_POINT;
+      return target && !target.external ? loadImage(doc, zip, target.target, width, height) : Promise.resolve(undefined);
+    });
+
+  const convertParagraph = async (paragraph: Element): Promise<LayoutBlock[]> => {
+    const pPr = findChild(paragraph, 'pPr');
+    const style = resolve(attribute(findChild(pPr, 'pStyle'), 'val') || defaultParagraphStyle);
+    const direct = readParagraphProps(pPr);
+    let props = merge(defaultStyle.paragraph, style.paragraph, direct);
+
+    let marker: string | undefined;
+    const levels = props.numId && props.numId !== '0' ? lists.get(props.numId) : undefined;
+    const level = Math.min(props.numLevel || 0, 8);
+    if (levels?.[level]) {
+      props = merge(defaultStyle.paragraph, style.paragraph, levels[level].paragraph, direct);
+      marker = listMarker(props.numId!, level, levels);
+    }
+
+    const baseRun = merge(defaultStyle.run, style.run);
+    const fontSize = baseRun.size || DEFAULT_TEXT_STYLE.fontSize;
+    const headingLevel = props.headingLevel;
+    const runs: TextRun[] = [];
+    const images: Promise<ImageBlock | undefined>[] = [];
+    const nested: Element[] = []; // text boxes, converted after the paragraph
+    const anchors: string[] = [];
+    let pageBreakAfter = false;
+
+    const runProps = (rPr: Element | undefined): RunProps => {
+      const characterStyle = attribute(findChild(rPr, 'rStyle'), 'val');
+      return merge(baseRun, characterStyle ? resolve(characterStyle).run : undefined, readRunProps(rPr));
+    };
+
+    const textStyle = (run: RunProps, link?: TextLink): TextStyle => {
+      let size = run.size || fontSize;
+      // Headings without sizes of their own get the usual progression
+      if (headingLevel && !run.size && !style.run.size) size = fontSize * HEADING_SCALES[headingLevel - 1];
+      return {
+        ...DEFAULT_TEXT_STYLE,
+        fontSize: run.script ? size * 0.7 : size,
+        bold: run.bold ?? !!headingLevel,
+        italic: !!run.italic,
+        monospace: !!run.monospace,
+        underline: !!run.underline,
+        color: run.color || (link ? LINK_COLOR : DEFAULT_TEXT_STYLE.color),
+        link,
+      };
+    };
+
+    const readRunContent = (nodes: Element[]): string => {
+      let text = '';
+      for (const node of nodes) {
+        switch (node.localName) {
+          case 't':
+            text += node.textContent || '';
+            break;
+          case 'tab':
+            text += ' ';
+            break;
+          case 'br':
+            if (attribute(node, 'type') === 'page') pageBreakAfter = true;
+            else text += '\n';
+            break;
+          case 'cr':
+            text += '\n';
+            break;
+          case 'noBreakHyphen':
+            text += '-';
+            break;
+          case 'drawing':
+          case 'pict':
+            images.push(...readDrawing(node));
+            for (const imageData of descendants(node, 'imagedata')) {
+              const target = relationships.get(relationshipId(imageData));
+              if (target && !target.external) images.push(loadImage(doc, zip, target.target));
+            }
+            nested.push(...descendants(node, 'txbxContent'));
+            break;
+          case 'AlternateContent':
+            // The first choice is the modern markup; the fallback repeats it for older readers
+            text += readRunContent(childElements(childElements(node)[0]));
+            break;
+        }
+      }
+      return text;
+    };
+
+    const collectRuns = (element: Element | undefined, link?: TextLink) => {
+      for (const node of childElements(element)) {
+        switch (node.localName) {
+          case 'r': {
+            const run = runProps(findChild(node, 'rPr'));
+            const text = readRunContent(childElements(node)).replace(/[^\S\n]+/g, ' ');
+            if (text && !run.hidden) runs.push({ text: run.caps ? text.toUpperCase() : text, style: textStyle(run, link) });
+            break;
+          }
+          case 'hyperlink': {
+            const target = relationships.get(relationshipId(node));
+            const anchor = attribute(node, 'anchor');
+            if (target?.external) collectRuns(node, { type: 'url', url: target.target });
+            else if (anchor) collectRuns(node, { type: 'anchor', anchor: bookmark(anchor) });
+            else collectRuns(node, link);
+            break;
+          }
+          case 'bookmarkStart':
+            anchors.push(bookmark(attribute(node, 'name') || ''));
+            break;
+          case 'sdt':
+            collectRuns(findChild(node, 'sdtContent'), link);
+            break;
+          case 'ins':
+          case 'smartTag':
+          case 'fldSimple':
+          case 'customXml':
+            collectRuns(node, link);
+            break;
+        }
+      }
+    };
+    collectRuns(paragraph);
+
+    const blocks: LayoutBlock[] = [];
+    if (props.pageBreakBefore) blocks.push({ type: 'page-break' });
+
+    const text = runs.map((run) => run.text).join('').trim();
+    const loaded = (await Promise.all(images)).filter((image): image is ImageBlock => !!image);
+    if (headingLevel && text) {
+      const anchor = `docx-heading-${headings.length}`;
+      anchors.push(anchor);
+      headings.push({ level: headingLevel, title: text.replace(/\s+/g, ' '), anchor });
+    }
+
+    if (text || marker || !loaded.length) {
+      const line = props.line;
+      const indent = props.indent ?? (marker !== undefined ? LIST_INDENT * (level + 1) : 0);
+      const block: ParagraphBlock = {
+        type: 'paragraph',
+        // An empty paragraph still takes up a line, which documents use for spacing
+        runs: runs.length ? runs : [{ text: ' ', style: textStyle(baseRun) }],
+        align: props.align,
+        lineHeight: !line ? undefined : line.rule === 'auto' ? (line.value / 240) * 1.2 : line.value / TWIPS_PER_POINT / fontSize,
+        indent,
+        // Hanging indents stop at the margin
+        firstLineIndent: marker !== undefined ? 0 : Math.max(props.firstLineIndent || 0, -indent),
+        marker: marker ? { text: marker, style: runs[0]?.style || textStyle(baseRun) } : undefined,
+        spaceBefore: props.spaceBefore,
+        spaceAfter: props.spaceAfter,
+        keepWithNext: props.keepWithNext || !!headingLevel,
+        background: props.background,
+        anchors,
+      };
+      blocks.push(block);
+    } else {
+      loaded[0].anchors = anchors;
+    }
+
+    blocks.push(...loaded);
+    for (const textBox of nested) blocks.push(...(await convertBody(textBox)));
+    if (pageBreakAfter) blocks.push({ type: 'page-break' });
+    return blocks;
+  };
+
+  // Table cells hold paragraphs only, so nested tables are flattened and pictures left out
+  const toCellParagraphs = (blocks: LayoutBlock[]): ParagraphBlock[] =>
+    blocks.flatMap((block) => {
+      if (block.type === 'paragraph') return [{ ...block, background: undefined }];
+      if (block.type === 'table') return block.rows.flat().flatMap((cell) => cell.blocks);
+      return [];
+    });
+
+  const convertTable = async (table: Element): Promise<LayoutBlock[]> => {
+    const rows: TableCell[][] = [];
+    let headerRows = 0;
+    for (const row of childElements(table, 'tr')) {
+      const header = !!toggle(findChild(findChild(row, 'trPr'), 'tblHeader'));
+      if (header && headerRows === rows.length) headerRows++;
+
+      const cells: TableCell[] = [];
+      for (const cell of childElements(row, 'tc')) {
+        const tcPr = findChild(cell, 'tcPr');
+        const verticalMerge = findChild(tcPr, 'vMerge');
+        // Merged cells keep their content in the first of them
+        const continued = verticalMerge && attribute(verticalMerge, 'val') !== 'restart';
+        cells.push({ blocks: continued ? [] : toCellParagraphs(await convertBody(cell)), header });
+        const span = numberAttribute(findChild(tcPr, 'gridSpan'), 'val') || 1;
+        for (let i = 1; i < span; i++) cells.push({ blocks: [], header });
+      }
+      rows.push(cells);
+    }
+    if (!rows.length) return [];
+    return [{ type: 'table', rows, headerRows: headerRows < rows.length ? headerRows : 0, spaceBefore: 6, spaceAfter: 6 }];
+  };
+
+  const convertBody = async (container: Element | undefined): Promise<LayoutBlock[]> => {
+    const blocks: LayoutBlock[] = [];
+    for (const element of childElements(container)) {
+      if (element.localName === 'p') blocks.push(...(await convertParagraph(element)));
+      else if (element.localName === 'tbl') blocks.push(...(await convertTable(element)));
+      else if (element.localName === 'sdt') blocks.push(...(await convertBody(findChild(element, 'sdtContent'))));
+      else if (element.localName === 'customXml') blocks.push(...(await convertBody(element)));
+    }
+    return blocks;
+  };
+
+  return { blocks: await convertBody(body), headings };
+};
+
+// Excel counts days from 1900 (or 1904 on old Macs); fractions are the time of day
+const formatExcelDate = (serial: number, date1904: boolean) => {
+  const date = new Date(Math.round((serial - (date1904 ? 24107 : 25569)) * 86400000));
+  const [day, time] = date.toISOString().split('T');
+  if (serial < 1) return time.slice(0, 5);
+  return serial % 1 ? `${day} ${time.slice(0, 5)}` : day;
+};
+
+const formatExcelNumber = (value: number, format: string) => {
+  // Only the format for positive numbers, without literal text, colors or conditions
+  const section = format.split(';')[0].replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+  const percent = section.includes('%');
+  const number = percent ? value * 100 : value;
+  const decimals = section.match(/\.([0#]+)/)?.[1].length;
+  const grouped = /[#0],[#0]/.test(section);
+  const text =
+    decimals !== undefined || grouped
+      ? number.toLocaleString('en-US', {
+          minimumFractionDigits: decimals || 0,
+          maximumFractionDigits: decimals || 0,
+          useGrouping: grouped,
+        })
+      : String(Number(number.toPrecision(15)));
+  return percent ? `${text}%` : text;
+};
+
+const isDateFormat = (id: number, format: string | undefined) =>
+  DATE_FORMAT_IDS.has(id) || (!!format && /[dmyhs]/i.test(format.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '').replace(/general/i, '')));
+
+const columnIndex = (reference: string) => {
+  let index = 0;
+  for (const letter of reference.replace(/\d+$/, '').toUpperCase()) index = index * 26 + letter.charCodeAt(0) - 64;
+  return index - 1;
+};
+
+const convertWorkbook = async (zip: JSZip): Promise<OfficeConversion> => {
+  const workbookPath = 'xl/workbook.xml';
+  const workbook = await readXML(zip, workbookPath);
+  if (!workbook) throw new Error('The file is not an Excel workbook');
+  const relationships = await readRelationships(zip, workbookPath);
+  const date1904 = ['1', 'true'].includes(attribute(descendants(workbook, 'workbookPr')[0], 'date1904') || '');
+
+  // Phonetic guides repeat the text in another script
+  const sharedStrings = descendants(await readXML(zip, 'xl/sharedStrings.xml'), 'si').map((item) =>
+    descendants(item, 't')
+      .filter((t) => t.parentElement?.localName !== 'rPh')
+      .map((t) => t.textContent)
+      .join('')
+  );
+
+  const styles = await readXML(zip, 'xl/styles.xml');
+  const customFormats = new Map(
+    descendants(styles, 'numFmt').map((format) => [numberAttribute(format, 'numFmtId'), attribute(format, 'formatCode')])
+  );
+  const cellFormats = childElements(descendants(styles, 'cellXfs')[0], 'xf').map((xf) => {
+    const id = numberAttribute(xf, 'numFmtId') || 0;
+    const code = customFormats.get(id) ?? BUILT_IN_FORMATS[id];
+    return { code, date: isDateFormat(id, customFormats.get(id)) };
+  });
+
+  const readCell = (cell: Element): { text: string; numeric: boolean } => {
+    const value = findChild(cell, 'v')?.textContent ?? '';
+    switch (cell.getAttribute('t')) {
+      case 's':
+        return { text: sharedStrings[Number(value)] ?? '', numeric: false };
+      case 'inlineStr':
+        return { text: descendants(cell, 't').map((t) => t.textContent).join(''), numeric: false };
+      case 'b':
+        return { text: value === '1' ? 'TRUE' : 'FALSE', numeric: false };
+      case 'str':
+      case 'e':
+        return { text: value, numeric: false };
+    }
+    const number = parseFloat(value);
+    if (!Number.isFinite(number)) return { text: value, numeric: false };
+    const format = cellFormats[Number(cell.getAttribute('s') || 0)];
+    if (format?.date) return { text: formatExcelDate(number, date1904), numeric: true };
+    return { text: format?.code ? formatExcelNumber(number, format.code) : String(Number(number.toPrecision(15))), numeric: true };
+  };
+
+  const blocks: LayoutBlock[] = [];
+  const headings: HTMLHeading[] = [];
+  const style = { ...DEFAULT_TEXT_STYLE, fontSize: SHEET_FONT_SIZE };
+
+  for (const sheet of descendants(workbook, 'sheet')) {
+    if (attribute(sheet, 'state') === 'hidden' || attribute(sheet, 'state') === 'veryHidden') continue;
+    const target = relationships.get(relationshipId(sheet));
+    const xml = target && (await readXML(zip, target.target));
+    if (!xml) continue;
+
+    const rows = descendants(xml, 'row')
+      .map((row) => {
+        const cells: { text: string; numeric: boolean }[] = [];
+        childElements(row, 'c').forEach((cell, i) => {
+          const reference = cell.getAttribute('r');
+          cells[reference ? columnIndex(reference) : i] = readCell(cell);
+        });
+        return cells;
+      })
+      .filter((cells) => cells.some((cell) => cell?.text.trim()));
+    if (!rows.length) continue;
+
+    // Columns before the first one with content are left out
+    let first = Infinity;
+    let last = -1;
+    for (const cells of rows) {
+      cells.forEach((cell, i) => {
+        if (!cell?.text.trim()) return;
+        first = Math.min(first, i);
+        last = Math.max(last, i);
+      });
+    }
+    const header = rows.length > 1 && rows[0].every((cell) => !cell || !cell.numeric);
+
+    const table: TableBlock = {
+      type: 'table',
+      headerRows: header ? 1 : 0,
+      rows: rows.map((cells, rowIndex) =>
+        Array.from({ length: last - first + 1 }, (_, i): TableCell => {
+          const cell = cells[first + i];
+          const isHeader = header && rowIndex === 0;
+          const runs = cell?.text.trim() ? [{ text: cell.text.trim(), style: isHeader ? { ...style, bold: true } : style }] : [];
+          return { header: isHeader, blocks: [{ type: 'paragraph', runs, align: cell?.numeric ? 'right' : undefined, lineHeight: 1.25 }] };
+        })
+      ),
+    };
+
+    const name = attribute(sheet, 'name') || `Sheet ${headings.length + 1}`;
+    const anchor = `xlsx-sheet-${headings.length}`;
+    if (blocks.length) blocks.push({ type: 'page-break' });
+    blocks.push(
+      {
+        type: 'paragraph',
+        runs: [{ text: name, style: { ...DEFAULT_TEXT_STYLE, fontSize: 14, bold: true } }],
+        spaceAfter: 8,
+        keepWithNext: true,
+        anchors: [anchor],
+      },
+      table
+    );
+    headings.push({ level: 1, title: name, anchor });
+  }
+
+  if (!blocks.length) throw new Error('The workbook has no cells with content');
+  return { blocks, headings };
+};
+
+const convertPresentation = async (zip: JSZip, doc: jsPDF): Promise<OfficeConversion> => {
+  const presentationPath = 'ppt/presentation.xml';
+  const presentation = await readXML(zip, presentationPath);
+  if (!presentation) throw new Error('The file is not a PowerPoint presentation');
+  const relationships = await readRelationships(zip, presentationPath);
+
+  const blocks: LayoutBlock[] = [];
+  const headings: HTMLHeading[] = [];
+  const slides = descendants(presentation, 'sldId')
+    .map((slide) => relationships.get(relationshipId(slide)))
+    .filter((target): target is Relationship => !!target && !target.external);
+
+  for (const [index, { target: slidePath }] of slides.entries()) {
+    const slide = await readXML(zip, slidePath);
+    if (!slide || attribute(slide.documentElement, 'show') === '0') continue;
+    const slideRelationships = await readRelationships(zip, slidePath);
+
+    const convertTextBody = (body: Element | undefined, title: boolean, bulleted: boolean): ParagraphBlock[] => {
+      const paragraphs: ParagraphBlock[] = [];
+      let number = 0;
+      for (const paragraph of childElements(body, 'p')) {
+        const pPr = findChild(paragraph, 'pPr');
+        const level = numberAttribute(pPr, 'lvl') || 0;
+        const runs: TextRun[] = [];
+        for (const node of childElements(paragraph)) {
+          if (node.localName === 'br') {
+            runs.push({ text: '\n', style: { ...DEFAULT_TEXT_STYLE, fontSize: SLIDE_TEXT_SIZE } });
+            continue;
+          }
+          if (node.localName !== 'r' && node.localName !== 'fld') continue;
+          const rPr = findChild(node, 'rPr');
+          const link = slideRelationships.get(relationshipId(findChild(rPr, 'hlinkClick')));
+          runs.push({
+            text: (findChild(node, 't')?.textContent || '').replace(/\s+/g, ' '),
+            style: {
+              ...DEFAULT_TEXT_STYLE,
+              fontSize: title ? SLIDE_TITLE_SIZE : SLIDE_TEXT_SIZE,
+              bold: title || attribute(rPr, 'b') === '1',
+              italic: attribute(rPr, 'i') === '1',
+              underline: !!link?.external || (!!attribute(rPr, 'u') && attribute(rPr, 'u') !== 'none'),
+              color: link?.external ? LINK_COLOR : DEFAULT_TEXT_STYLE.color,
+              link: link?.external ? { type: 'url', url: link.target } : undefined,
+            },
+          });
+        }
+        if (!runs.some((run) => run.text.trim())) continue;
+
+        let marker: string | undefined;
+        if (!findChild(pPr, 'buNone')) {
+          const character = attribute(findChild(pPr, 'buChar'), 'char');
+          if (findChild(pPr, 'buAutoNum')) marker = `${++number}.`;
+          else if (character || bulleted) marker = BULLETS[level % BULLETS.length];
+        }
+        paragraphs.push({
+          type: 'paragraph',
+          runs,
+          marker: marker ? { text: marker, style: runs[0].style } : undefined,
+          indent: marker ? LIST_INDENT * (level + 1) : LIST_INDENT * level,
+          spaceAfter: title ? 10 : 4,
+          keepWithNext: title,
+          align: ALIGNMENTS[attribute(pPr, 'algn') || ''],
+        });
+      }
+      return paragraphs;
+    };
+
+    const convertTable = (table: Element): TableBlock => {
+      const firstRowHeader = attribute(findChild(table, 'tblPr'), 'firstRow') === '1';
+      const rows = childElements(table, 'tr').map((row, rowIndex) =>
+        childElements(row, 'tc').map((cell): TableCell => {
+          const merged = attribute(cell, 'hMerge') === '1' || attribute(cell, 'vMerge') === '1';
+          const header = firstRowHeader && rowIndex === 0;
+          const paragraphs = merged ? [] : convertTextBody(findChild(cell, 'txBody'), false, false);
+          if (header) {
+            for (const paragraph of paragraphs) {
+              paragraph.runs = paragraph.runs.map((run) => ({ ...run, style: { ...run.style, bold: true } }));
+            }
+          }
+          return { header, blocks: paragraphs };
+        })
+      );
+      return { type: 'table', rows, headerRows: firstRowHeader && rows.length > 1 ? 1 : 0, spaceBefore: 6, spaceAfter: 6 };
+    };
+
+    // Shapes are stored in drawing order, so they're read top to bottom, then left to right
+    const shapes: { x: number; y: number; blocks: Promise<LayoutBlock[]>; title?: string }[] = [];
+    const collectShapes = (tree: Element | undefined) => {
+      for (const shape of childElements(tree)) {
+        const offset = descendants(shape, 'off')[0];
+        const placeholder = descendants(findChild(shape, 'nvSpPr') || findChild(shape, 'nvPicPr') || findChild(shape, 'nvGraphicFramePr'), 'ph')[0];
+        const type = attribute(placeholder, 'type');
+        const isTitle = type === 'title' || type === 'ctrTitle';
+        const position = { x: numberAttribute(offset, 'x') || 0, y: isTitle ? -1 : numberAttribute(offset, 'y') || 0 };
+
+        if (shape.localName === 'sp') {
+          const bulleted = !!placeholder && (!type || type === 'body' || type === 'obj');
+          const paragraphs = convertTextBody(findChild(shape, 'txBody'), isTitle, bulleted);
+          const title = isTitle ? paragraphs.map((p) => p.runs.map((r) => r.text).join('')).join(' ').trim() : undefined;
+          shapes.push({ ...position, blocks: Promise.resolve(paragraphs), title });
+        } else if (shape.localName === 'pic') {
+          const target = slideRelationships.get(relationshipId(descendants(shape, 'blip')[0], 'embed'));
+          const extent = descendants(findChild(shape, 'spPr'), 'ext')[0];
+          const width = (numberAttribute(extent, 'cx') || 0) / EMU_PER_POINT;
+          const height = (numberAttribute(extent, 'cy') || 0) / EMU_PER_POINT;
+          const image = target && !target.external ? loadImage(doc, zip, target.target, width, height) : undefined;
+          shapes.push({ ...position, blocks: Promise.resolve(image).then((block) => (block ? [block] : [])) });
+        } else if (shape.localName === 'graphicFrame') {
+          const table = descendants(shape, 'tbl')[0];
+          if (table) shapes.push({ ...position, blocks: Promise.resolve([convertTable(table)]) });
+        } else if (shape.localName === 'grpSp') {
+          collectShapes(shape);
+        }
+      }
+    };
+    collectShapes(descendants(slide, 'spTree')[0]);
+    shapes.sort((a, b) => a.y - b.y || a.x - b.x);
+
+    const slideNumber = index + 1;
+    const title = shapes.find((shape) => shape.title)?.title || `Slide ${slideNumber}`;
+    const anchor = `pptx-slide-${slideNumber}`;
+    const content = (await Promise.all(shapes.map((shape) => shape.blocks))).flat();
+    if (!shapes.some((shape) => shape.title)) {
+      content.unshift({
+        type: 'paragraph',
+        runs: [{ text: title, style: { ...DEFAULT_TEXT_STYLE, fontSize: SLIDE_TITLE_SIZE, bold: true } }],
+        spaceAfter: 10,
+        keepWithNext: true,
+      });
+    }
+    if (blocks.length) blocks.push({ type: 'page-break' });
+    // The title comes first
+    (content[0] as ParagraphBlock).anchors = [anchor];
+    blocks.push(...content);
+    headings.push({ level: 1, title, anchor });
+  }
+
+  if (!blocks.length) throw new Error('The presentation has no slides');
+  return { blocks, headings };
+};
+
+const CONVERTERS: Record<OfficeFormat, (zip: JSZip, doc: jsPDF) => Promise<OfficeConversion>> = {
+  docx: convertWordDocument,
+  xlsx: convertWorkbook,
+  pptx: convertPresentation,
+};
+
+export const convertOfficeToPDF = async (file: File, options: DocumentPageOptions): Promise<Blob> => {
+  const extension = file.name.match(/\.(docx|xlsx|pptx)$/i)?.[1].toLowerCase() as OfficeFormat | undefined;
+  if (!extension) throw new Error('Only .docx, .xlsx and .pptx files can be converted. Save older files in the newer format first.');
+
+  const zip = await JSZip.loadAsync(await file.arrayBuffer()).catch(() => {
+    throw new Error(`"${file.name}" could not be opened. Password-protected files are not supported.`);
+  });
+
+  const title = descendants(await readXML(zip, 'docProps/core.xml'), 'title')[0]?.textContent?.trim() || file.name.replace(/\.\w+$/, '');
+  const doc = createDocumentPDF(options, title);
+  const { blocks, headings } = await CONVERTERS[extension](zip, doc);
+  if (!blocks.length) throw new Error('The document has no content to convert');
+
+  return renderDocumentPDF(doc, blocks, toOutline(headings), options, title);
+};
@@ -0,0 +1,108 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFObject, PDFRef, PDFStream } from 'pdf-lib';
+
+/**
+ * Bytes taken up by each kind of content in a PDF. Sizes are measured per object,
+ * so anything pdf-lib can't attribute (xref tables, object stream overhead) lands in "other".
+ * Objects packed into object streams are compressed together, so their share is estimated.
+ */
+export interface PDFSizeBreakdown {
+  images: number;
+  fonts: number;
+  contentStreams: number;
+  metadata: number;
+  other: number;
+}
+
+type SizeCategory = Exclude<keyof PDFSizeBreakdown, 'other'>;
+
+// Font programs and the lookup tables that travel with them
+const FONT_REFERENCE_KEYS = ['FontFile', 'FontFile2', 'FontFile3', 'ToUnicode', 'CIDToGIDMap', 'CIDSet', 'DescendantFonts'];
+
+const getDict = (object: PDFObject): PDFDict | undefined => {
+  if (object instanceof PDFStream) return object.dict;
+  if (object instanceof PDFDict) return object;
+  return undefined;
+};
+
+// What an object is by its own dictionary, regardless of who references it
+const classifyObject = (dict: PDFDict): SizeCategory | undefined => {
+  const type = dict.get(PDFName.of('Type'));
+  const subtype = dict.get(PDFName.of('Subtype'));
+
+  if (subtype === PDFName.of('Image')) return 'images';
+  if (subtype === PDFName.of('Form')) return 'contentStreams';
+  if (type === PDFName.of('Font') || type === PDFName.of('FontDescriptor')) return 'fonts';
+  if (type === PDFName.of('Metadata')) return 'metadata';
+  return undefined;
+};
+
+export const analyzePDFSize = async (data: ArrayBuffer | Uint8Array): Promise<PDFSizeBreakdown> => {
+  const pdfDoc = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+  const { context } = pdfDoc;
+  const objects = context.enumerateIndirectObjects();
+  const categories = new Map<PDFRef, SizeCategory>();
+
+  // Objects that don't say what they are get the category of whoever references them
+  const claim = (value: PDFObject | undefined, category: SizeCategory) => {
+    if (value instanceof PDFRef) {
+      if (!categories.has(value)) categories.set(value, category);
+      return;
+    }
+    if (value instanceof PDFArray) {
+      for (let i = 0; i < value.size(); i++) claim(value.get(i), category);
+    } else if (value instanceof PDFDict) {
+      for (const entry of value.values()) claim(entry, category);
+    }
+  };
+
+  for (const [ref, object] of objects) {
+    const dict = getDict(object);
+    const category = dict && classifyObject(dict);
+    if (category) categories.set(ref, category);
+  }
+
+  for (const [, object] of objects) {
+    const dict = getDict(object);
+    if (!dict) continue;
+
+    const type = dict.get(PDFName.of('Type'));
+    if (type === PDFName.of('Page')) {
+      const contents = dict.get(PDFName.of('Contents'));
+      claim(contents, 'contentStreams');
+      // An indirect Contents array holds the stream refs
+      if (contents instanceof PDFRef) claim(context.lookup(contents), 'contentStreams');
+    } else if (type === PDFName.of('Font') || type === PDFName.of('FontDescriptor')) {
+      for (const key of FONT_REFERENCE_KEYS) claim(dict.get(PDFName.of(key)), 'fonts');
+      // Type 3 glyphs are small content streams of their own
+      const charProcs = dict.get(PDFName.of('CharProcs'));
+      claim(charProcs, 'fonts');
+      if (charProcs instanceof PDFRef) claim(context.lookup(charProcs), 'fonts');
+    }
+  }
+
+  claim(context.trailerInfo.Info, 'metadata');
+
+  // Streams are kept as stored, but other objects are measured uncompressed
+  let streamBytes = 0;
+  let objectBytes = 0;
+  for (const [, object] of objects) {
+    if (object instanceof PDFStream) streamBytes += object.sizeInBytes();
+    else objectBytes += object.sizeInBytes();
+  }
+  const available = Math.max(0, data.byteLength - streamBytes);
+  const objectScale = objectBytes > available ? available / objectBytes : 1;
+
+  const breakdown: PDFSizeBreakdown = { images: 0, fonts: 0, contentStreams: 0, metadata: 0, other: 0 };
+  let measured = 0;
+
+  for (const [ref, object] of objects) {
+    const category = categories.get(ref);
+    if (!category) continue;
+    const size = Math.round(object.sizeInBytes() * (object instanceof PDFStream ? 1 : objectScale));
+    breakdown[category] += size;
+    measured += size;
+  }
+
+  breakdown.other = Math.max(0, data.byteLength - measured);
+  return breakdown;
+};
@@ -0,0 +1,342 @@
+import { PDFArray, PDFContext, PDFDict, PDFDocument, PDFName, PDFNumber, PDFRawStream, PDFRef, PDFStream } from 'pdf-lib';
+import { createCanvas } from './canvas-utils';
+import {
+  ContentOperand,
+  ContentOperation,
+  formatNumber,
+  getDecodedStreamBytes,
+  parseContentStream,
+  serializeContentStream,
+} from './content-stream';
+import { decodeImage } from './pdf-images';
+import { deflate } from './file-utils';
+import type { ProcessingOptions } from './pdf-utils';
+
+export type ColorMode = 'color' | 'grayscale' | 'monochrome';
+
+export interface ColorConversionResult {
+  imagesConverted: number;
+  imagesSkipped: number; // encodings we can't decode, e.g. CMYK JPEGs or JPEG 2000
+}
+
+// How colors set in the current color space are converted; 'keep' leaves them alone
+type ColorModel = 'gray' | 'rgb' | 'cmyk' | 'keep';
+
+interface ColorState {
+  fill: ColorModel;
+  stroke: ColorModel;
+  saved: { fill: ColorModel; stroke: ColorModel }[]; // q/Q stack
+}
+
+const MONOCHROME_THRESHOLD = 0.5;
+
+const rgbToGray = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+const cmykToGray = (c: number, m: number, y: number, k: number) =>
+  rgbToGray((1 - c) * (1 - k), (1 - m) * (1 - k), (1 - y) * (1 - k));
+
+const toGray = (model: ColorModel, values: number[]): number | undefined => {
+  if (model === 'gray' && values.length === 1) return values[0];
+  if (model === 'rgb' && values.length === 3) return rgbToGray(values[0], values[1], values[2]);
+  if (model === 'cmyk' && values.length === 4) return cmykToGray(values[0], values[1], values[2], values[3]);
+  return undefined;
+};
+
+const getColorModel = (context: PDFContext, colorSpace: unknown): ColorModel => {
+  const value = context.lookup(colorSpace as PDFRef);
+
+  const family = value instanceof PDFName
+    ? value.decodeText()
+    : value instanceof PDFArray && value.size() > 0 && context.lookup(value.get(0)) instanceof PDFName
+    ? (context.lookup(value.get(0)) as PDFName).decodeText()
+    : undefined;
+
+  switch (family) {
+    case 'DeviceGray':
+    case 'CalGray':
+      return 'gray';
+    case 'DeviceRGB':
+    case 'CalRGB':
+      return 'rgb';
+    case 'DeviceCMYK':
+      return 'cmyk';
+    case 'ICCBased': {
+      const profile = context.lookup((value as PDFArray).get(1));
+      const n = profile instanceof PDFStream ? context.lookup(profile.dict.get(PDFName.of('N'))) : undefined;
+      const components = n instanceof PDFNumber ? n.asNumber() : 0;
+      return components === 1 ? 'gray' : components === 3 ? 'rgb' : components === 4 ? 'cmyk' : 'keep';
+    }
+    default:
+      // Patterns, spot colors and Lab are left as they are
+      return 'keep';
+  }
+};
+
+// Color space operands are either device names or keys into the resource dictionary
+const resolveColorSpaceOperand = (context: PDFContext, resources: PDFDict | undefined, name: string): ColorModel => {
+  if (['DeviceGray', 'DeviceRGB', 'DeviceCMYK'].includes(name)) return getColorModel(context, PDFName.of(name));
+
+  const colorSpaces = resources && context.lookup(resources.get(PDFName.of('ColorSpace')));
+  if (!(colorSpaces instanceof PDFDict)) return 'keep';
+  return getColorModel(context, colorSpaces.get(PDFName.of(name)));
+};
+
+const numberOperand = (value: number): ContentOperand => ({ type: 'number', raw: formatNumber(value), value });
+
+/**
+ * Rewrite fill and stroke colors to gray (or pure black and white). Colors in
+ * device, calibrated and ICC spaces are converted; patterns and spot colors can't be.
+ */
+const convertOperations = (
+  context: PDFContext,
+  operations: ContentOperation[],
+  resources: PDFDict | undefined,
+  mode: ColorMode,
+  state: ColorState,
+  converted: Set<PDFRef>
+): ContentOperation[] => {
+  const grayOperation = (gray: number, operator: string): ContentOperation => {
+    const value = mode === 'monochrome' ? (gray >= MONOCHROME_THRESHOLD ? 1 : 0) : Math.max(0, Math.min(1, gray));
+    return { operator, operands: [numberOperand(value)] };
+  };
+
+  return operations.map((op) => {
+    const { operator, operands } = op;
+    const values = operands.map((operand) => Number(operand.value));
+    const numeric = operands.every((operand) => operand.type === 'number');
+    const isStroke = operator === operator.toUpperCase();
+
+    switch (operator) {
+      case 'q':
+        state.saved.push({ fill: state.fill, stroke: state.stroke });
+        return op;
+      case 'Q':
+        Object.assign(state, state.saved.pop() || { fill: 'gray', stroke: 'gray' });
+        return op;
+      case 'g':
+      case 'G':
+        if (isStroke) state.stroke = 'gray';
+        else state.fill = 'gray';
+        return numeric && operands.length === 1 && mode === 'monochrome' ? grayOperation(values[0], operator) : op;
+      case 'rg':
+      case 'RG':
+      case 'k':
+      case 'K': {
+        const model = operator.toLowerCase() === 'rg' ? 'rgb' : 'cmyk';
+        const gray = numeric ? toGray(model, values) : undefined;
+        if (gray === undefined) return op;
+        if (isStroke) state.stroke = 'gray';
+        else state.fill = 'gray';
+        return grayOperation(gray, isStroke ? 'G' : 'g');
+      }
+      case 'cs':
+      case 'CS': {
+        const name = operands[0]?.type === 'name' ? String(operands[0].value) : '';
+        const model = resolveColorSpaceOperand(context, resources, name);
+        if (isStroke) state.stroke = model;
+        else state.fill = model;
+        // Switching to gray keeps the default black color the original space started with
+        return model === 'keep'
+          ? op
+          : { operator, operands: [{ type: 'name', raw: '/DeviceGray', value: 'DeviceGray' }] };
+      }
+      case 'sc':
+      case 'scn':
+      case 'SC':
+      case 'SCN': {
+        const model = isStroke ? state.stroke : state.fill;
+        const gray = numeric ? toGray(model, values) : undefined;
+        return gray === undefined ? op : grayOperation(gray, operator);
+      }
+      case 'Do': {
+        const name = operands[0]?.type === 'name' ? String(operands[0].value) : '';
+        const xObjects = resources && context.lookup(resources.get(PDFName.of('XObject')));
+        const ref = xObjects instanceof PDFDict ? xObjects.get(PDFName.of(name)) : undefined;
+        if (!(ref instanceof PDFRef) || converted.has(ref)) return op;
+        const form = context.lookup(ref);
+        if (!(form instanceof PDFStream) || form.dict.get(PDFName.of('Subtype')) !== PDFName.of('Form')) return op;
+
+        // A form starts with the colors in effect where it's drawn; forms without resources use their parent's
+        const formResources = context.lookup(form.dict.get(PDFName.of('Resources')));
+        convertContentStreams(
+          context,
+          [ref],
+          formResources instanceof PDFDict ? formResources : resources,
+          mode,
+          converted,
+          { fill: state.fill, stroke: state.stroke }
+        );
+        return op;
+      }
+      default:
+        return op;
+    }
+  });
+};
+
+const replaceStreamContents = (context: PDFContext, ref: PDFRef, stream: PDFStream, contents: Uint8Array) => {
+  const replacement = context.flateStream(contents);
+  for (const [key, value] of stream.dict.entries()) {
+    if (!['Filter', 'DecodeParms', 'Length'].includes(key.decodeText())) replacement.dict.set(key, value);
+  }
+  context.assign(ref, replacement);
+};
+
+/**
+ * Content streams split across an array share one graphics state, so they're converted in sequence.
+ * Page contents start in DeviceGray; a form drawn by Do starts in the color spaces of its caller.
+ */
+const convertContentStreams = (
+  context: PDFContext,
+  refs: PDFRef[],
+  resources: PDFDict | undefined,
+  mode: ColorMode,
+  converted: Set<PDFRef>,
+  initial: { fill: ColorModel; stroke: ColorModel } = { fill: 'gray', stroke: 'gray' }
+) => {
+  const state: ColorState = { ...initial, saved: [] };
+
+  for (const ref of refs) {
+    const stream = context.lookup(ref);
+    if (!(stream instanceof PDFStream)) continue;
+    const bytes = getDecodedStreamBytes(stream);
+    if (!bytes) continue;
+
+    // Marked before converting, so a form that draws itself isn't followed forever
+    const alreadyConverted = converted.has(ref);
+    converted.add(ref);
+    const operations = convertOperations(context, parseContentStream(bytes), resources, mode, state, converted);
+    if (!alreadyConverted) replaceStreamContents(context, ref, stream, serializeContentStream(operations));
+  }
+};
+
+// One byte per pixel, or one bit per pixel packed into rows for monochrome
+const packGraySamples = (rgba: Uint8ClampedArray, width: number, height: number, mode: ColorMode): Uint8Array => {
+  if (mode !== 'monochrome') {
+    const samples = new Uint8Array(width * height);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.round(rgbToGray(rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2]));
+    }
+    return samples;
+  }
+
+  const rowLength = Math.ceil(width / 8);
+  const samples = new Uint8Array(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (rgbToGray(rgba[i], rgba[i + 1], rgba[i + 2]) >= MONOCHROME_THRESHOLD * 255) {
+        samples[y * rowLength + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  return samples;
+};
+
+const convertImage = async (
+  context: PDFContext,
+  ref: PDFRef,
+  stream: PDFRawStream,
+  mode: ColorMode
+): Promise<boolean> => {
+  const width = context.lookup(stream.dict.get(PDFName.of('Width')));
+  const height = context.lookup(stream.dict.get(PDFName.of('Height')));
+  if (!(width instanceof PDFNumber) || !(height instanceof PDFNumber)) return false;
+
+  const w = width.asNumber();
+  const h = height.asNumber();
+  const source = await decodeImage(context, stream, w, h);
+  if (!source) return false;
+
+  const { context: ctx } = createCanvas(w, h);
+  ctx.drawImage(source, 0, 0);
+  if ('close' in source) source.close();
+  const rgba = ctx.getImageData(0, 0, w, h).data;
+
+  // Canvases only encode three-channel JPEGs, so photos become Flate too and the output has no RGB left
+  const replacement = context.stream(await deflate(packGraySamples(rgba, w, h, mode)), {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: w,
+    Height: h,
+    ColorSpace: 'DeviceGray',
+    BitsPerComponent: mode === 'monochrome' ? 1 : 8,
+    Filter: 'FlateDecode',
+  });
+
+  for (const key of ['SMask', 'Intent', 'Interpolate']) {
+    const value = stream.dict.get(PDFName.of(key));
+    if (value) replacement.dict.set(PDFName.of(key), value);
+  }
+  context.assign(ref, replacement);
+  return true;
+};
+
+const getContentRefs = (context: PDFContext, contents: unknown): PDFRef[] => {
+  if (contents instanceof PDFRef) {
+    const value = context.lookup(contents);
+    return value instanceof PDFArray ? getContentRefs(context, value) : [contents];
+  }
+  if (contents instanceof PDFArray) {
+    return contents.asArray().filter((entry): entry is PDFRef => entry instanceof PDFRef);
+  }
+  return [];
+};
+
+/**
+ * Convert a document to grayscale or black and white in place: vector fill and
+ * stroke colors in every page, form XObject and appearance stream, then every image.
+ * Shadings, patterns and spot colors keep their color.
+ */
+export const convertPDFColors = async (
+  pdfDoc: PDFDocument,
+  mode: ColorMode,
+  { signal, onProgress }: ProcessingOptions = {}
+): Promise<ColorConversionResult> => {
+  const result: ColorConversionResult = { imagesConverted: 0, imagesSkipped: 0 };
+  if (mode === 'color') return result;
+
+  const { context } = pdfDoc;
+  const converted = new Set<PDFRef>();
+
+  for (const page of pdfDoc.getPages()) {
+    signal?.throwIfAborted();
+    convertContentStreams(context, getContentRefs(context, page.node.get(PDFName.of('Contents'))), page.node.Resources(), mode, converted);
+  }
+
+  const images: [PDFRef, PDFRawStream][] = [];
+  const masks = new Set<PDFRef>();
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFStream)) continue;
+    const subtype = object.dict.get(PDFName.of('Subtype'));
+
+    if (subtype === PDFName.of('Form') && !converted.has(ref)) {
+      const resources = context.lookup(object.dict.get(PDFName.of('Resources')));
+      convertContentStreams(context, [ref], resources instanceof PDFDict ? resources : undefined, mode, converted);
+    } else if (subtype === PDFName.of('Image') && object instanceof PDFRawStream) {
+      images.push([ref, object]);
+      // Soft masks are already gray and describe transparency, not color
+      for (const key of ['SMask', 'Mask']) {
+        const mask = object.dict.get(PDFName.of(key));
+        if (mask instanceof PDFRef) masks.add(mask);
+      }
+    }
+  }
+
+  const colorImages = images.filter(([ref, stream]) => !masks.has(ref) && !stream.dict.has(PDFName.of('ImageMask')));
+
+  for (const [index, [ref, stream]] of colorImages.entries()) {
+    signal?.throwIfAborted();
+    try {
+      if (await convertImage(context, ref, stream, mode)) result.imagesConverted++;
+      else result.imagesSkipped++;
+    } catch (error) {
+      console.warn('Skipped image while converting colors:', error);
+      result.imagesSkipped++;
+    }
+    onProgress?.({ current: index + 1, total: colorImages.length, unit: 'Image' });
+  }
+
+  return result;
+};
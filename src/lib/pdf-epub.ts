@@ -0,0 +1,497 @@
+import JSZip from 'jszip';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { canvasToBlob, createCanvas } from './canvas-utils';
+import { IDENTITY_MATRIX, Matrix, multiplyMatrix } from './content-stream';
+import { ExtractedBlock, ExtractedPage, extractPDFText } from './pdf-text';
+import { ProcessingOptions, openPdfJsDocument, selectPageNumbers } from './pdf-utils';
+
+/**
+ * Reflowable EPUBs from PDFs, for reading on e-readers. The text comes from
+ * extractPDFText in reading order, pictures are taken from the page content and
+ * put back between the paragraphs they sat among, and the book is split into
+ * chapters at the PDF's bookmarks, or at its largest headings when it has none.
+ */
+
+export interface EpubExportOptions {
+  pages?: string; // page ranges such as "1-3, 5"; all pages when empty
+  includeImages: boolean;
+}
+
+interface PdfJsImage {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8ClampedArray;
+  bitmap?: ImageBitmap; // pdf.js decodes some images to bitmaps itself
+}
+
+interface PageImage {
+  key: string; // the same picture on several pages has the same key
+  top: number; // points from the top of the page
+}
+
+interface EncodedImage {
+  data: Uint8Array;
+  type: 'image/jpeg' | 'image/png';
+}
+
+type ChapterItem = ExtractedBlock | { type: 'image'; key: string };
+
+interface Chapter {
+  title: string;
+  items: ChapterItem[];
+}
+
+interface ChapterStart {
+  title: string;
+  pageNumber: number;
+  top: number;
+}
+
+// Smaller pictures are icons, bullets and rules
+const MIN_IMAGE_SIZE = 24;
+// E-reader screens don't need more, and the book stays small
+const MAX_IMAGE_SIDE = 1600;
+// Bookmarks usually point a little above the heading they're for
+const DESTINATION_TOLERANCE = 20;
+const RTL_TEXT = /[֐-ࣿיִ-﷿ﹰ-ﻼ]/;
+const BULLET = /^[•◦▪▫●○■□‣⁃∙*-]$/;
+
+const STYLESHEET = `body { margin: 0 4%; line-height: 1.5; }
+h1, h2, h3, h4, h5, h6 { line-height: 1.25; margin: 1.2em 0 0.6em; page-break-after: avoid; }
+p { margin: 0 0 0.8em; }
+ul.plain { list-style: none; padding-left: 1em; }
+div.figure { margin: 1em 0; text-align: center; }
+div.figure img { max-width: 100%; height: auto; }
+`;
+
+const escapeXML = (text: string) =>
+  text
+    .replace(/[^\P{Cc}\t\n]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const readImageObject = (page: PDFPageProxy, id: string): PdfJsImage | undefined => {
+  // Images used on several pages are shared between them
+  const objects = id.startsWith('g_') ? page.commonObjs : page.objs;
+  return objects.has(id) ? objects.get(id) : undefined;
+};
+
+// Cheap enough to run on every picture, and enough to spot a logo repeated on every page
+const fingerprint = (image: PdfJsImage) => {
+  let hash = 0;
+  const data = image.data;
+  if (data) {
+    const step = Math.max(1, Math.floor(data.length / 4096));
+    for (let i = 0; i < data.length; i += step) hash = (hash * 31 + data[i]) | 0;
+  }
+  return `${image.width}x${image.height}:${image.kind ?? 'bitmap'}:${hash}`;
+};
+
+const toImageData = async (image: PdfJsImage): Promise<ImageData | undefined> => {
+  const { width, height, kind, data } = image;
+  if (!data) return undefined;
+  const { ImageKind } = await import('pdfjs-dist');
+  const rgba = new Uint8ClampedArray(width * height * 4);
+
+  if (kind === ImageKind.RGBA_32BPP) {
+    rgba.set(data.subarray(0, rgba.length));
+  } else if (kind === ImageKind.RGB_24BPP) {
+    for (let i = 0, j = 0; j < rgba.length; i += 3, j += 4) {
+      rgba[j] = data[i];
+      rgba[j + 1] = data[i + 1];
+      rgba[j + 2] = data[i + 2];
+      rgba[j + 3] = 255;
+    }
+  } else if (kind === ImageKind.GRAYSCALE_1BPP) {
+    // Rows are padded to whole bytes; a set bit is white
+    const rowBytes = (width + 7) >> 3;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const value = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1 ? 255 : 0;
+        rgba.fill(value, (y * width + x) * 4, (y * width + x) * 4 + 3);
+        rgba[(y * width + x) * 4 + 3] = 255;
+      }
+    }
+  } else {
+    return undefined;
+  }
+  return new ImageData(rgba, width, height);
+};
+
+// Photos become JPEGs; pictures with transparency or only black and white stay PNGs
+const encodeImage = async (image: PdfJsImage): Promise<EncodedImage | undefined> => {
+  const { ImageKind } = await import('pdfjs-dist');
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const { canvas, context } = createCanvas(width, height);
+
+  if (image.bitmap) {
+    context.drawImage(image.bitmap, 0, 0, width, height);
+  } else {
+    const imageData = await toImageData(image);
+    if (!imageData) return undefined;
+    const source = createCanvas(image.width, image.height);
+    source.context.putImageData(imageData, 0, 0);
+    context.drawImage(source.canvas, 0, 0, width, height);
+    source.canvas.width = 0;
+  }
+
+  const type = image.kind === ImageKind.RGB_24BPP || image.bitmap ? 'image/jpeg' : 'image/png';
+  const blob = await canvasToBlob(canvas, type, 0.85);
+  canvas.width = 0;
+  return { data: new Uint8Array(await blob.arrayBuffer()), type };
+};
+
+/** Pictures drawn on a page, top to bottom, encoded once each into the shared map. */
+const readPageImages = async (
+  page: PDFPageProxy,
+  encoded: Map<string, Promise<EncodedImage | undefined>>
+): Promise<PageImage[]> => {
+  const { OPS } = await import('pdfjs-dist');
+  const viewportTransform = page.getViewport({ scale: 1 }).transform as Matrix;
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const images: PageImage[] = [];
+  const stack: Matrix[] = [];
+  let ctm = IDENTITY_MATRIX;
+
+  fnArray.forEach((fn, i) => {
+    const args = argsArray[i];
+    switch (fn) {
+      case OPS.save:
+        stack.push(ctm);
+        break;
+      case OPS.restore:
+        ctm = stack.pop() || ctm;
+        break;
+      case OPS.transform:
+        ctm = multiplyMatrix(args as Matrix, ctm);
+        break;
+      case OPS.paintFormXObjectBegin:
+        stack.push(ctm);
+        if (Array.isArray(args[0]) && args[0].length === 6) ctm = multiplyMatrix(args[0] as Matrix, ctm);
+        break;
+      case OPS.paintFormXObjectEnd:
+        ctm = stack.pop() || ctm;
+        break;
+      case OPS.paintImageXObject:
+      case OPS.paintInlineImageXObject: {
+        const image = fn === OPS.paintImageXObject ? readImageObject(page, args[0]) : (args[0] as PdfJsImage);
+        if (!image) break;
+
+        // Images fill the unit square of their matrix
+        const device = multiplyMatrix(ctm, viewportTransform);
+        const xs = [device[4], device[0] + device[4], device[2] + device[4], device[0] + device[2] + device[4]];
+        const ys = [device[5], device[1] + device[5], device[3] + device[5], device[1] + device[3] + device[5]];
+        if (Math.max(...xs) - Math.min(...xs) < MIN_IMAGE_SIZE || Math.max(...ys) - Math.min(...ys) < MIN_IMAGE_SIZE) break;
+
+        const key = fingerprint(image);
+        if (!encoded.has(key)) encoded.set(key, encodeImage(image).catch(() => undefined));
+        images.push({ key, top: Math.min(...ys) });
+        break;
+      }
+    }
+  });
+
+  return images.sort((a, b) => a.top - b.top);
+};
+
+// Where each top-level bookmark points; a single root bookmark is usually the book itself
+const readChapterStarts = async (pdfDocument: PDFDocumentProxy): Promise<ChapterStart[]> => {
+  const outline = (await pdfDocument.getOutline()) || [];
+  const entries = outline.length === 1 && outline[0].items.length ? outline[0].items : outline;
+  const starts: ChapterStart[] = [];
+
+  for (const entry of entries) {
+    try {
+      const destination = typeof entry.dest === 'string' ? await pdfDocument.getDestination(entry.dest) : entry.dest;
+      if (!Array.isArray(destination) || destination[0] == null) continue;
+      const pageIndex =
+        typeof destination[0] === 'number' ? destination[0] : await pdfDocument.getPageIndex(destination[0]);
+      const page = await pdfDocument.getPage(pageIndex + 1);
+
+      // XYZ and FitH destinations say how far down the page to go
+      const mode = destination[1]?.name;
+      const y = mode === 'XYZ' ? destination[3] : mode === 'FitH' || mode === 'FitBH' ? destination[2] : null;
+      const top = typeof y === 'number' ? page.getViewport({ scale: 1 }).convertToViewportPoint(0, y)[1] : 0;
+      starts.push({ title: entry.title.trim(), pageNumber: pageIndex + 1, top: Math.max(0, top - DESTINATION_TOLERANCE) });
+    } catch {
+      // Bookmarks that point nowhere are left out
+    }
+  }
+
+  return starts.filter((start) => start.title).sort((a, b) => a.pageNumber - b.pageNumber || a.top - b.top);
+};
+
+const normalizeTitle = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Many PDFs point every bookmark at the top of its page; the heading with the same title is more precise
+const alignToHeadings = (starts: ChapterStart[], pages: ExtractedPage[]): ChapterStart[] =>
+  starts
+    .map((start) => {
+      const page = pages.find((p) => p.pageNumber === start.pageNumber);
+      const heading = page?.blocks.find(
+        (block) => block.type === 'heading' && block.top >= start.top && normalizeTitle(block.text) === normalizeTitle(start.title)
+      );
+      return heading ? { ...start, top: heading.top } : start;
+    })
+    .sort((a, b) => a.pageNumber - b.pageNumber || a.top - b.top);
+
+// Without bookmarks, the largest headings start chapters
+const headingStarts = (pages: ExtractedPage[]): ChapterStart[] => {
+  const starts = pages.flatMap((page) =>
+    page.blocks
+      .filter((block) => block.type === 'heading' && block.level === 1)
+      .map((block) => ({ title: block.text, pageNumber: page.pageNumber, top: block.top }))
+  );
+  return starts.length > 1 ? starts : [];
+};
+
+const buildChapters = (
+  pages: ExtractedPage[],
+  images: Map<number, PageImage[]>,
+  starts: ChapterStart[],
+  title: string
+): Chapter[] => {
+  const chapters: Chapter[] = [{ title, items: [] }];
+  let next = 0;
+
+  const add = (item: ChapterItem, pageNumber: number, top: number) => {
+    while (next < starts.length) {
+      const start = starts[next];
+      if (pageNumber < start.pageNumber || (pageNumber === start.pageNumber && top < start.top)) break;
+      chapters.push({ title: start.title, items: [] });
+      next++;
+    }
+    chapters[chapters.length - 1].items.push(item);
+  };
+
+  for (const page of pages) {
+    const pictures = [...(images.get(page.pageNumber) || [])];
+    for (const block of page.blocks) {
+      while (pictures.length && pictures[0].top <= block.top) {
+        const picture = pictures.shift()!;
+        add({ type: 'image', key: picture.key }, page.pageNumber, picture.top);
+      }
+      add(block, page.pageNumber, block.top);
+    }
+    for (const picture of pictures) add({ type: 'image', key: picture.key }, page.pageNumber, picture.top);
+  }
+
+  // The front matter is dropped when the first bookmark is right at the start
+  return chapters.filter((chapter) => chapter.items.length);
+};
+
+const renderItems = (items: ChapterItem[], imagePaths: Map<string, string>): string => {
+  const html: string[] = [];
+  let list: 'ul' | 'ol' | 'plain' | undefined;
+
+  const closeList = () => {
+    if (list) html.push(list === 'ol' ? '</ol>' : '</ul>');
+    list = undefined;
+  };
+
+  for (const item of items) {
+    if (item.type === 'image') {
+      closeList();
+      const path = imagePaths.get(item.key);
+      if (path) html.push(`<div class="figure"><img src="${path}" alt=""/></div>`);
+      continue;
+    }
+
+    const dir = RTL_TEXT.test(item.text) ? ' dir="rtl"' : '';
+    const text = escapeXML(item.text);
+    if (item.type === 'list-item') {
+      const number = item.marker.match(/^\d+/)?.[0];
+      const kind = BULLET.test(item.marker) ? 'ul' : number ? 'ol' : 'plain';
+      if (kind !== list) {
+        closeList();
+        html.push(kind === 'ol' ? '<ol>' : kind === 'plain' ? '<ul class="plain">' : '<ul>');
+        list = kind;
+      }
+      if (kind === 'ol') html.push(`<li value="${number}"${dir}>${text}</li>`);
+      else if (kind === 'plain') html.push(`<li${dir}>${escapeXML(item.marker)} ${text}</li>`);
+      else html.push(`<li${dir}>${text}</li>`);
+      continue;
+    }
+
+    closeList();
+    if (item.type === 'heading') html.push(`<h${item.level}${dir}>${text}</h${item.level}>`);
+    else html.push(`<p${dir}>${text}</p>`);
+  }
+
+  closeList();
+  return html.join('\n');
+};
+
+const xhtmlDocument = (title: string, language: string, body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXML(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const packageEpub = (
+  chapters: Chapter[],
+  images: { key: string; path: string; image: EncodedImage }[],
+  metadata: { title: string; author: string; language: string }
+): Promise<Blob> => {
+  const { title, author, language } = metadata;
+  const identifier = `urn:uuid:${crypto.randomUUID()}`;
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const chapterFile = (index: number) => `chapter-${index + 1}.xhtml`;
+  const imagePaths = new Map(images.map(({ key, path }) => [key, path]));
+
+  const zip = new JSZip();
+  // The mimetype comes first and uncompressed, so readers can recognize the file
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file(
+    'META-INF/container.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`
+  );
+
+  zip.file(
+    'OEBPS/content.opf',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${identifier}</dc:identifier>
+<dc:title>${escapeXML(title)}</dc:title>
+<dc:language>${language}</dc:language>
+${author ? `<dc:creator>${escapeXML(author)}</dc:creator>\n` : ''}<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+<item id="style" href="style.css" media-type="text/css"/>
+${chapters.map((_, i) => `<item id="chapter-${i + 1}" href="${chapterFile(i)}" media-type="application/xhtml+xml"/>`).join('\n')}
+${images.map(({ path, image }, i) => `<item id="image-${i + 1}" href="${path}" media-type="${image.type}"/>`).join('\n')}
+</manifest>
+<spine toc="ncx">
+${chapters.map((_, i) => `<itemref idref="chapter-${i + 1}"/>`).join('\n')}
+</spine>
+</package>
+`
+  );
+
+  zip.file(
+    'OEBPS/nav.xhtml',
+    xhtmlDocument(
+      title,
+      language,
+      `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${chapters.map((chapter, i) => `<li><a href="${chapterFile(i)}">${escapeXML(chapter.title)}</a></li>`).join('\n')}
+</ol>
+</nav>`
+    )
+  );
+
+  // EPUB 2 readers still look for the older table of contents
+  zip.file(
+    'OEBPS/toc.ncx',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head>
+<meta name="dtb:uid" content="${identifier}"/>
+</head>
+<docTitle><text>${escapeXML(title)}</text></docTitle>
+<navMap>
+${chapters
+  .map(
+    (chapter, i) =>
+      `<navPoint id="nav-${i + 1}" playOrder="${i + 1}"><navLabel><text>${escapeXML(chapter.title)}</text></navLabel><content src="${chapterFile(i)}"/></navPoint>`
+  )
+  .join('\n')}
+</navMap>
+</ncx>
+`
+  );
+
+  zip.file('OEBPS/style.css', STYLESHEET);
+  chapters.forEach((chapter, i) => {
+    zip.file(`OEBPS/${chapterFile(i)}`, xhtmlDocument(chapter.title, language, renderItems(chapter.items, imagePaths)));
+  });
+  for (const { path, image } of images) zip.file(`OEBPS/${path}`, image.data);
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip', compression: 'DEFLATE' });
+};
+
+export const convertPDFToEpub = async (
+  file: File,
+  options: EpubExportOptions,
+  { signal, onProgress }: ProcessingOptions = {}
+): Promise<Blob> => {
+  const pdfDocument = await openPdfJsDocument(await file.arrayBuffer());
+
+  try {
+    const pageNumbers = selectPageNumbers(options.pages, pdfDocument.numPages);
+    const pages = await extractPDFText(pdfDocument, pageNumbers, { signal, onProgress });
+
+    const pageImages = new Map<number, PageImage[]>();
+    const encoded = new Map<string, Promise<EncodedImage | undefined>>();
+    if (options.includeImages) {
+      for (const [index, pageNumber] of pageNumbers.entries()) {
+        signal?.throwIfAborted();
+        const page = await pdfDocument.getPage(pageNumber);
+        try {
+          pageImages.set(pageNumber, await readPageImages(page, encoded));
+          // Encoding holds on to the decoded pixels, so it finishes before the page lets go of them
+          await Promise.all(encoded.values());
+        } finally {
+          page.cleanup();
+        }
+        onProgress?.({ current: index + 1, total: pageNumbers.length, unit: 'Pictures on page' });
+      }
+    }
+
+    // Like running headers, a picture on most pages is a logo or decoration
+    const pageCounts = new Map<string, number>();
+    for (const images of pageImages.values()) {
+      new Set(images.map((image) => image.key)).forEach((key) => pageCounts.set(key, (pageCounts.get(key) || 0) + 1));
+    }
+    const images: { path: string; key: string; image: EncodedImage }[] = [];
+    for (const [key, promise] of encoded) {
+      const image = await promise;
+      if (!image || (pageCounts.get(key) || 0) >= Math.max(3, pageNumbers.length / 2)) continue;
+      images.push({ key, image, path: `images/image-${images.length + 1}.${image.type === 'image/jpeg' ? 'jpg' : 'png'}` });
+    }
+    const kept = new Set(images.map((image) => image.key));
+    for (const [pageNumber, list] of pageImages) pageImages.set(pageNumber, list.filter((image) => kept.has(image.key)));
+
+    const hasText = pages.some((page) => page.blocks.length);
+    if (!hasText && !images.length) {
+      throw new Error('No text or pictures found to put in the book.');
+    }
+
+    const { info } = (await pdfDocument.getMetadata().catch(() => ({ info: {} }))) as {
+      info: { Title?: string; Author?: string; Language?: string };
+    };
+    const title = info.Title?.trim() || file.name.replace(/\.pdf$/i, '');
+    const language = /^[a-z]{2,3}(-[a-z0-9]+)*$/i.test(info.Language || '') ? info.Language! : 'en';
+
+    let starts = alignToHeadings(await readChapterStarts(pdfDocument), pages);
+    if (!starts.length) starts = headingStarts(pages);
+    const chapters = buildChapters(pages, pageImages, starts, title);
+    return packageEpub(chapters, images, { title, author: info.Author?.trim() || '', language });
+  } finally {
+    await pdfDocument.destroy();
+  }
+};
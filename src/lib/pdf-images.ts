@@ -0,0 +1,378 @@
+import { PDFArray, PDFContext, PDFDict, PDFDocument, PDFName, PDFNumber, PDFRawStream, PDFRef, PDFStream, PDFString, PDFHexString } from 'pdf-lib';
+import { canvasToBlob, createCanvas } from './canvas-utils';
+import {
+  IDENTITY_MATRIX,
+  Matrix,
+  getContentStreams,
+  getDecodedStreamBytes,
+  getXObjectRef,
+  multiplyMatrix,
+  parseContentStream,
+  readMatrix,
+} from './content-stream';
+import type { ProcessingOptions } from './pdf-utils';
+
+export interface ImageDownsampleOptions {
+  targetDPI: number;
+  jpegQuality: number; // 0-1
+}
+
+export interface ImageDownsampleResult {
+  imagesFound: number;
+  imagesReplaced: number;
+}
+
+// Largest size each image is drawn at anywhere in the document, in points
+type DisplaySizes = Map<string, { ref: PDFRef; width: number; height: number }>;
+
+// Leave images alone unless they shrink noticeably; re-encoding near-target images just adds artifacts
+const MIN_SCALE_GAIN = 0.9;
+const MAX_FORM_DEPTH = 12;
+
+const getName = (context: PDFContext, dict: PDFDict, key: string): string | undefined => {
+  const value = context.lookup(dict.get(PDFName.of(key)));
+  return value instanceof PDFName ? value.decodeText() : undefined;
+};
+
+const getNumber = (context: PDFContext, dict: PDFDict, key: string): number | undefined => {
+  const value = context.lookup(dict.get(PDFName.of(key)));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+};
+
+/**
+ * Walk a content stream tracking the transformation matrix, and record how large
+ * each image XObject is painted. Form XObjects are followed with their own resources.
+ */
+const collectDisplaySizes = (
+  context: PDFContext,
+  streams: PDFStream[],
+  resources: PDFDict | undefined,
+  baseMatrix: Matrix,
+  sizes: DisplaySizes,
+  depth: number
+) => {
+  const bytes = streams.map(getDecodedStreamBytes);
+  if (bytes.some((b) => !b)) return;
+
+  const merged = new Uint8Array(bytes.reduce((total, b) => total + b!.length + 1, 0));
+  let offset = 0;
+  for (const b of bytes) {
+    merged.set(b!, offset);
+    merged[offset + b!.length] = 0x0a;
+    offset += b!.length + 1;
+  }
+
+  const stack: Matrix[] = [];
+  let ctm = baseMatrix;
+
+  for (const op of parseContentStream(merged)) {
+    if (op.operator === 'q') {
+      stack.push(ctm);
+    } else if (op.operator === 'Q') {
+      ctm = stack.pop() || baseMatrix;
+    } else if (op.operator === 'cm' && op.operands.length === 6) {
+      ctm = multiplyMatrix(op.operands.map((o) => Number(o.value) || 0) as Matrix, ctm);
+    } else if (op.operator === 'Do' && op.operands[0]?.type === 'name') {
+      const ref = getXObjectRef(context, resources, String(op.operands[0].value));
+      const xObject = ref && context.lookup(ref);
+      if (!(xObject instanceof PDFStream)) continue;
+
+      const subtype = getName(context, xObject.dict, 'Subtype');
+
+      if (subtype === 'Image') {
+        // Images fill the unit square, so the matrix columns give the painted size
+        const width = Math.hypot(ctm[0], ctm[1]);
+        const height = Math.hypot(ctm[2], ctm[3]);
+        const key = ref.toString();
+        const current = sizes.get(key);
+        sizes.set(key, {
+          ref,
+          width: Math.max(width, current?.width || 0),
+          height: Math.max(height, current?.height || 0),
+        });
+      } else if (subtype === 'Form' && depth < MAX_FORM_DEPTH) {
+        const formResources = context.lookup(xObject.dict.get(PDFName.of('Resources')));
+        collectDisplaySizes(
+          context,
+          [xObject],
+          formResources instanceof PDFDict ? formResources : resources,
+          multiplyMatrix(readMatrix(context, xObject.dict), ctm),
+          sizes,
+          depth + 1
+        );
+      }
+    }
+  }
+};
+
+interface ColorSpaceInfo {
+  components: 1 | 3;
+  palette?: Uint8Array; // Indexed: RGB triples or gray values for each index
+}
+
+const resolveColorSpace = (context: PDFContext, value: unknown): ColorSpaceInfo | undefined => {
+  const colorSpace = context.lookup(value as PDFRef);
+
+  if (colorSpace instanceof PDFName) {
+    const name = colorSpace.decodeText();
+    if (name === 'DeviceGray' || name === 'CalGray') return { components: 1 };
+    if (name === 'DeviceRGB' || name === 'CalRGB') return { components: 3 };
+    return undefined;
+  }
+
+  if (!(colorSpace instanceof PDFArray) || colorSpace.size() === 0) return undefined;
+
+  const family = context.lookup(colorSpace.get(0));
+  const familyName = family instanceof PDFName ? family.decodeText() : '';
+
+  if (familyName === 'CalGray') return { components: 1 };
+  if (familyName === 'CalRGB') return { components: 3 };
+
+  if (familyName === 'ICCBased') {
+    const profile = context.lookup(colorSpace.get(1));
+    const n = profile instanceof PDFStream ? getNumber(context, profile.dict, 'N') : undefined;
+    return n === 1 || n === 3 ? { components: n } : undefined;
+  }
+
+  if (familyName === 'Indexed' && colorSpace.size() === 4) {
+    const base = resolveColorSpace(context, colorSpace.get(1));
+    if (!base || base.palette) return undefined;
+
+    const lookup = context.lookup(colorSpace.get(3));
+    let palette: Uint8Array | undefined;
+    if (lookup instanceof PDFStream) palette = getDecodedStreamBytes(lookup);
+    else if (lookup instanceof PDFString || lookup instanceof PDFHexString) palette = lookup.asBytes();
+
+    return palette ? { components: base.components, palette } : undefined;
+  }
+
+  return undefined;
+};
+
+// Undo PNG row predictors (Predictor >= 10), which most Flate-compressed images use
+const removePNGPredictor = (data: Uint8Array, bytesPerPixel: number, rowLength: number): Uint8Array | undefined => {
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const output = new Uint8Array(rows * rowLength);
+
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowLength + 1)];
+    const input = row * (rowLength + 1) + 1;
+    const out = row * rowLength;
+    const prev = out - rowLength;
+
+    for (let i = 0; i < rowLength; i++) {
+      const raw = data[input + i];
+      const left = i >= bytesPerPixel ? output[out + i - bytesPerPixel] : 0;
+      const up = row > 0 ? output[prev + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? output[prev + i - bytesPerPixel] : 0;
+
+      let value: number;
+      switch (filter) {
+        case 0: value = raw; break;
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+          break;
+        }
+        default: return undefined;
+      }
+      output[out + i] = value & 0xff;
+    }
+  }
+
+  return output;
+};
+
+/** Turn decoded image samples into RGBA pixels, or undefined for layouts we don't handle. */
+const samplesToRGBA = (
+  context: PDFContext,
+  dict: PDFDict,
+  samples: Uint8Array,
+  width: number,
+  height: number
+): Uint8ClampedArray | undefined => {
+  const bitsPerComponent = getNumber(context, dict, 'BitsPerComponent') ?? 8;
+  const colorSpace = resolveColorSpace(context, dict.get(PDFName.of('ColorSpace')));
+  if (!colorSpace) return undefined;
+
+  const samplesPerPixel = colorSpace.palette ? 1 : colorSpace.components;
+  if (bitsPerComponent !== 8 && !(colorSpace.palette && [1, 2, 4].includes(bitsPerComponent))) return undefined;
+
+  const rowLength = Math.ceil((width * samplesPerPixel * bitsPerComponent) / 8);
+
+  const params = context.lookup(dict.get(PDFName.of('DecodeParms')));
+  const predictor = params instanceof PDFDict ? getNumber(context, params, 'Predictor') ?? 1 : 1;
+  if (predictor >= 10) {
+    const unpredicted = removePNGPredictor(samples, Math.max(1, Math.ceil((samplesPerPixel * bitsPerComponent) / 8)), rowLength);
+    if (!unpredicted) return undefined;
+    samples = unpredicted;
+  } else if (predictor !== 1) {
+    return undefined;
+  }
+
+  if (samples.length < rowLength * height) return undefined;
+
+  const rgba = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      let r: number, g: number, b: number;
+
+      if (colorSpace.palette) {
+        const bitOffset = x * bitsPerComponent;
+        const byte = samples[y * rowLength + (bitOffset >> 3)];
+        const index = bitsPerComponent === 8
+          ? byte
+          : (byte >> (8 - bitsPerComponent - (bitOffset & 7))) & ((1 << bitsPerComponent) - 1);
+        const entry = index * colorSpace.components;
+        r = colorSpace.palette[entry];
+        g = colorSpace.components === 3 ? colorSpace.palette[entry + 1] : r;
+        b = colorSpace.components === 3 ? colorSpace.palette[entry + 2] : r;
+      } else {
+        const source = y * rowLength + x * colorSpace.components;
+        r = samples[source];
+        g = colorSpace.components === 3 ? samples[source + 1] : r;
+        b = colorSpace.components === 3 ? samples[source + 2] : r;
+      }
+
+      rgba[target] = r;
+      rgba[target + 1] = g;
+      rgba[target + 2] = b;
+      rgba[target + 3] = 255;
+    }
+  }
+
+  return rgba;
+};
+
+/**
+ * Draw an image XObject onto a canvas at its native size.
+ * Returns undefined for encodings we can't decode faithfully (CMYK, JPEG 2000, masks, /Decode arrays).
+ */
+export const decodeImage = async (
+  context: PDFContext,
+  stream: PDFStream,
+  width: number,
+  height: number
+): Promise<CanvasImageSource | undefined> => {
+  const { dict } = stream;
+
+  if (['Decode', 'Mask', 'ImageMask'].some((key) => dict.has(PDFName.of(key)))) return undefined;
+
+  const filterValue = context.lookup(dict.get(PDFName.of('Filter')));
+  const filters = filterValue instanceof PDFName
+    ? [filterValue.decodeText()]
+    : filterValue instanceof PDFArray
+    ? filterValue.asArray().map((f) => (context.lookup(f) instanceof PDFName ? (context.lookup(f) as PDFName).decodeText() : ''))
+    : [];
+
+  if (filters.length === 1 && filters[0] === 'DCTDecode') {
+    if (!(stream instanceof PDFRawStream)) return undefined;
+    const colorSpace = resolveColorSpace(context, dict.get(PDFName.of('ColorSpace')));
+    if (!colorSpace || colorSpace.palette) return undefined;
+    return createImageBitmap(new Blob([stream.contents], { type: 'image/jpeg' }));
+  }
+
+  if (filters.some((f) => !['FlateDecode', 'LZWDecode', 'ASCIIHexDecode', 'ASCII85Decode', 'RunLengthDecode'].includes(f))) {
+    return undefined;
+  }
+
+  const samples = getDecodedStreamBytes(stream);
+  const rgba = samples && samplesToRGBA(context, dict, samples, width, height);
+  if (!rgba) return undefined;
+
+  const { canvas, context: ctx } = createCanvas(width, height);
+  ctx.putImageData(new ImageData(rgba, width, height), 0, 0);
+  return canvas;
+};
+
+/**
+ * Downsample and JPEG re-encode images that are stored above the target DPI,
+ * replacing them in place so text, vector art and every other object stay untouched.
+ */
+export const downsamplePDFImages = async (
+  pdfDoc: PDFDocument,
+  { targetDPI, jpegQuality }: ImageDownsampleOptions,
+  { signal, onProgress }: ProcessingOptions = {}
+): Promise<ImageDownsampleResult> => {
+  const { context } = pdfDoc;
+  const sizes: DisplaySizes = new Map();
+
+  for (const page of pdfDoc.getPages()) {
+    collectDisplaySizes(
+      context,
+      getContentStreams(context, page.node.Contents()),
+      page.node.Resources(),
+      IDENTITY_MATRIX,
+      sizes,
+      0
+    );
+  }
+
+  const entries = Array.from(sizes.values());
+  let imagesReplaced = 0;
+
+  for (const [index, { ref, width: shownWidth, height: shownHeight }] of entries.entries()) {
+    signal?.throwIfAborted();
+    const stream = context.lookup(ref);
+    const pixelWidth = stream instanceof PDFStream ? getNumber(context, stream.dict, 'Width') : undefined;
+    const pixelHeight = stream instanceof PDFStream ? getNumber(context, stream.dict, 'Height') : undefined;
+
+    // Pixel size the image needs to reach the target DPI at its largest placement
+    const neededWidth = (shownWidth / 72) * targetDPI;
+    const neededHeight = (shownHeight / 72) * targetDPI;
+    const scale = pixelWidth && pixelHeight
+      ? Math.min(1, Math.max(neededWidth / pixelWidth, neededHeight / pixelHeight))
+      : 1;
+
+    if (stream instanceof PDFRawStream && scale < MIN_SCALE_GAIN) {
+      try {
+        const source = await decodeImage(context, stream, pixelWidth!, pixelHeight!);
+
+        if (source) {
+          const width = Math.max(1, Math.round(pixelWidth! * scale));
+          const height = Math.max(1, Math.round(pixelHeight! * scale));
+          const { canvas, context: ctx } = createCanvas(width, height);
+          ctx.imageSmoothingQuality = 'high';
+          ctx.drawImage(source, 0, 0, width, height);
+          if ('close' in source) source.close();
+
+          const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', jpegQuality)).arrayBuffer());
+
+          if (jpeg.length < stream.contents.length) {
+            const replacement = context.stream(jpeg, {
+              Type: 'XObject',
+              Subtype: 'Image',
+              Width: width,
+              Height: height,
+              ColorSpace: 'DeviceRGB',
+              BitsPerComponent: 8,
+              Filter: 'DCTDecode',
+            });
+            // Transparency and rendering hints still apply to the smaller image
+            for (const key of ['SMask', 'Intent', 'Interpolate']) {
+              const value = stream.dict.get(PDFName.of(key));
+              if (value) replacement.dict.set(PDFName.of(key), value);
+            }
+            context.assign(ref, replacement);
+            imagesReplaced++;
+          }
+        }
+      } catch (error) {
+        // An image the browser can't decode is left as it was
+        console.warn('Skipped image while downsampling:', error);
+      }
+    }
+
+    onProgress?.({ current: index + 1, total: entries.length });
+  }
+
+  return { imagesFound: entries.length, imagesReplaced };
+};
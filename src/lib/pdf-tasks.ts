@@ -0,0 +1,80 @@
+import { PDFSizeBreakdown, analyzePDFSize } from './pdf-analysis';
+import {
+  CompressionReport,
+  CompressionSettings,
+  ImageExportOptions,
+  OrganizedPage,
+  ProcessedPDF,
+  ProcessingOptions,
+  ProcessingProgress,
+  PageReference,
+  compressPDF,
+  convertPDFToImages,
+  getPDFInfo,
+  mergePDFs,
+  mergePDFPages,
+  organizePDF,
+  renderPageThumbnails,
+  rotatePDFPages,
+} from './pdf-utils';
+import { TextExportOptions, convertPDFToText } from './pdf-text';
+import { EpubExportOptions, convertPDFToEpub } from './pdf-epub';
+
+// The report is a nice-to-have; a file pdf-lib can't re-read still gets its sizes
+const tryAnalyzePDFSize = (data: ArrayBuffer): Promise<PDFSizeBreakdown | undefined> =>
+  analyzePDFSize(data).catch(() => undefined);
+
+/**
+ * Heavy PDF operations that can run off the main thread.
+ * Arguments and results must survive structured cloning (Files and Blobs do).
+ */
+export const pdfTasks = {
+  compress: async ({ file, settings }: { file: File; settings: CompressionSettings }, options?: ProcessingOptions) => {
+    const { pageCount } = await getPDFInfo(file);
+    const { blob, strategy } = await compressPDF(file, settings, options);
+
+    const report: CompressionReport = {
+      originalSize: file.size,
+      compressedSize: blob.size,
+      strategy,
+      original: await tryAnalyzePDFSize(await file.arrayBuffer()),
+      compressed: await tryAnalyzePDFSize(await blob.arrayBuffer()),
+    };
+    return { blob, pageCount, report };
+  },
+  convertToImages: ({ file, options }: { file: File; options: ImageExportOptions }, processing?: ProcessingOptions) =>
+    convertPDFToImages(file, options, processing),
+  convertToText: ({ file, options }: { file: File; options: TextExportOptions }, processing?: ProcessingOptions) =>
+    convertPDFToText(file, options, processing),
+  convertToEpub: ({ file, options }: { file: File; options: EpubExportOptions }, processing?: ProcessingOptions) =>
+    convertPDFToEpub(file, options, processing),
+  merge: ({ files }: { files: File[] }) => mergePDFs(files),
+  mergePages: ({ files, pages }: { files: ProcessedPDF[]; pages: PageReference[] }) => mergePDFPages(files, pages),
+  organize: ({ file, pages }: { file: File; pages: OrganizedPage[] }) => organizePDF(file, pages),
+  rotate: ({ file, rotations }: { file: File; rotations: number[] }) => rotatePDFPages(file, rotations),
+  thumbnails: ({ file }: { file: File }, options?: ProcessingOptions) => renderPageThumbnails(file, options),
+};
+
+export type PDFTaskName = keyof typeof pdfTasks;
+export type PDFTaskArgs<T extends PDFTaskName> = Parameters<(typeof pdfTasks)[T]>[0];
+export type PDFTaskResult<T extends PDFTaskName> = Awaited<ReturnType<(typeof pdfTasks)[T]>>;
+
+export interface PDFWorkerRequest {
+  id: number;
+  task: PDFTaskName;
+  args: unknown;
+}
+
+export type PDFWorkerResponse =
+  | { id: number; progress: ProcessingProgress }
+  | { id: number; result: unknown }
+  | { id: number; error: string };
+
+export const runPDFTaskInline = <T extends PDFTaskName>(
+  task: T,
+  args: PDFTaskArgs<T>,
+  options?: ProcessingOptions
+): Promise<PDFTaskResult<T>> => {
+  const run = pdfTasks[task] as (args: PDFTaskArgs<T>, options?: ProcessingOptions) => Promise<PDFTaskResult<T>>;
+  return run(args, options);
+};
@@ -0,0 +1,440 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { Matrix, multiplyMatrix } from './content-stream';
+import { ProcessingOptions, openPdfJsDocument, selectPageNumbers } from './pdf-utils';
+
+/**
+ * Turn the positioned text pdf.js reports into prose in reading order. Runs on a
+ * baseline become lines, a gap running down consecutive lines is a column
+ * gutter, lines join into paragraphs by spacing and indentation, and text
+ * clearly larger than the body text becomes a heading. Running headers,
+ * footers and page numbers are dropped.
+ */
+
+export type TextExportFormat = 'text' | 'markdown';
+
+export interface TextExportOptions {
+  format: TextExportFormat;
+  pages?: string; // page ranges such as "1-3, 5"; all pages when empty
+}
+
+export type ExtractedBlock = (
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list-item'; marker: string; text: string }
+) & { top: number }; // where it starts, in points from the top of its page
+
+export interface ExtractedPage {
+  pageNumber: number;
+  blocks: ExtractedBlock[];
+}
+
+interface TextRun {
+  text: string;
+  left: number;
+  right: number;
+  baseline: number; // from the top of the page
+  fontSize: number;
+  rtl: boolean;
+}
+
+interface TextLine {
+  text: string;
+  left: number;
+  right: number;
+  baseline: number;
+  fontSize: number;
+  rtl: boolean;
+  indent: number; // from the start of its column
+  slack: number; // left over at the end of the line
+}
+
+interface Paragraph {
+  lines: TextLine[];
+  fontSize: number;
+}
+
+// Gaps wider than this many font sizes separate columns rather than words
+const GUTTER_WIDTH = 1.2;
+// Page headers and footers live in this share of the page at the top and bottom
+const MARGIN_ZONE = 0.08;
+const HEADING_RATIO = 1.15;
+const MAX_HEADING_LENGTH = 150;
+
+const CJK = /[⺀-鿿가-힯豈-﫿＀-￯]/;
+const SENTENCE_END = /[.!?。！？:;"”’)\]]$/;
+const LIST_MARKER = /^([•◦▪▫●○■□‣⁃∙*-]|\d{1,3}[.)]|[a-z][.)])\s+/;
+const PRESENTATION_FORMS = /[\ufb00-\ufb06\ufb50-\ufdff\ufe70-\ufefe]+/g;
+const BULLET = /^[•◦▪▫●○■□‣⁃∙*-]$/;
+const PAGE_NUMBER = /^((page|p\.)\s*)?#(\s*(of|\/)\s*#)?$|^[ivxlc]+$/i;
+
+const top = (line: TextLine) => line.baseline - line.fontSize * 0.8;
+const bottom = (line: TextLine) => line.baseline + line.fontSize * 0.2;
+const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)] || 0;
+
+const readRuns = (items: TextItem[], viewportTransform: Matrix): TextRun[] => {
+  const runs: TextRun[] = [];
+  for (const item of items) {
+    if (!item.str.trim()) continue;
+    const [, , c, d, x, y] = multiplyMatrix(item.transform as Matrix, viewportTransform);
+    const fontSize = Math.hypot(c, d);
+    if (fontSize < 1) continue;
+    // Shaped Arabic and typographic ligatures back to the letters they stand for
+    const text = item.str.replace(PRESENTATION_FORMS, (forms) => forms.normalize('NFKC'));
+    runs.push({ text, left: x, right: x + item.width, baseline: y, fontSize, rtl: item.dir === 'rtl' });
+  }
+  return runs;
+};
+
+const isRightToLeft = (runs: TextRun[]) => {
+  const length = (subset: TextRun[]) => subset.reduce((sum, run) => sum + run.text.length, 0);
+  return length(runs.filter((run) => run.rtl)) > length(runs) / 2;
+};
+
+// Runs come in visual order; right-to-left lines read from the other end
+const joinRuns = (runs: TextRun[], rtl: boolean): string => {
+  const pieces: string[] = [];
+  runs.forEach((run, i) => {
+    const previous = runs[i - 1];
+    if (previous) {
+      const gap = run.left - previous.right;
+      const spaced = /\s$/.test(previous.text) || /^\s/.test(run.text);
+      pieces.push(!spaced && gap > Math.min(previous.fontSize, run.fontSize) * 0.15 ? ' ' : '');
+    }
+    pieces.push(run.text);
+  });
+  return (rtl ? pieces.reverse() : pieces).join('').replace(/\s+/g, ' ').trim();
+};
+
+const toLine = (runs: TextRun[]): TextLine => {
+  // The size most of the characters are set in, so a drop cap or footnote mark doesn't count
+  const sizes = new Map<number, number>();
+  for (const run of runs) sizes.set(run.fontSize, (sizes.get(run.fontSize) || 0) + run.text.length);
+  const fontSize = [...sizes].sort((a, b) => b[1] - a[1])[0][0];
+  const main = runs.find((run) => run.fontSize === fontSize)!;
+  const rtl = isRightToLeft(runs);
+
+  return {
+    text: joinRuns(runs, rtl),
+    left: Math.min(...runs.map((run) => run.left)),
+    right: Math.max(...runs.map((run) => run.right)),
+    baseline: main.baseline,
+    fontSize,
+    rtl,
+    indent: 0,
+    slack: 0,
+  };
+};
+
+// Runs on the same baseline, cut where a gap is too wide to be a word space
+const buildSegments = (runs: TextRun[]): TextLine[] => {
+  const rows: TextRun[][] = [];
+  for (const run of [...runs].sort((a, b) => a.baseline - b.baseline || a.left - b.left)) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(run.baseline - row[0].baseline) < Math.min(run.fontSize, row[0].fontSize) * 0.4) row.push(run);
+    else rows.push([run]);
+  }
+
+  const segments: TextLine[] = [];
+  for (const row of rows) {
+    row.sort((a, b) => a.left - b.left);
+    let segment: TextRun[] = [];
+    for (const run of row) {
+      const previous = segment[segment.length - 1];
+      if (previous && run.left - previous.right > Math.min(run.fontSize, previous.fontSize) * GUTTER_WIDTH) {
+        segments.push(toLine(segment));
+        segment = [];
+      }
+      segment.push(run);
+    }
+    segments.push(toLine(segment));
+  }
+  return segments;
+};
+
+const findGutters = (lines: TextLine[], minWidth: number): [number, number][] => {
+  const spans = lines.map((line) => [line.left, line.right]).sort((a, b) => a[0] - b[0]);
+  const gutters: [number, number][] = [];
+  let reach = spans[0][1];
+  for (const [left, right] of spans.slice(1)) {
+    if (left - reach >= minWidth) gutters.push([reach, left]);
+    reach = Math.max(reach, right);
+  }
+  return gutters;
+};
+
+// Gutters vary a little with the line lengths around them, so only their middles are compared
+const gutterMiddles = (gutters: [number, number][]) => gutters.map(([start, end]) => (start + end) / 2);
+
+const crossesGutter = (line: TextLine, gutters: [number, number][]) =>
+  gutterMiddles(gutters).some((middle) => line.left < middle && line.right > middle);
+
+// Where a line starts along its reading direction
+const lineStart = (line: TextLine) => (line.rtl ? -line.right : line.left);
+
+// Top to bottom, with pieces of the same row joined back together
+const readRows = (lines: TextLine[]): TextLine[] => {
+  const rows: TextLine[] = [];
+  for (const line of [...lines].sort((a, b) => a.baseline - b.baseline || a.left - b.left)) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(line.baseline - row.baseline) < Math.min(line.fontSize, row.fontSize) * 0.4) {
+      const text = row.rtl ? `${line.text} ${row.text}` : `${row.text} ${line.text}`;
+      rows[rows.length - 1] = { ...row, text, right: Math.max(row.right, line.right) };
+    } else {
+      rows.push(line);
+    }
+  }
+  const columnLeft = Math.min(...rows.map((row) => row.left));
+  const columnRight = Math.max(...rows.map((row) => row.right));
+  return rows.map((row) => ({
+    ...row,
+    indent: row.rtl ? columnRight - row.right : row.left - columnLeft,
+    slack: row.rtl ? row.left - columnLeft : columnRight - row.right,
+  }));
+};
+
+/**
+ * Put lines in reading order. Lines whose heights overlap form bands; bands
+ * that share a gutter form a multi-column region, whose columns are read one
+ * after the other and may hold columns of their own.
+ */
+const orderLines = (lines: TextLine[], depth = 0): TextLine[] => {
+  if (lines.length < 2 || depth > 8) return readRows(lines);
+  const minGutter = median(lines.map((line) => line.fontSize)) * GUTTER_WIDTH;
+
+  const bands: TextLine[][] = [];
+  let bandBottom = -Infinity;
+  for (const line of [...lines].sort((a, b) => top(a) - top(b))) {
+    if (bands.length && top(line) < bandBottom) {
+      bands[bands.length - 1].push(line);
+      bandBottom = Math.max(bandBottom, bottom(line));
+    } else {
+      bands.push([line]);
+      bandBottom = bottom(line);
+    }
+  }
+
+  const regions: { lines: TextLine[]; gutters: [number, number][] }[] = [];
+  for (const band of bands) {
+    const region = regions[regions.length - 1];
+    const gutters = findGutters(band, minGutter);
+    // A band that stays clear of the region's gutters continues its columns
+    const continues = region?.gutters.length
+      ? !band.some((line) => crossesGutter(line, region.gutters))
+      : region && !gutters.length;
+    if (continues) region.lines.push(...band);
+    else regions.push({ lines: [...band], gutters });
+  }
+
+  return regions.flatMap((region) => {
+    if (!region.gutters.length) return readRows(region.lines);
+    const middles = gutterMiddles(region.gutters);
+    const columns: TextLine[][] = Array.from({ length: middles.length + 1 }, () => []);
+    for (const line of region.lines) columns[middles.filter((middle) => middle < line.left).length].push(line);
+    return columns.flatMap((column) => orderLines(column, depth + 1));
+  });
+};
+
+const readPageLines = async (pdfDocument: PDFDocumentProxy, pageNumber: number) => {
+  const page = await pdfDocument.getPage(pageNumber);
+  try {
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+    const items = content.items.filter((item): item is TextItem => 'str' in item);
+    const runs = readRuns(items, viewport.transform as Matrix);
+    return { height: viewport.height, lines: runs.length ? orderLines(buildSegments(runs)) : [] };
+  } finally {
+    page.cleanup();
+  }
+};
+
+const joinLineText = (text: string, next: string): string => {
+  if (!text) return next;
+  // Words hyphenated across lines are put back together
+  if (/\p{L}-$/u.test(text) && /^\p{Ll}/u.test(next)) return text.slice(0, -1) + next;
+  if (text.endsWith('­')) return text.slice(0, -1) + next;
+  if (CJK.test(text[text.length - 1]) || CJK.test(next[0])) return text + next;
+  return `${text} ${next}`;
+};
+
+const startsParagraph = (line: TextLine, paragraph: Paragraph, leading: number): boolean => {
+  const previous = paragraph.lines[paragraph.lines.length - 1];
+  const size = previous.fontSize;
+  if (Math.abs(line.fontSize - size) > size * 0.1) return true;
+  if (LIST_MARKER.test(line.text)) return true;
+
+  if (line.rtl !== previous.rtl) return true;
+
+  const endsSentence = SENTENCE_END.test(previous.text);
+  // The top of the next column: keep going if a sentence runs on into it
+  if (line.baseline <= previous.baseline) return endsSentence || !/^\p{Ll}/u.test(line.text);
+
+  // Line spacing within the paragraph so far, or else the usual spacing on the page
+  const lines = paragraph.lines;
+  const spacing = lines.length > 1 ? previous.baseline - lines[lines.length - 2].baseline : leading;
+  if (line.baseline - previous.baseline > Math.max(spacing, size * 1.1) * 1.3) return true;
+  // First-line indent
+  if (lineStart(line) - lineStart(previous) > size * 0.8) return true;
+  // The previous line stopped well short of the column, and this one is indented or the sentence ended
+  if (previous.slack > size * 3 && (endsSentence || line.indent > size * 0.8)) return true;
+  // One-line paragraphs, each with its own first-line indent
+  return endsSentence && paragraph.lines.length === 1 && previous.indent > size * 0.8 && Math.abs(line.indent - previous.indent) < 1;
+};
+
+const buildParagraphs = (lines: TextLine[]): Paragraph[] => {
+  // The usual distance between lines on this page
+  const gaps = lines.slice(1)
+    .map((line, i) => line.baseline - lines[i].baseline)
+    .filter((gap, i) => gap > 0 && gap < lines[i].fontSize * 3);
+  const leading = median(gaps);
+
+  const paragraphs: Paragraph[] = [];
+  for (const line of lines) {
+    const paragraph = paragraphs[paragraphs.length - 1];
+    if (paragraph && !startsParagraph(line, paragraph, leading)) paragraph.lines.push(line);
+    else paragraphs.push({ lines: [line], fontSize: line.fontSize });
+  }
+  return paragraphs;
+};
+
+const roundSize = (size: number) => Math.round(size * 2) / 2;
+
+/** Read the text of the given pages as headings, paragraphs and list items in reading order. */
+export const extractPDFText = async (
+  pdfDocument: PDFDocumentProxy,
+  pageNumbers: number[],
+  { signal, onProgress }: ProcessingOptions = {}
+): Promise<ExtractedPage[]> => {
+  const pages: { pageNumber: number; height: number; lines: TextLine[] }[] = [];
+  for (const [index, pageNumber] of pageNumbers.entries()) {
+    signal?.throwIfAborted();
+    pages.push({ pageNumber, ...(await readPageLines(pdfDocument, pageNumber)) });
+    onProgress?.({ current: index + 1, total: pageNumbers.length });
+  }
+
+  // Headers and footers repeat on most pages, give or take a page number
+  const isInMargin = (line: TextLine, height: number) =>
+    line.baseline < height * MARGIN_ZONE || line.baseline > height * (1 - MARGIN_ZONE);
+  const marginKey = (line: TextLine) => line.text.replace(/\d+/g, '#');
+  const repeats = new Map<string, number>();
+  for (const page of pages) {
+    const keys = new Set(page.lines.filter((line) => isInMargin(line, page.height)).map(marginKey));
+    keys.forEach((key) => repeats.set(key, (repeats.get(key) || 0) + 1));
+  }
+  const isFurniture = (line: TextLine, height: number) => {
+    if (!isInMargin(line, height)) return false;
+    const key = marginKey(line);
+    return PAGE_NUMBER.test(key) || (repeats.get(key) || 0) >= Math.max(3, pages.length / 2);
+  };
+
+  const pageParagraphs = pages.map((page) =>
+    buildParagraphs(page.lines.filter((line) => !isFurniture(line, page.height)))
+  );
+
+  // The size most of the text is set in
+  const sizes = new Map<number, number>();
+  for (const paragraph of pageParagraphs.flat()) {
+    for (const line of paragraph.lines) {
+      const size = roundSize(line.fontSize);
+      sizes.set(size, (sizes.get(size) || 0) + line.text.length);
+    }
+  }
+  const bodySize = [...sizes].sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+
+  const isHeading = (paragraph: Paragraph, text: string) =>
+    paragraph.fontSize >= bodySize * HEADING_RATIO && text.length <= MAX_HEADING_LENGTH && /\p{L}/u.test(text);
+  const headingSizes = [
+    ...new Set(
+      pageParagraphs
+        .flat()
+        .filter((paragraph) => isHeading(paragraph, paragraph.lines.map((line) => line.text).join(' ')))
+        .map((paragraph) => roundSize(paragraph.fontSize))
+    ),
+  ].sort((a, b) => b - a);
+
+  let carried: { block: ExtractedBlock & { type: 'paragraph' }; fontSize: number } | undefined;
+  return pageParagraphs.map((paragraphs, index) => {
+    const blocks: ExtractedBlock[] = [];
+
+    paragraphs.forEach((paragraph, i) => {
+      const text = paragraph.lines.reduce((result, line) => joinLineText(result, line.text), '');
+
+      // A sentence running over from the previous page continues its paragraph
+      if (i === 0 && carried && carried.fontSize === paragraph.fontSize && /^\p{Ll}/u.test(text)) {
+        carried.block.text = joinLineText(carried.block.text, text);
+        return;
+      }
+
+      const marker = text.match(LIST_MARKER);
+      const start = top(paragraph.lines[0]);
+      if (isHeading(paragraph, text)) {
+        const level = Math.min(6, headingSizes.indexOf(roundSize(paragraph.fontSize)) + 1);
+        blocks.push({ type: 'heading', level, text, top: start });
+      } else if (marker) {
+        blocks.push({ type: 'list-item', marker: marker[1], text: text.slice(marker[0].length), top: start });
+      } else {
+        blocks.push({ type: 'paragraph', text, top: start });
+      }
+    });
+
+    const last = blocks[blocks.length - 1];
+    const lastParagraph = paragraphs[paragraphs.length - 1];
+    if (last?.type === 'paragraph' && !SENTENCE_END.test(last.text)) {
+      carried = { block: last, fontSize: lastParagraph.fontSize };
+    } else if (blocks.length) {
+      carried = undefined;
+    }
+
+    return { pageNumber: pages[index].pageNumber, blocks };
+  });
+};
+
+const escapeMarkdown = (text: string) =>
+  text
+    .replace(/[\\`*_[\]<>]/g, '\\$&')
+    .replace(/^(#{1,6}|[+-])(?=\s)/, '\\$1')
+    .replace(/^(\d+)([.)])(?=\s)/, '$1\\$2');
+
+/** Plain text with blank lines between paragraphs, or Markdown with headings and lists. */
+export const formatExtractedText = (pages: ExtractedPage[], format: TextExportFormat): string => {
+  const lines: string[] = [];
+  let previous: ExtractedBlock | undefined;
+
+  for (const block of pages.flatMap((page) => page.blocks)) {
+    // List items stay together; everything else is separated by a blank line
+    if (previous && !(block.type === 'list-item' && previous.type === 'list-item')) lines.push('');
+
+    if (format === 'markdown') {
+      if (block.type === 'heading') lines.push(`${'#'.repeat(block.level)} ${escapeMarkdown(block.text)}`);
+      else if (block.type === 'list-item') {
+        const marker = BULLET.test(block.marker) ? '-' : block.marker.replace(/^(\d+)\)$/, '$1.');
+        lines.push(`${marker} ${escapeMarkdown(block.text)}`);
+      } else lines.push(escapeMarkdown(block.text));
+    } else {
+      lines.push(block.type === 'list-item' ? `${block.marker} ${block.text}` : block.text);
+    }
+    previous = block;
+  }
+
+  return lines.length ? `${lines.join('\n')}\n` : '';
+};
+
+export const convertPDFToText = async (
+  file: File,
+  options: TextExportOptions,
+  processing: ProcessingOptions = {}
+): Promise<Blob> => {
+  const pdfDocument = await openPdfJsDocument(await file.arrayBuffer());
+
+  try {
+    const pageNumbers = selectPageNumbers(options.pages, pdfDocument.numPages);
+    const text = formatExtractedText(await extractPDFText(pdfDocument, pageNumbers, processing), options.format);
+    if (!text.trim()) {
+      throw new Error('No text found. The pages may be scanned images, which would need OCR.');
+    }
+    const type = options.format === 'markdown' ? 'text/markdown' : 'text/plain';
+    return new Blob([text], { type: `${type};charset=utf-8` });
+  } finally {
+    await pdfDocument.destroy();
+  }
+};
@@ -1,13 +1,66 @@
-import { PDFDocument } from 'pdf-lib';
+import {
+  PDFDocument,
+  PDFImage,
+  PDFPage,
+  EncryptedPDFError,
+  clip,
+  concatTransformationMatrix,
+  degrees,
+  drawObject,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+} from 'pdf-lib';
 import { jsPDF } from 'jspdf';
+import type { Book, NavItem } from 'epubjs';
+import { canvasFactory, canvasToBlob, createCanvas, isWorkerContext } from './canvas-utils';
+import { blobToDataURL } from './file-utils';
+import { downsamplePDFImages } from './pdf-images';
+import { Matrix, multiplyMatrix } from './content-stream';
+import { ExifOrientation, prepareImageForPDF } from './image-decoders';
+import { LayoutBlock, OutlineEntry, addOutline, getBlocksText, layoutDocument } from './document-layout';
+import { HTMLConversion, HTMLImage, htmlToBlocks } from './html-blocks';
+import { encodePDFText, registerDocumentFonts } from './fonts';
+import { ColorMode, convertPDFColors } from './pdf-color';
+import { TIFFPage, buildTIFF, encodeTIFFPage } from './tiff';
+import type { PDFSizeBreakdown } from './pdf-analysis';
+
+// The pdf.js worker, character maps and standard fonts ship from public/pdfjs, so nothing is fetched from a CDN.
+// Keep them in sync with the installed pdfjs-dist version.
+const PDFJS_ASSETS_PATH = `${import.meta.env.BASE_URL}pdfjs/`;
 
 // Dynamically import pdfjs-dist to avoid top-level await issues
 const loadPdfJs = async () => {
   const pdfjsLib = await import('pdfjs-dist');
-  pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js`;
+  if (isWorkerContext()) {
+    // Already inside our own worker: run pdf.js's parser in-thread instead of nesting another worker
+    const scope = globalThis as { pdfjsWorker?: unknown };
+    scope.pdfjsWorker ??= await import('pdfjs-dist/build/pdf.worker.js');
+  } else {
+    pdfjsLib.GlobalWorkerOptions.workerSrc = `${PDFJS_ASSETS_PATH}pdf.worker.min.js`;
+  }
   return pdfjsLib;
 };
 
+// Workers have no DOM, so render onto OffscreenCanvas and draw glyphs as paths instead of @font-face
+export const openPdfJsDocument = async (data: ArrayBuffer) => {
+  const pdfjsLib = await loadPdfJs();
+  const assetsUrl = new URL(PDFJS_ASSETS_PATH, self.location.href).href;
+  const params = {
+    data,
+    cMapUrl: `${assetsUrl}cmaps/`,
+    cMapPacked: true,
+    standardFontDataUrl: `${assetsUrl}standard_fonts/`,
+  };
+
+  return pdfjsLib.getDocument(
+    isWorkerContext()
+      ? { ...params, canvasFactory, disableFontFace: true, useWorkerFetch: true }
+      : params
+  ).promise;
+};
+
 export interface ProcessedPDF {
   id: string;
   name: string;
@@ -17,8 +70,28 @@ export interface ProcessedPDF {
   error?: string;
   pageCount?: number;
   thumbnailUrl?: string;
+  isLocked?: boolean; // encrypted and waiting for the user's password
+  progress?: ProcessingProgress;
+  warning?: string; // succeeded, but not quite as asked
+  compressionReport?: CompressionReport;
 }
 
+export interface ProcessingProgress {
+  current: number; // pages (or chapters) done so far
+  total: number;
+  bytesWritten?: number; // size of the output produced so far
+  unit?: string; // what current counts when it isn't pages, e.g. "Image"
+}
+
+export interface ProcessingOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ProcessingProgress) => void;
+}
+
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
 export const MAX_FILE_SIZE = 500 * 1024 * 1024; // 500MB
 
 export const validatePDFFile = (file: File): { valid: boolean; error?: string } => {
@@ -35,37 +108,156 @@ export const generateFileId = (): string => {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 };
 
-export const encryptPDF = async (
-  file: File,
-  password: string
-): Promise<Blob> => {
-  const arrayBuffer = await file.arrayBuffer();
-  
-  // Quick validation - just check PDF header
+const ENCRYPT_SNIFF_HEAD = 64 * 1024;
+const ENCRYPT_SNIFF_TAIL = 1024 * 1024;
+
+/**
+ * Cheaply check whether a PDF is encrypted by looking for an /Encrypt entry in its trailer.
+ * The trailer (or xref stream) sits near the end; linearized files repeat it near the start.
+ */
+export const isPDFEncrypted = async (file: File): Promise<boolean> => {
+  const head = file.slice(0, ENCRYPT_SNIFF_HEAD);
+  const tail = file.slice(Math.max(ENCRYPT_SNIFF_HEAD, file.size - ENCRYPT_SNIFF_TAIL));
+  const decoder = new TextDecoder('latin1');
+
+  for (const part of [tail, head]) {
+    const text = decoder.decode(await part.arrayBuffer());
+    // Not followed by a letter, so /EncryptMetadata doesn't count
+    if (/\/Encrypt(?![A-Za-z])/.test(text)) return true;
+  }
+  return false;
+};
+
+export const hasLockedFiles = (files: ProcessedPDF[]): boolean => files.some((f) => f.isLocked);
+
+interface QPDFCallbackOptions {
+  logger: (line: string) => void;
+  arrayBuffer: ArrayBuffer;
+  callback: (err: Error | null, result?: ArrayBuffer) => void;
+}
+
+interface QPDFLibrary {
+  path: string;
+  encrypt: (options: QPDFCallbackOptions & {
+    userPassword: string;
+    ownerPassword: string;
+    keyLength: number;
+    restrictions?: string[];
+  }) => void;
+  decrypt: (options: QPDFCallbackOptions & { password: string }) => void;
+}
+
+// QPDF is loaded from public/qpdf by a classic script tag in index.html
+export const getQPDF = (): QPDFLibrary | undefined => {
+  const QPDF = (window as unknown as { QPDF?: QPDFLibrary }).QPDF;
+  if (QPDF) {
+    // Set the path for QPDF worker files (works on GitHub Pages subpaths)
+    QPDF.path = `${import.meta.env.BASE_URL}qpdf/`;
+  }
+  return QPDF;
+};
+
+const isPDFHeader = (arrayBuffer: ArrayBuffer): boolean => {
   const header = new Uint8Array(arrayBuffer.slice(0, 5));
-  const headerStr = String.fromCharCode(...header);
-  if (!headerStr.startsWith('%PDF')) {
-    throw new Error('Invalid PDF file');
+  return String.fromCharCode(...header).startsWith('%PDF');
+};
+
+const PASSWORD_PROTECTED_ERROR = 'This PDF is password protected. Unlock it first to remove the password.';
+const INCORRECT_PASSWORD_ERROR = 'Incorrect password';
+
+/**
+ * Load a PDF with pdf-lib, failing clearly on encrypted input.
+ * pdf-lib cannot decrypt, and ignoring encryption silently yields garbled pages.
+ */
+const loadPDFDocument = async (arrayBuffer: ArrayBuffer): Promise<PDFDocument> => {
+  try {
+    return await PDFDocument.load(arrayBuffer);
+  } catch (error) {
+    if (error instanceof EncryptedPDFError) {
+      throw new Error(PASSWORD_PROTECTED_ERROR);
+    }
+    throw error;
+  }
+};
+
+export interface PDFPermissions {
+  print: 'none' | 'low' | 'full';
+  extract: boolean; // copy text and images
+  fillForms: boolean;
+  annotate: boolean; // add or edit comments
+  assemble: boolean; // insert, rotate and delete pages
+  modify: boolean; // any other change to the content
+}
+
+export interface EncryptionOptions {
+  userPassword: string; // needed to open the file; may be empty when an owner password is set
+  ownerPassword?: string; // grants full rights; defaults to the user password
+  permissions?: PDFPermissions;
+}
+
+export const FULL_PERMISSIONS: PDFPermissions = {
+  print: 'full',
+  extract: true,
+  fillForms: true,
+  annotate: true,
+  assemble: true,
+  modify: true,
+};
+
+export const hasRestrictions = (permissions: PDFPermissions): boolean => {
+  return (Object.keys(FULL_PERMISSIONS) as (keyof PDFPermissions)[]).some(
+    (key) => permissions[key] !== FULL_PERMISSIONS[key]
+  );
+};
+
+// Map permissions onto QPDF's 256-bit --encrypt restriction flags
+const getRestrictionArgs = (permissions: PDFPermissions): string[] => {
+  const flag = (allowed: boolean) => (allowed ? 'y' : 'n');
+  return [
+    `--print=${permissions.print}`,
+    `--extract=${flag(permissions.extract)}`,
+    `--form=${flag(permissions.fillForms)}`,
+    `--annotate=${flag(permissions.annotate)}`,
+    `--assemble=${flag(permissions.assemble)}`,
+    `--modify-other=${flag(permissions.modify)}`,
+  ];
+};
+
+/**
+ * Encrypt raw PDF bytes with QPDF (AES-256). Shared by PDF and image protection.
+ */
+export const encryptPDFBytes = (
+  arrayBuffer: ArrayBuffer,
+  options: EncryptionOptions
+): Promise<Blob> => {
+  const ownerPassword = options.ownerPassword || options.userPassword;
+  const permissions = options.permissions || FULL_PERMISSIONS;
+
+  if (!ownerPassword) {
+    return Promise.reject(new Error('A password is required to encrypt'));
+  }
+
+  // With identical passwords every reader gets owner rights, so restrictions would be meaningless
+  if (hasRestrictions(permissions) && ownerPassword === options.userPassword) {
+    return Promise.reject(new Error('Permission restrictions need an owner password that differs from the open password'));
   }
 
   // Use QPDF for fast native encryption (no page rendering needed)
   return new Promise((resolve, reject) => {
-    const QPDF = (window as any).QPDF;
+    const QPDF = getQPDF();
     
     if (!QPDF) {
       reject(new Error('QPDF library not loaded. Please refresh the page.'));
       return;
     }
 
-    // Set the path for QPDF worker files (works on GitHub Pages subpaths)
-    QPDF.path = `${import.meta.env.BASE_URL}qpdf/`;
-
     QPDF.encrypt({
       logger: () => {}, // Suppress debug output
       arrayBuffer: arrayBuffer,
-      userPassword: password,
-      ownerPassword: password,
+      userPassword: options.userPassword,
+      ownerPassword,
       keyLength: 256,
+      restrictions: hasRestrictions(permissions) ? getRestrictionArgs(permissions) : [],
       callback: (err: Error | null, result: ArrayBuffer) => {
         if (err) {
           reject(new Error('Failed to encrypt PDF. File may be corrupted.'));
@@ -77,13 +269,89 @@ export const encryptPDF = async (
   });
 };
 
+export const encryptPDF = async (
+  file: File,
+  options: EncryptionOptions
+): Promise<Blob> => {
+  const arrayBuffer = await file.arrayBuffer();
+  
+  // Quick validation - just check PDF header
+  if (!isPDFHeader(arrayBuffer)) {
+    throw new Error('Invalid PDF file');
+  }
+
+  return encryptPDFBytes(arrayBuffer, options);
+};
+
+export const decryptPDF = async (
+  file: File,
+  password: string
+): Promise<Blob> => {
+  const arrayBuffer = await file.arrayBuffer();
+
+  if (!isPDFHeader(arrayBuffer)) {
+    throw new Error('Invalid PDF file');
+  }
+
+  return new Promise((resolve, reject) => {
+    const QPDF = getQPDF();
+
+    if (!QPDF) {
+      reject(new Error('QPDF library not loaded. Please refresh the page.'));
+      return;
+    }
+
+    // QPDF reports a wrong password on stderr, which only reaches us through the logger
+    let invalidPassword = false;
+
+    QPDF.decrypt({
+      logger: (line: string) => {
+        if (/invalid password/i.test(line)) invalidPassword = true;
+      },
+      arrayBuffer,
+      password,
+      callback: (err: Error | null, result: ArrayBuffer) => {
+        if (err) {
+          reject(new Error(
+            invalidPassword || /invalid password/i.test(err.message)
+              ? INCORRECT_PASSWORD_ERROR
+              : 'Failed to unlock PDF. File may be corrupted.'
+          ));
+        } else if (result) {
+          resolve(new Blob([new Uint8Array(result)], { type: 'application/pdf' }));
+        }
+      }
+    });
+  });
+};
+
+/**
+ * Check a newly added PDF for a password. Files that only have an owner password open for anyone,
+ * so they're decrypted straight away; only files that need a password to open are returned locked.
+ * Other failures (QPDF not loading, a damaged file) are thrown, since no password would help.
+ */
+export const unlockAddedPDF = async (file: File): Promise<{ file: File; isLocked: boolean }> => {
+  if (!(await isPDFEncrypted(file))) return { file, isLocked: false };
+
+  try {
+    const blob = await decryptPDF(file, '');
+    return { file: new File([blob], file.name, { type: 'application/pdf' }), isLocked: false };
+  } catch (error) {
+    if (error instanceof Error && error.message === INCORRECT_PASSWORD_ERROR) return { file, isLocked: true };
+    throw error;
+  }
+};
+
 export const getPDFInfo = async (file: File): Promise<{ pageCount: number }> => {
   try {
     const arrayBuffer = await file.arrayBuffer();
-    const pdfDoc = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
+    const pdfDoc = await PDFDocument.load(arrayBuffer);
     return { pageCount: pdfDoc.getPageCount() };
   } catch (error) {
-    throw new Error('Failed to read PDF file. It may be corrupted or encrypted.');
+    if (error instanceof EncryptedPDFError) {
+      throw new Error(PASSWORD_PROTECTED_ERROR);
+    }
+    throw new Error('Failed to read PDF file. It may be corrupted.');
   }
 };
 
@@ -97,7 +365,7 @@ export const mergePDFs = async (files: File[]): Promise<Blob> => {
 
   for (const file of files) {
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
+    const pdf = await loadPDFDocument(arrayBuffer);
     const pages = await mergedPdf.copyPages(pdf, pdf.getPageIndices());
     pages.forEach((page) => mergedPdf.addPage(page));
   }
@@ -106,6 +374,325 @@ export const mergePDFs = async (files: File[]): Promise<Blob> => {
   return new Blob([new Uint8Array(mergedBytes)], { type: 'application/pdf' });
 };
 
+export interface PageReference {
+  fileId: string;
+  pageIndex: number; // zero-based
+}
+
+/**
+ * Copy the listed pages in one call, so pages that share fonts and images keep sharing them.
+ * A page object can only be in the page tree once, so a page listed again gets a copy of its own.
+ */
+const copyPagesInOrder = async (target: PDFDocument, source: PDFDocument, indices: number[]): Promise<PDFPage[]> => {
+  const copies = new Map<number, PDFPage[]>();
+  let remaining = indices;
+
+  while (remaining.length > 0) {
+    const round = [...new Set(remaining)];
+    const copied = await target.copyPages(source, round);
+    round.forEach((pageIndex, i) => copies.set(pageIndex, [...(copies.get(pageIndex) || []), copied[i]]));
+
+    // Each round copies one occurrence of every page still wanted
+    const taken = new Set<number>();
+    remaining = remaining.filter((pageIndex) => taken.has(pageIndex) || !taken.add(pageIndex));
+  }
+
+  return indices.map((pageIndex) => copies.get(pageIndex)!.shift()!);
+};
+
+/**
+ * Build a PDF from individual pages of the given files, in the order listed.
+ * Pages may come from any file, appear more than once, or be left out.
+ */
+export const mergePDFPages = async (files: ProcessedPDF[], pages: PageReference[]): Promise<Blob> => {
+  if (pages.length === 0) {
+    throw new Error('Select at least one page to merge');
+  }
+
+  const mergedPdf = await PDFDocument.create();
+  const sources = new Map<string, PDFDocument>();
+
+  for (const ref of pages) {
+    let source = sources.get(ref.fileId);
+
+    if (!source) {
+      const file = files.find((f) => f.id === ref.fileId);
+      if (!file) {
+        throw new Error('A selected page belongs to a file that was removed');
+      }
+      source = await loadPDFDocument(await file.originalFile.arrayBuffer());
+      sources.set(ref.fileId, source);
+    }
+
+    if (ref.pageIndex < 0 || ref.pageIndex >= source.getPageCount()) {
+      throw new Error(`Page ${ref.pageIndex + 1} does not exist in the source file`);
+    }
+  }
+
+  // Copy each file's pages together, then lay them out in the order asked for
+  const copied = new Map<string, PDFPage[]>();
+  for (const [fileId, source] of sources) {
+    const indices = pages.filter((ref) => ref.fileId === fileId).map((ref) => ref.pageIndex);
+    copied.set(fileId, await copyPagesInOrder(mergedPdf, source, indices));
+  }
+  for (const ref of pages) {
+    mergedPdf.addPage(copied.get(ref.fileId)!.shift()!);
+  }
+
+  const mergedBytes = await mergedPdf.save();
+  return new Blob([new Uint8Array(mergedBytes)], { type: 'application/pdf' });
+};
+
+export type OrganizedPage = { type: 'page'; pageIndex: number } | { type: 'blank' };
+
+// The size a page is seen at, which is its media box turned by its rotation
+const getVisibleSize = (page: PDFPage): [number, number] => {
+  const { width, height } = page.getSize();
+  return page.getRotation().angle % 180 ? [height, width] : [width, height];
+};
+
+/**
+ * Rebuild a PDF from its own pages in a new order. Pages may be left out or repeated,
+ * and blank pages take the size of the page before them (or after, at the start).
+ */
+export const organizePDF = async (file: File, pages: OrganizedPage[]): Promise<Blob> => {
+  if (pages.length === 0) {
+    throw new Error('Keep at least one page');
+  }
+
+  const sourcePdf = await loadPDFDocument(await file.arrayBuffer());
+  const organizedPdf = await PDFDocument.create();
+  const sizes = pages.map((page) => {
+    if (page.type === 'blank') return undefined;
+    if (page.pageIndex < 0 || page.pageIndex >= sourcePdf.getPageCount()) {
+      throw new Error(`Page ${page.pageIndex + 1} does not exist in the source file`);
+    }
+    return getVisibleSize(sourcePdf.getPage(page.pageIndex));
+  });
+  const fallbackSize = sizes.find(Boolean) || PAGE_SIZES.a4;
+
+  const copies = await copyPagesInOrder(
+    organizedPdf,
+    sourcePdf,
+    pages.flatMap((page) => (page.type === 'page' ? [page.pageIndex] : []))
+  );
+
+  let lastSize = fallbackSize;
+  for (const [index, page] of pages.entries()) {
+    if (page.type === 'blank') {
+      organizedPdf.addPage(lastSize);
+      continue;
+    }
+    organizedPdf.addPage(copies.shift()!);
+    lastSize = sizes[index]!;
+  }
+
+  const organizedBytes = await organizedPdf.save();
+  return new Blob([new Uint8Array(organizedBytes)], { type: 'application/pdf' });
+};
+
+/**
+ * Turn pages clockwise by the given number of degrees (a multiple of 90), one entry per page.
+ * Only the page's /Rotate entry changes, so the content is kept exactly as it was.
+ */
+export const rotatePDFPages = async (file: File, rotations: number[]): Promise<Blob> => {
+  const pdfDoc = await loadPDFDocument(await file.arrayBuffer());
+  const pages = pdfDoc.getPages();
+
+  if (rotations.length !== pages.length) {
+    throw new Error('The page count changed since the PDF was added. Remove it and add it again.');
+  }
+
+  pages.forEach((page, index) => {
+    const angle = (((page.getRotation().angle + rotations[index]) % 360) + 360) % 360;
+    page.setRotation(degrees(angle));
+  });
+
+  const rotatedBytes = await pdfDoc.save();
+  return new Blob([new Uint8Array(rotatedBytes)], { type: 'application/pdf' });
+};
+
+/**
+ * Render a small JPEG preview of every page, fitted within maxSize pixels.
+ * Returns data URLs so callers don't need to revoke anything.
+ */
+const THUMBNAIL_SIZE = 160; // longest side, in pixels
+
+export const renderPageThumbnails = async (
+  file: File,
+  { signal, onProgress }: ProcessingOptions = {}
+): Promise<string[]> => {
+  const arrayBuffer = await file.arrayBuffer();
+  const pdfDocument = await openPdfJsDocument(arrayBuffer);
+  const thumbnails: string[] = [];
+
+  try {
+    for (let pageNum = 1; pageNum <= pdfDocument.numPages; pageNum++) {
+      signal?.throwIfAborted();
+      const page = await pdfDocument.getPage(pageNum);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({
+        scale: THUMBNAIL_SIZE / Math.max(baseViewport.width, baseViewport.height),
+      });
+
+      const { canvas, context } = createCanvas(viewport.width, viewport.height);
+
+      await page.render({ canvasContext: context as CanvasRenderingContext2D, viewport }).promise;
+      thumbnails.push(await blobToDataURL(await canvasToBlob(canvas, 'image/jpeg', 0.75)));
+      page.cleanup();
+      onProgress?.({ current: pageNum, total: pdfDocument.numPages });
+    }
+  } finally {
+    await pdfDocument.destroy();
+  }
+
+  return thumbnails;
+};
+
+export type SplitOptions =
+  | { mode: 'ranges'; ranges: string }
+  | { mode: 'every'; pagesPerFile: number }
+  | { mode: 'bookmarks' };
+
+export interface SplitPart {
+  name: string;
+  blob: Blob;
+  pageCount: number;
+}
+
+/**
+ * Parse a range expression like "1-3,5,8-" into groups of zero-based page indices.
+ * Each comma-separated group becomes one entry; open-ended ranges run to the first/last page.
+ */
+export const parsePageRanges = (expression: string, pageCount: number): number[][] => {
+  const groups = expression.split(',').map((part) => part.trim()).filter(Boolean);
+
+  if (groups.length === 0) {
+    throw new Error('Please enter at least one page range');
+  }
+
+  return groups.map((group) => {
+    // A single page, or a range with optional spaces around the dash; "1 2" is neither
+    const single = group.match(/^\d+$/);
+    const range = group.match(/^(\d*)\s*-\s*(\d*)$/);
+    if (!single && (!range || (!range[1] && !range[2]))) {
+      throw new Error(`Invalid page range "${group}"`);
+    }
+
+    const start = single ? parseInt(group, 10) : range![1] ? parseInt(range![1], 10) : 1;
+    const end = single ? start : range![2] ? parseInt(range![2], 10) : pageCount;
+
+    if (start < 1 || end > pageCount || start > end) {
+      throw new Error(`Page range "${group}" is outside 1-${pageCount}`);
+    }
+
+    return Array.from({ length: end - start + 1 }, (_, i) => start - 1 + i);
+  });
+};
+
+// Start page (zero-based) and title of each top-level outline entry, in page order
+const getTopLevelBookmarks = async (arrayBuffer: ArrayBuffer): Promise<{ title: string; pageIndex: number }[]> => {
+  const pdfDocument = await openPdfJsDocument(arrayBuffer);
+
+  try {
+    const outline = (await pdfDocument.getOutline()) || [];
+    const bookmarks: { title: string; pageIndex: number }[] = [];
+
+    for (const item of outline) {
+      const dest = typeof item.dest === 'string'
+        ? await pdfDocument.getDestination(item.dest)
+        : item.dest;
+      if (!dest || dest.length === 0) continue;
+
+      const target = dest[0];
+      const pageIndex = typeof target === 'number' ? target : await pdfDocument.getPageIndex(target);
+      bookmarks.push({ title: item.title, pageIndex });
+    }
+
+    return bookmarks.sort((a, b) => a.pageIndex - b.pageIndex);
+  } finally {
+    await pdfDocument.destroy();
+  }
+};
+
+const getPagesLabel = (indices: number[]): string => {
+  const first = indices[0] + 1;
+  const last = indices[indices.length - 1] + 1;
+  return first === last ? `page_${first}` : `pages_${first}-${last}`;
+};
+
+const sanitizeFileName = (name: string): string => {
+  return name.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, ' ').trim().slice(0, 80) || 'section';
+};
+
+export const splitPDF = async (file: File, options: SplitOptions): Promise<SplitPart[]> => {
+  const arrayBuffer = await file.arrayBuffer();
+  // pdf.js detaches the buffer it is given, so keep pdf-lib on its own copy
+  const sourcePdf = await loadPDFDocument(arrayBuffer.slice(0));
+  const pageCount = sourcePdf.getPageCount();
+  const baseName = file.name.replace(/\.pdf$/i, '');
+
+  let groups: { label: string; indices: number[] }[];
+
+  if (options.mode === 'ranges') {
+    groups = parsePageRanges(options.ranges, pageCount).map((indices) => ({
+      label: getPagesLabel(indices),
+      indices,
+    }));
+  } else if (options.mode === 'every') {
+    const size = Math.floor(options.pagesPerFile);
+    if (!size || size < 1) {
+      throw new Error('Pages per file must be at least 1');
+    }
+    groups = [];
+    for (let start = 0; start < pageCount; start += size) {
+      const indices = Array.from({ length: Math.min(size, pageCount - start) }, (_, i) => start + i);
+      groups.push({ label: getPagesLabel(indices), indices });
+    }
+  } else {
+    const bookmarks = (await getTopLevelBookmarks(arrayBuffer))
+      .filter((b) => b.pageIndex >= 0 && b.pageIndex < pageCount);
+    if (bookmarks.length === 0) {
+      throw new Error('This PDF has no bookmarks to split by');
+    }
+
+    groups = [];
+    bookmarks.forEach((bookmark, i) => {
+      // Pages before the first bookmark are kept with the first section
+      const start = i === 0 ? 0 : bookmark.pageIndex;
+      const end = i + 1 < bookmarks.length ? bookmarks[i + 1].pageIndex : pageCount;
+      if (end <= start) return;
+      groups.push({
+        label: `${String(groups.length + 1).padStart(2, '0')}_${sanitizeFileName(bookmark.title)}`,
+        indices: Array.from({ length: end - start }, (_, j) => start + j),
+      });
+    });
+  }
+
+  const parts: SplitPart[] = [];
+  const labelCounts = new Map<string, number>();
+
+  for (const group of groups) {
+    // The same range given twice still gets a file name of its own
+    const count = (labelCounts.get(group.label) || 0) + 1;
+    labelCounts.set(group.label, count);
+    const label = count > 1 ? `${group.label}_${count}` : group.label;
+
+    const partPdf = await PDFDocument.create();
+    const pages = await partPdf.copyPages(sourcePdf, group.indices);
+    pages.forEach((page) => partPdf.addPage(page));
+
+    const partBytes = await partPdf.save();
+    parts.push({
+      name: `${baseName}_${label}.pdf`,
+      blob: new Blob([new Uint8Array(partBytes)], { type: 'application/pdf' }),
+      pageCount: group.indices.length,
+    });
+  }
+
+  return parts;
+};
+
 export const downloadBlob = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
@@ -125,43 +712,244 @@ export const formatFileSize = (bytes: number): string => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
 
-export const compressPDF = async (file: File, quality: number): Promise<Blob> => {
-  const arrayBuffer = await file.arrayBuffer();
+export type CompressionSettings = (
+  | { method: 'quality'; quality: number } // re-save, rasterizing pages when that isn't enough
+  | { method: 'downsample'; quality: number; targetDPI: number } // shrink only images, keep text and vectors
+  | { method: 'target'; targetBytes: number; allowRasterize: boolean } // search for settings that fit a size limit
+) & { colorMode?: ColorMode }; // convert to grayscale or black and white before compressing
+
+export type CompressionStrategy =
+  | 'object-streams' // lossless re-save
+  | 'image-downsampling'
+  | 'rasterization' // every page replaced by a JPEG
+  | 'color-conversion' // nothing else helped, so only the color-converted copy is returned
+  | 'unchanged'; // nothing helped, so the original bytes are returned
+
+export interface CompressionResult {
+  blob: Blob;
+  strategy: CompressionStrategy;
+}
+
+export interface CompressionReport {
+  originalSize: number;
+  compressedSize: number;
+  strategy: CompressionStrategy;
+  original?: PDFSizeBreakdown; // missing when the file couldn't be analyzed
+  compressed?: PDFSizeBreakdown;
+}
+
+export const compressPDF = async (
+  file: File,
+  settings: CompressionSettings,
+  options: ProcessingOptions = {}
+): Promise<CompressionResult> => {
+  let arrayBuffer = await file.arrayBuffer();
+  options.signal?.throwIfAborted();
+
+  // Sizes are still compared against the original file, so a converted copy counts as a saving
+  if (settings.colorMode && settings.colorMode !== 'color') {
+    arrayBuffer = await convertColors(arrayBuffer, settings.colorMode, options);
+    // What comes back "unchanged" is then the converted copy, not the original
+    const result = await compressWithSettings(file, arrayBuffer, settings, options);
+    return result.strategy === 'unchanged' ? { ...result, strategy: 'color-conversion' } : result;
+  }
+
+  return await compressWithSettings(file, arrayBuffer, settings, options);
+};
+
+const compressWithSettings = async (
+  file: File,
+  arrayBuffer: ArrayBuffer,
+  settings: CompressionSettings,
+  options: ProcessingOptions
+): Promise<CompressionResult> => {
+  const { signal, onProgress } = options;
+
+  if (settings.method === 'target') {
+    return await compressToTargetSize(arrayBuffer, settings.targetBytes, settings.allowRasterize, options);
+  }
+
+  const { quality } = settings;
+
+  if (settings.method === 'downsample') {
+    return await compressPDFImages(arrayBuffer, settings.targetDPI, quality, options);
+  }
   
   // For higher quality (>40%), use pdf-lib optimization which preserves text quality
   // For lower quality, use aggressive image-based compression
   if (quality > 40) {
     try {
-      const pdfDoc = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
+      const pdfDoc = await loadPDFDocument(arrayBuffer);
       
       // Save with object streams enabled for better compression
       const pdfBytes = await pdfDoc.save({
         useObjectStreams: true,
         addDefaultPage: false,
       });
+      signal?.throwIfAborted();
       
       const compressedBlob = new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' });
       
       // If compression didn't help much, try image-based approach
       if (compressedBlob.size >= file.size * 0.95) {
-        return await compressPDFWithImages(arrayBuffer, quality);
+        return await rasterizePDF(arrayBuffer, quality, options);
       }
       
-      return compressedBlob;
-    } catch {
+      // pdf-lib saves in one go, so there is only a final step to report
+      const pageCount = pdfDoc.getPageCount();
+      onProgress?.({ current: pageCount, total: pageCount, bytesWritten: compressedBlob.size });
+      return { blob: compressedBlob, strategy: 'object-streams' };
+    } catch (error) {
+      if (isAbortError(error) || (error instanceof Error && error.message === PASSWORD_PROTECTED_ERROR)) {
+        throw error;
+      }
       // Fallback to image-based compression
-      return await compressPDFWithImages(arrayBuffer, quality);
+      return await rasterizePDF(arrayBuffer, quality, options);
     }
   }
   
   // For aggressive compression (quality <= 40%), always use image-based
-  return await compressPDFWithImages(arrayBuffer, quality);
+  return await rasterizePDF(arrayBuffer, quality, options);
 };
 
-const compressPDFWithImages = async (arrayBuffer: ArrayBuffer, quality: number): Promise<Blob> => {
-  const pdfjsLib = await loadPdfJs();
-  const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-  const pdfDocument = await loadingTask.promise;
+const convertColors = async (
+  arrayBuffer: ArrayBuffer,
+  colorMode: ColorMode,
+  options: ProcessingOptions
+): Promise<ArrayBuffer> => {
+  const pdfDoc = await loadPDFDocument(arrayBuffer);
+  await convertPDFColors(pdfDoc, colorMode, options);
+  const pdfBytes = await pdfDoc.save({ useObjectStreams: true, addDefaultPage: false });
+  options.signal?.throwIfAborted();
+  return pdfBytes.buffer.slice(pdfBytes.byteOffset, pdfBytes.byteOffset + pdfBytes.byteLength) as ArrayBuffer;
+};
+
+const rasterizePDF = async (
+  arrayBuffer: ArrayBuffer,
+  quality: number,
+  options: ProcessingOptions
+): Promise<CompressionResult> => ({
+  blob: await compressPDFWithImages(arrayBuffer, quality, options),
+  strategy: 'rasterization',
+});
+
+// From best looking to smallest; output size shrinks (roughly monotonically) down the list
+const TARGET_SIZE_STEPS = [
+  { targetDPI: 300, quality: 85 },
+  { targetDPI: 220, quality: 80 },
+  { targetDPI: 150, quality: 75 },
+  { targetDPI: 120, quality: 65 },
+  { targetDPI: 96, quality: 55 },
+  { targetDPI: 72, quality: 45 },
+  { targetDPI: 72, quality: 30 },
+  { targetDPI: 50, quality: 20 },
+];
+
+const RASTER_QUALITY_STEPS = [80, 60, 45, 30, 20, 10];
+
+// Binary search for the earliest step whose output fits; assumes later steps are never larger
+const findFirstFitting = async <T,>(
+  steps: T[],
+  targetBytes: number,
+  run: (step: T) => Promise<CompressionResult>
+): Promise<CompressionResult | undefined> => {
+  let low = 0;
+  let high = steps.length - 1;
+  let fitting: CompressionResult | undefined;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const result = await run(steps[mid]);
+    if (result.blob.size <= targetBytes) {
+      fitting = result;
+      high = mid - 1;
+    } else {
+      low = mid + 1;
+    }
+  }
+
+  return fitting;
+};
+
+/**
+ * Find the gentlest settings that bring the file under targetBytes: a lossless re-save first,
+ * then image downsampling, then (if allowed) page rasterization. When nothing fits, the
+ * smallest result is returned so the caller can report how close it got.
+ */
+const compressToTargetSize = async (
+  arrayBuffer: ArrayBuffer,
+  targetBytes: number,
+  allowRasterize: boolean,
+  { signal, onProgress }: ProcessingOptions
+): Promise<CompressionResult> => {
+  const maxPasses = 1 + Math.ceil(Math.log2(TARGET_SIZE_STEPS.length + 1)) +
+    (allowRasterize ? Math.ceil(Math.log2(RASTER_QUALITY_STEPS.length + 1)) : 0);
+  let pass = 0;
+  let smallest: CompressionResult | undefined;
+
+  const attempt = async (compress: () => Promise<CompressionResult>): Promise<CompressionResult> => {
+    const result = await compress();
+    signal?.throwIfAborted();
+    if (!smallest || result.blob.size < smallest.blob.size) smallest = result;
+    onProgress?.({ current: Math.min(++pass, maxPasses), total: maxPasses, bytesWritten: smallest.blob.size, unit: 'Pass' });
+    return result;
+  };
+
+  const resaved = await attempt(async () => {
+    const pdfBytes = await (await loadPDFDocument(arrayBuffer)).save({ useObjectStreams: true, addDefaultPage: false });
+    return { blob: new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' }), strategy: 'object-streams' };
+  });
+  if (resaved.blob.size <= targetBytes) return resaved;
+
+  const downsampled = await findFirstFitting(TARGET_SIZE_STEPS, targetBytes, (step) =>
+    attempt(() => compressPDFImages(arrayBuffer, step.targetDPI, step.quality, { signal }))
+  );
+  if (downsampled) return downsampled;
+
+  if (allowRasterize) {
+    const rasterized = await findFirstFitting(RASTER_QUALITY_STEPS, targetBytes, (quality) =>
+      attempt(() => rasterizePDF(arrayBuffer, quality, { signal }))
+    );
+    if (rasterized) return rasterized;
+  }
+
+  return smallest!;
+};
+
+const compressPDFImages = async (
+  arrayBuffer: ArrayBuffer,
+  targetDPI: number,
+  quality: number,
+  options: ProcessingOptions
+): Promise<CompressionResult> => {
+  const pdfDoc = await loadPDFDocument(arrayBuffer);
+
+  await downsamplePDFImages(
+    pdfDoc,
+    { targetDPI, jpegQuality: Math.max(0.2, Math.min(0.95, quality / 100)) },
+    {
+      ...options,
+      onProgress: (progress) => options.onProgress?.({ ...progress, unit: 'Image' }),
+    }
+  );
+
+  const pdfBytes = await pdfDoc.save({ useObjectStreams: true, addDefaultPage: false });
+  options.signal?.throwIfAborted();
+
+  // Already-lean files can grow slightly when re-saved; never hand back something bigger
+  if (pdfBytes.length >= arrayBuffer.byteLength) {
+    return { blob: new Blob([arrayBuffer], { type: 'application/pdf' }), strategy: 'unchanged' };
+  }
+  return { blob: new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' }), strategy: 'image-downsampling' };
+};
+
+const compressPDFWithImages = async (
+  arrayBuffer: ArrayBuffer,
+  quality: number,
+  { signal, onProgress }: ProcessingOptions
+): Promise<Blob> => {
+  // pdf.js takes ownership of the buffer it is given, and callers may need theirs again
+  const pdfDocument = await openPdfJsDocument(arrayBuffer.slice(0));
   const numPages = pdfDocument.numPages;
 
   // Lower scale for better compression - quality 100 = 1.0, quality 10 = 0.3
@@ -170,244 +958,471 @@ const compressPDFWithImages = async (arrayBuffer: ArrayBuffer, quality: number):
   // JPEG quality - more aggressive compression
   const jpegQuality = Math.max(0.2, Math.min(0.8, (quality / 100) * 0.8));
 
-  const firstPage = await pdfDocument.getPage(1);
-  const firstViewport = firstPage.getViewport({ scale: 1 });
-  const orientation = firstViewport.width > firstViewport.height ? 'landscape' : 'portrait';
-
-  const doc = new jsPDF({
-    orientation: orientation as 'portrait' | 'landscape',
-    unit: 'pt',
-    format: [firstViewport.width, firstViewport.height],
-    compress: true,
-  });
+  try {
+    const firstPage = await pdfDocument.getPage(1);
+    const firstViewport = firstPage.getViewport({ scale: 1 });
+    const orientation = firstViewport.width > firstViewport.height ? 'landscape' : 'portrait';
 
-  for (let pageNum = 1; pageNum <= numPages; pageNum++) {
-    const page = await pdfDocument.getPage(pageNum);
-    const originalViewport = page.getViewport({ scale: 1 });
-    const renderViewport = page.getViewport({ scale });
-    
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    
-    if (!context) throw new Error('Could not create canvas context');
-    
-    canvas.width = renderViewport.width;
-    canvas.height = renderViewport.height;
-
-    await page.render({ canvasContext: context, viewport: renderViewport }).promise;
-
-    // Use blob instead of dataURL for smaller size
-    const blob = await new Promise<Blob>((resolve, reject) => {
-      canvas.toBlob(
-        (b) => (b ? resolve(b) : reject(new Error('Failed to create blob'))),
-        'image/jpeg',
-        jpegQuality
-      );
+    const doc = new jsPDF({
+      orientation: orientation as 'portrait' | 'landscape',
+      unit: 'pt',
+      format: [firstViewport.width, firstViewport.height],
+      compress: true,
     });
-    
-    const imgArrayBuffer = await blob.arrayBuffer();
-    const imgData = new Uint8Array(imgArrayBuffer);
-    
-    if (pageNum > 1) {
-      doc.addPage(
-        [originalViewport.width, originalViewport.height],
-        originalViewport.width > originalViewport.height ? 'landscape' : 'portrait'
-      );
+
+    let bytesWritten = 0;
+
+    for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+      signal?.throwIfAborted();
+      const page = await pdfDocument.getPage(pageNum);
+      const originalViewport = page.getViewport({ scale: 1 });
+      const renderViewport = page.getViewport({ scale });
+      
+      const { canvas, context } = createCanvas(renderViewport.width, renderViewport.height);
+
+      await page.render({ canvasContext: context as CanvasRenderingContext2D, viewport: renderViewport }).promise;
+
+      // Use blob instead of dataURL for smaller size
+      const blob = await canvasToBlob(canvas, 'image/jpeg', jpegQuality);
+      
+      const imgArrayBuffer = await blob.arrayBuffer();
+      const imgData = new Uint8Array(imgArrayBuffer);
+      
+      if (pageNum > 1) {
+        doc.addPage(
+          [originalViewport.width, originalViewport.height],
+          originalViewport.width > originalViewport.height ? 'landscape' : 'portrait'
+        );
+      }
+
+      doc.addImage(imgData, 'JPEG', 0, 0, originalViewport.width, originalViewport.height);
+      page.cleanup();
+
+      bytesWritten += imgData.length;
+      onProgress?.({ current: pageNum, total: numPages, bytesWritten });
     }
 
-    doc.addImage(imgData, 'JPEG', 0, 0, originalViewport.width, originalViewport.height);
+    return doc.output('blob');
+  } finally {
+    await pdfDocument.destroy();
   }
+};
+
+export type ImageExportFormat = 'png' | 'jpeg' | 'webp' | 'tiff';
+
+export interface ImageExportOptions {
+  format: ImageExportFormat;
+  dpi: number;
+  pages?: string; // range expression like "1-3,5"; empty for every page
+  quality?: number; // 0-1, JPEG and WebP only
+  transparent?: boolean; // keep the page background see-through instead of white (not for JPEG)
+}
 
-  return doc.output('blob');
+export interface ExportedImage {
+  blob: Blob;
+  pageNumbers: number[]; // one page, or every exported page for a multi-page TIFF
+  dpi: number; // lower than asked when a page would be too large to render; the lowest page's for a TIFF
+}
+
+// Browsers refuse canvases past these limits and hand back a blank image instead
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_PIXELS = 268_435_456;
+
+const capExportDPI = (dpi: number, width: number, height: number): number => {
+  const maxScale = Math.min(MAX_CANVAS_SIDE / Math.max(width, height), Math.sqrt(MAX_CANVAS_PIXELS / (width * height)));
+  return Math.min(dpi, Math.max(1, Math.floor(maxScale * 72)));
 };
 
-export const convertPDFToImages = async (file: File, format: 'png' | 'jpeg'): Promise<Blob[]> => {
+export const selectPageNumbers = (expression: string | undefined, pageCount: number): number[] => {
+  if (!expression?.trim()) return Array.from({ length: pageCount }, (_, i) => i + 1);
+  const indices = parsePageRanges(expression, pageCount).flat();
+  return [...new Set(indices)].map((index) => index + 1);
+};
+
+export const convertPDFToImages = async (
+  file: File,
+  options: ImageExportOptions,
+  { signal, onProgress }: ProcessingOptions = {}
+): Promise<ExportedImage[]> => {
+  const { format, dpi, quality = 0.92 } = options;
+  const transparent = options.transparent && format !== 'jpeg';
   const arrayBuffer = await file.arrayBuffer();
-  
-  const pdfjsLib = await loadPdfJs();
-  const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-  const pdfDocument = await loadingTask.promise;
-  const numPages = pdfDocument.numPages;
+  const pdfDocument = await openPdfJsDocument(arrayBuffer);
 
-  const images: Blob[] = [];
+  const images: ExportedImage[] = [];
+  const tiffPages: TIFFPage[] = [];
+  let bytesWritten = 0;
 
-  for (let pageNum = 1; pageNum <= numPages; pageNum++) {
-    const page = await pdfDocument.getPage(pageNum);
-    const viewport = page.getViewport({ scale: 2 });
-    
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    
-    if (!context) throw new Error('Could not create canvas context');
-    
-    canvas.width = viewport.width;
-    canvas.height = viewport.height;
+  try {
+    const pageNumbers = selectPageNumbers(options.pages, pdfDocument.numPages);
 
-    await page.render({ canvasContext: context, viewport }).promise;
+    for (const [index, pageNum] of pageNumbers.entries()) {
+      signal?.throwIfAborted();
+      const page = await pdfDocument.getPage(pageNum);
+      const pageSize = page.getViewport({ scale: 1 });
+      const pageDPI = capExportDPI(dpi, pageSize.width, pageSize.height);
+      const viewport = page.getViewport({ scale: pageDPI / 72 });
 
-    const blob = await new Promise<Blob>((resolve, reject) => {
-      canvas.toBlob(
-        (b) => (b ? resolve(b) : reject(new Error('Failed to create image'))),
-        `image/${format}`,
-        format === 'jpeg' ? 0.92 : undefined
-      );
-    });
+      const { canvas, context } = createCanvas(viewport.width, viewport.height);
+
+      await page.render({
+        canvasContext: context as CanvasRenderingContext2D,
+        viewport,
+        background: transparent ? 'rgba(0, 0, 0, 0)' : undefined,
+      }).promise;
+      page.cleanup();
+
+      if (format === 'tiff') {
+        const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+        const tiffPage = await encodeTIFFPage(data, canvas.width, canvas.height, pageDPI, !!transparent);
+        tiffPages.push(tiffPage);
+        bytesWritten += tiffPage.data.length;
+      } else {
+        const type = `image/${format}`;
+        const image = await canvasToBlob(canvas, type, format === 'png' ? undefined : quality);
+        // Browsers that can't encode a format quietly hand back a PNG instead
+        if (image.type !== type) {
+          throw new Error(`This browser can't create ${format.toUpperCase()} images. Choose another format.`);
+        }
+        images.push({ blob: image, pageNumbers: [pageNum], dpi: pageDPI });
+        bytesWritten += image.size;
+      }
 
-    images.push(blob);
+      // Release the pixels before the next page is rendered
+      canvas.width = 0;
+      canvas.height = 0;
+      onProgress?.({ current: index + 1, total: pageNumbers.length, bytesWritten });
+    }
+
+    if (format === 'tiff') {
+      images.push({ blob: buildTIFF(tiffPages), pageNumbers, dpi: Math.min(...tiffPages.map((page) => page.dpi)) });
+    }
+  } finally {
+    await pdfDocument.destroy();
   }
 
   return images;
 };
 
-export const convertImagesToPDF = async (files: File[]): Promise<Blob> => {
+export type PageSizePreset = 'image' | 'a4' | 'letter' | 'legal' | 'a3' | 'a5' | 'custom';
+
+export interface ImageLayoutOptions {
+  pageSize: PageSizePreset; // 'image' makes each page exactly the size of its image
+  customSize?: { width: number; height: number }; // points, for 'custom'
+  orientation: 'auto' | 'portrait' | 'landscape'; // auto follows the image when there is one per page
+  margin: number; // points, around the page and between images
+  fit: 'fit' | 'fill' | 'original'; // scale to fit, crop to fill, or natural size (shrunk only if too big)
+  autoRotate: boolean; // turn images 90° when that lets them fill their slot better
+  imagesPerPage: 1 | 2 | 4 | 6 | 9;
+}
+
+export const DEFAULT_IMAGE_LAYOUT: ImageLayoutOptions = {
+  pageSize: 'a4',
+  orientation: 'auto',
+  margin: (10 / 25.4) * 72, // 10 mm
+  fit: 'fit',
+  autoRotate: false,
+  imagesPerPage: 1,
+};
+
+// Portrait width and height in points
+export const PAGE_SIZES: Record<Exclude<PageSizePreset, 'image' | 'custom'>, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+  legal: [612, 1008],
+  a3: [841.89, 1190.55],
+  a5: [419.53, 595.28],
+};
+
+// Columns x rows on a portrait page; landscape pages swap them
+const GRID_LAYOUTS: Record<ImageLayoutOptions['imagesPerPage'], [number, number]> = {
+  1: [1, 1],
+  2: [1, 2],
+  4: [2, 2],
+  6: [2, 3],
+  9: [3, 3],
+};
+
+// Images without a physical size are placed at CSS pixel density
+const POINTS_PER_PIXEL = 72 / 96;
+
+// Unit-square transforms that turn stored pixels upright, indexed by EXIF orientation
+const EXIF_ORIENTATION_MATRICES: Record<ExifOrientation, Matrix> = {
+  1: [1, 0, 0, 1, 0, 0],
+  2: [-1, 0, 0, 1, 1, 0],
+  3: [-1, 0, 0, -1, 1, 1],
+  4: [1, 0, 0, -1, 0, 1],
+  5: [0, -1, -1, 0, 1, 1],
+  6: [0, -1, 1, 0, 0, 1],
+  7: [0, 1, 1, 0, 0, 0],
+  8: [0, 1, -1, 0, 1, 0],
+};
+
+// A quarter turn counter-clockwise within the unit square
+const ROTATE_UNIT_CCW: Matrix = [0, 1, -1, 0, 1, 0];
+
+interface EmbeddedImage {
+  image: PDFImage;
+  orientation: ExifOrientation;
+  width: number; // pixels as displayed, after orientation
+  height: number;
+}
+
+const embedImageFile = async (pdfDoc: PDFDocument, file: File): Promise<EmbeddedImage> => {
+  const { bytes, format, orientation } = await prepareImageForPDF(file);
+  const image = format === 'jpeg' ? await pdfDoc.embedJpg(bytes) : await pdfDoc.embedPng(bytes);
+  const swapped = orientation >= 5;
+
+  return {
+    image,
+    orientation,
+    width: swapped ? image.height : image.width,
+    height: swapped ? image.width : image.height,
+  };
+};
+
+/** Paint an image upright into a rectangle, optionally turned a quarter counter-clockwise. */
+const drawEmbeddedImage = (
+  page: PDFPage,
+  { image, orientation }: EmbeddedImage,
+  box: { x: number; y: number; width: number; height: number },
+  rotate = false
+) => {
+  const upright = EXIF_ORIENTATION_MATRICES[orientation];
+  const turned = rotate ? multiplyMatrix(upright, ROTATE_UNIT_CCW) : upright;
+  const [a, b, c, d, e, f] = multiplyMatrix(turned, [box.width, 0, 0, box.height, box.x, box.y]);
+  const name = page.node.newXObject('Image', image.ref);
+
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(a, b, c, d, e, f),
+    drawObject(name),
+    popGraphicsState()
+  );
+};
+
+const getPageDimensions = (layout: ImageLayoutOptions, firstImage: EmbeddedImage): [number, number] => {
+  const [width, height] = layout.pageSize === 'custom'
+    ? [layout.customSize?.width || PAGE_SIZES.a4[0], layout.customSize?.height || PAGE_SIZES.a4[1]]
+    : PAGE_SIZES[layout.pageSize as keyof typeof PAGE_SIZES];
+
+  const landscape = layout.orientation === 'auto'
+    ? layout.imagesPerPage === 1 && firstImage.width > firstImage.height
+    : layout.orientation === 'landscape';
+
+  return landscape ? [Math.max(width, height), Math.min(width, height)] : [Math.min(width, height), Math.max(width, height)];
+};
+
+/** Draw an image into a slot on the page according to the fit mode, rotating it if that fits better. */
+const drawImageInSlot = (
+  page: PDFPage,
+  image: EmbeddedImage,
+  slot: { x: number; y: number; width: number; height: number },
+  layout: ImageLayoutOptions
+) => {
+  const rotate = layout.autoRotate &&
+    image.width !== image.height &&
+    slot.width !== slot.height &&
+    image.width > image.height !== slot.width > slot.height;
+
+  // Size of the image as it will sit on the page, before scaling
+  const naturalWidth = (rotate ? image.height : image.width) * POINTS_PER_PIXEL;
+  const naturalHeight = (rotate ? image.width : image.height) * POINTS_PER_PIXEL;
+
+  const fitScale = Math.min(slot.width / naturalWidth, slot.height / naturalHeight);
+  const scale = layout.fit === 'fill'
+    ? Math.max(slot.width / naturalWidth, slot.height / naturalHeight)
+    : layout.fit === 'original'
+    ? Math.min(1, fitScale)
+    : fitScale;
+
+  const width = naturalWidth * scale;
+  const height = naturalHeight * scale;
+  const x = slot.x + (slot.width - width) / 2;
+  const y = slot.y + (slot.height - height) / 2;
+
+  if (layout.fit === 'fill') {
+    page.pushOperators(pushGraphicsState(), rectangle(slot.x, slot.y, slot.width, slot.height), clip(), endPath());
+  }
+
+  drawEmbeddedImage(page, image, { x, y, width, height }, rotate);
+
+  if (layout.fit === 'fill') {
+    page.pushOperators(popGraphicsState());
+  }
+};
+
+export const convertImagesToPDF = async (
+  files: File[],
+  layout: ImageLayoutOptions = DEFAULT_IMAGE_LAYOUT
+): Promise<Blob> => {
   if (files.length === 0) {
     throw new Error('No images provided');
   }
 
   const pdfDoc = await PDFDocument.create();
-
+  const images: EmbeddedImage[] = [];
   for (const file of files) {
-    const arrayBuffer = await file.arrayBuffer();
-    const bytes = new Uint8Array(arrayBuffer);
-    
-    let image;
-    const mimeType = file.type.toLowerCase();
-    
-    if (mimeType === 'image/jpeg' || mimeType === 'image/jpg') {
-      image = await pdfDoc.embedJpg(bytes);
-    } else if (mimeType === 'image/png') {
-      image = await pdfDoc.embedPng(bytes);
-    } else {
-      // For other formats, convert to PNG using canvas
-      const img = await loadImage(file);
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error('Could not create canvas context');
-      ctx.drawImage(img, 0, 0);
-      
-      const pngBlob = await new Promise<Blob>((resolve, reject) => {
-        canvas.toBlob(
-          (b) => (b ? resolve(b) : reject(new Error('Failed to convert image'))),
-          'image/png'
-        );
-      });
-      
-      const pngBuffer = await pngBlob.arrayBuffer();
-      image = await pdfDoc.embedPng(new Uint8Array(pngBuffer));
+    images.push(await embedImageFile(pdfDoc, file));
+  }
+
+  if (layout.pageSize === 'image') {
+    // One page per image, sized to it, with the margin added around
+    for (const image of images) {
+      const width = image.width * POINTS_PER_PIXEL;
+      const height = image.height * POINTS_PER_PIXEL;
+      const page = pdfDoc.addPage([width + layout.margin * 2, height + layout.margin * 2]);
+      drawEmbeddedImage(page, image, { x: layout.margin, y: layout.margin, width, height });
     }
+  } else {
+    const perPage = layout.imagesPerPage;
 
-    const page = pdfDoc.addPage([image.width, image.height]);
-    page.drawImage(image, {
-      x: 0,
-      y: 0,
-      width: image.width,
-      height: image.height,
-    });
+    for (let start = 0; start < images.length; start += perPage) {
+      const [pageWidth, pageHeight] = getPageDimensions(layout, images[start]);
+      const page = pdfDoc.addPage([pageWidth, pageHeight]);
+
+      const [portraitColumns, portraitRows] = GRID_LAYOUTS[perPage];
+      const [columns, rows] = pageWidth > pageHeight ? [portraitRows, portraitColumns] : [portraitColumns, portraitRows];
+      const gap = layout.margin;
+      const slotWidth = (pageWidth - layout.margin * 2 - gap * (columns - 1)) / columns;
+      const slotHeight = (pageHeight - layout.margin * 2 - gap * (rows - 1)) / rows;
+
+      if (slotWidth <= 0 || slotHeight <= 0) {
+        throw new Error('The margins are too large for this page size');
+      }
+
+      // Fill slots left to right, top to bottom
+      images.slice(start, start + perPage).forEach((image, index) => {
+        const column = index % columns;
+        const row = Math.floor(index / columns);
+        drawImageInSlot(page, image, {
+          x: layout.margin + column * (slotWidth + gap),
+          y: pageHeight - layout.margin - (row + 1) * slotHeight - row * gap,
+          width: slotWidth,
+          height: slotHeight,
+        }, layout);
+      });
+    }
   }
 
   const pdfBytes = await pdfDoc.save();
   return new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' });
 };
 
-const loadImage = (file: File): Promise<HTMLImageElement> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => resolve(img);
-    img.onerror = reject;
-    img.src = URL.createObjectURL(file);
+type EpubSection = ReturnType<Book['spine']['get']>;
+
+const EPUB_MARGIN = 54;
+
+// Paths inside the archive, resolved like URLs against the chapter that mentions them
+const resolveEpubURL = (href: string, base: string) => new URL(href, `https://epub.invalid${base}`);
+
+const getEpubAnchor = (href: string, base: string) => {
+  const url = resolveEpubURL(href, base);
+  return decodeURIComponent(url.pathname) + decodeURIComponent(url.hash);
+};
+
+const loadEpubImage = async (doc: jsPDF, book: Book, path: string): Promise<HTMLImage | undefined> => {
+  const blob = await book.archive.getBlob(path);
+  if (!blob) return undefined;
+
+  const { bytes, format } = await prepareImageForPDF(new File([blob], path, { type: blob.type }));
+  const { width, height } = doc.getImageProperties(bytes);
+  return { data: bytes, format: format === 'jpeg' ? 'JPEG' : 'PNG', width, height, alias: path };
+};
+
+const convertEpubSection = async (
+  doc: jsPDF,
+  book: Book,
+  section: EpubSection,
+  caches: { images: Map<string, Promise<HTMLImage | undefined>>; stylesheets: Map<string, Promise<string>> }
+): Promise<HTMLConversion> => {
+  await section.load(book.load.bind(book));
+  const { document } = section;
+  const base = section.url;
+  const sectionAnchor = getEpubAnchor(base, '/');
+
+  const stylesheets = await Promise.all(
+    Array.from(document.querySelectorAll('link[rel~="stylesheet"][href]')).map((link) => {
+      const path = resolveEpubURL(link.getAttribute('href') || '', base).pathname;
+      if (!caches.stylesheets.has(path)) caches.stylesheets.set(path, book.archive.getText(path).catch(() => ''));
+      return caches.stylesheets.get(path) as Promise<string>;
+    })
+  );
+
+  return htmlToBlocks(document.documentElement, {
+    stylesheets,
+    anchors: [sectionAnchor],
+    anchorKey: (id) => `${sectionAnchor}#${id}`,
+    resolveLink: (href) => /^[a-z][a-z\d+.-]*:/i.test(href)
+      ? { type: 'url', url: href }
+      : { type: 'anchor', anchor: getEpubAnchor(href, base) },
+    resolveImage: (src) => {
+      const path = resolveEpubURL(src, base).pathname;
+      if (!caches.images.has(path)) caches.images.set(path, loadEpubImage(doc, book, path).catch(() => undefined));
+      return caches.images.get(path) as Promise<HTMLImage | undefined>;
+    },
   });
 };
 
-export const convertEpubToPDF = async (file: File): Promise<Blob> => {
+export const convertEpubToPDF = async (
+  file: File,
+  { signal, onProgress }: ProcessingOptions = {}
+): Promise<Blob> => {
   const ePub = (await import('epubjs')).default;
-  const arrayBuffer = await file.arrayBuffer();
-  const book = ePub(arrayBuffer);
-  
-  await book.ready;
-  
-  const spine = book.spine as any;
-  const doc = new jsPDF({
-    orientation: 'portrait',
-    unit: 'pt',
-    format: 'a4',
-  });
-  
-  const pageWidth = doc.internal.pageSize.getWidth();
-  const pageHeight = doc.internal.pageSize.getHeight();
-  const margin = 40;
-  const contentWidth = pageWidth - 2 * margin;
-  const lineHeight = 16;
-  const fontSize = 12;
-  
-  doc.setFontSize(fontSize);
-  
-  let currentY = margin;
-  let isFirstPage = true;
-  
-  // Get all spine items
-  const spineItems: any[] = [];
-  spine.each((item: any) => {
-    spineItems.push(item);
-  });
-  
-  for (const item of spineItems) {
-    try {
-      const contents = await item.load(book.load.bind(book));
-      const doc_content = contents.document || contents;
-      
-      // Extract text content
-      const textContent = doc_content.body?.textContent || doc_content.textContent || '';
-      const lines = textContent.split(/\n+/).filter((line: string) => line.trim());
-      
-      for (const line of lines) {
-        const trimmedLine = line.trim();
-        if (!trimmedLine) continue;
-        
-        // Word wrap the text
-        const words = trimmedLine.split(' ');
-        let currentLine = '';
-        
-        for (const word of words) {
-          const testLine = currentLine ? `${currentLine} ${word}` : word;
-          const textWidth = doc.getTextWidth(testLine);
-          
-          if (textWidth > contentWidth) {
-            if (currentLine) {
-              // Check if we need a new page
-              if (currentY + lineHeight > pageHeight - margin) {
-                doc.addPage();
-                currentY = margin;
-              }
-              doc.text(currentLine, margin, currentY);
-              currentY += lineHeight;
-            }
-            currentLine = word;
-          } else {
-            currentLine = testLine;
-          }
-        }
-        
-        // Print remaining text
-        if (currentLine) {
-          if (currentY + lineHeight > pageHeight - margin) {
-            doc.addPage();
-            currentY = margin;
-          }
-          doc.text(currentLine, margin, currentY);
-          currentY += lineHeight;
-        }
-        
-        // Add small spacing between paragraphs
-        currentY += lineHeight * 0.5;
+  const book = ePub(await file.arrayBuffer());
+
+  try {
+    await book.ready;
+
+    const doc = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'a4', compress: true });
+    const { title, creator } = book.packaging.metadata;
+    doc.setProperties({
+      title: encodePDFText(title || file.name.replace(/\.epub$/i, '')),
+      author: encodePDFText(creator || ''),
+    });
+
+    const sections: EpubSection[] = [];
+    book.spine.each((section: EpubSection) => sections.push(section));
+
+    const blocks: LayoutBlock[] = [];
+    const headings: OutlineEntry[] = [];
+    const caches = { images: new Map(), stylesheets: new Map() };
+
+    for (const [index, section] of sections.entries()) {
+      signal?.throwIfAborted();
+
+      try {
+        const chapter = await convertEpubSection(doc, book, section, caches);
+        // Every chapter starts on a new page
+        if (blocks.length) blocks.push({ type: 'page-break' });
+        blocks.push(...chapter.blocks);
+        headings.push(...chapter.headings.filter((heading) => heading.level <= 2));
+      } catch (e) {
+        console.warn('Failed to load chapter:', e);
+      } finally {
+        section.unload();
       }
-    } catch (e) {
-      console.warn('Failed to load chapter:', e);
+
+      onProgress?.({ current: index + 1, total: sections.length });
     }
+
+    const fonts = await registerDocumentFonts(doc, getBlocksText(blocks));
+    const margins = { top: EPUB_MARGIN, right: EPUB_MARGIN, bottom: EPUB_MARGIN, left: EPUB_MARGIN };
+    const { anchors } = layoutDocument(doc, blocks, fonts, { margins });
+
+    // Bookmarks follow the book's table of contents; a fragment that doesn't exist falls back to its chapter
+    const toOutline = (items: NavItem[]): OutlineEntry[] => items.map((item) => {
+      const chapter = book.spine.get(item.href);
+      const chapterAnchor = chapter ? getEpubAnchor(chapter.url, '/') : '';
+      const fragment = item.href.includes('#') ? `#${decodeURIComponent(item.href.split('#')[1])}` : '';
+      const anchor = anchors.has(chapterAnchor + fragment) ? chapterAnchor + fragment : chapterAnchor;
+      return { title: item.label.trim(), anchor, children: toOutline(item.subitems || []) };
+    });
+    const toc = book.navigation?.toc || [];
+    addOutline(doc, toc.length ? toOutline(toc) : headings, anchors);
+
+    return doc.output('blob');
+  } finally {
+    book.destroy();
   }
-  
-  book.destroy();
-  
-  return doc.output('blob');
 };
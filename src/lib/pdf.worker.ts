@@ -0,0 +1,22 @@
+import type { ProcessingProgress } from './pdf-utils';
+import { PDFWorkerRequest, PDFWorkerResponse, runPDFTaskInline } from './pdf-tasks';
+
+// Each worker handles one job at a time; the pool only posts to idle workers
+self.onmessage = async (event: MessageEvent<PDFWorkerRequest>) => {
+  const { id, task, args } = event.data;
+  let response: PDFWorkerResponse;
+
+  // Cancellation terminates the whole worker, so only progress needs forwarding
+  const onProgress = (progress: ProcessingProgress) => {
+    const update: PDFWorkerResponse = { id, progress };
+    self.postMessage(update);
+  };
+
+  try {
+    response = { id, result: await runPDFTaskInline(task, args as never, { onProgress }) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Processing failed' };
+  }
+
+  self.postMessage(response);
+};
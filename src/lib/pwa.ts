@@ -0,0 +1,34 @@
+import { registerSW } from 'virtual:pwa-register';
+
+let updateAvailable = false;
+let updateServiceWorker: ((reloadPage?: boolean) => Promise<void>) | null = null;
+const listeners = new Set<() => void>();
+
+const setUpdateAvailable = (value: boolean) => {
+  updateAvailable = value;
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Register the service worker once for the whole app.
+ * A new version is installed in the background and waits until the user applies it.
+ */
+export const registerServiceWorker = () => {
+  updateServiceWorker = registerSW({
+    onNeedRefresh: () => setUpdateAvailable(true),
+  });
+};
+
+export const subscribeToUpdates = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const isUpdateAvailable = (): boolean => updateAvailable;
+
+// Activates the waiting service worker; the page reloads once it takes control
+export const applyUpdate = () => updateServiceWorker?.(true);
+
+export const dismissUpdate = () => setUpdateAvailable(false);
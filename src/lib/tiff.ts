@@ -0,0 +1,425 @@
+import { deflate, inflate } from './file-utils';
+
+/**
+ * A minimal baseline TIFF writer: 8-bit RGB or RGBA, one deflate-compressed
+ * strip per page, any number of pages in a single file. The reader below handles
+ * the first page of the strip-based files scanners and cameras typically produce.
+ */
+
+export interface TIFFPage {
+  width: number;
+  height: number;
+  samplesPerPixel: 3 | 4;
+  dpi: number;
+  data: Uint8Array; // compressed strip
+}
+
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_ADOBE_DEFLATE = 32946;
+const COMPRESSION_PACKBITS = 32773;
+const PHOTOMETRIC_WHITE_IS_ZERO = 0;
+const PHOTOMETRIC_BLACK_IS_ZERO = 1;
+const PHOTOMETRIC_RGB = 2;
+const PHOTOMETRIC_PALETTE = 3;
+const PHOTOMETRIC_CMYK = 5;
+const PREDICTOR_HORIZONTAL = 2;
+const EXTRA_SAMPLES_ASSOCIATED_ALPHA = 1;
+const EXTRA_SAMPLES_UNASSOCIATED_ALPHA = 2;
+const RESOLUTION_UNIT_INCH = 2;
+
+/**
+ * Compress one page's pixels right away, so a long document never holds
+ * more than one page of raw pixels in memory.
+ */
+export const encodeTIFFPage = async (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  dpi: number,
+  keepAlpha: boolean
+): Promise<TIFFPage> => {
+  const samplesPerPixel = keepAlpha ? 4 : 3;
+  const rowLength = width * samplesPerPixel;
+  const samples = new Uint8Array(rowLength * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = (y * width + x) * 4;
+      const target = y * rowLength + x * samplesPerPixel;
+      for (let c = 0; c < samplesPerPixel; c++) samples[target + c] = rgba[source + c];
+    }
+    // Horizontal differencing makes flat page backgrounds compress to almost nothing
+    for (let i = rowLength - 1; i >= samplesPerPixel; i--) {
+      samples[y * rowLength + i] -= samples[y * rowLength + i - samplesPerPixel];
+    }
+  }
+
+  return { width, height, samplesPerPixel, dpi, data: await deflate(samples) };
+};
+
+type IFDEntry = [tag: number, type: number, values: number[]];
+
+const getEntries = (page: TIFFPage, dataOffset: number): IFDEntry[] => {
+  const entries: IFDEntry[] = [
+    [256, TYPE_LONG, [page.width]],
+    [257, TYPE_LONG, [page.height]],
+    [258, TYPE_SHORT, new Array(page.samplesPerPixel).fill(8)],
+    [259, TYPE_SHORT, [COMPRESSION_DEFLATE]],
+    [262, TYPE_SHORT, [PHOTOMETRIC_RGB]],
+    [273, TYPE_LONG, [dataOffset]],
+    [277, TYPE_SHORT, [page.samplesPerPixel]],
+    [278, TYPE_LONG, [page.height]],
+    [279, TYPE_LONG, [page.data.length]],
+    [282, TYPE_RATIONAL, [Math.round(page.dpi), 1]],
+    [283, TYPE_RATIONAL, [Math.round(page.dpi), 1]],
+    [284, TYPE_SHORT, [1]], // chunky pixels
+    [296, TYPE_SHORT, [RESOLUTION_UNIT_INCH]],
+    [317, TYPE_SHORT, [PREDICTOR_HORIZONTAL]],
+  ];
+  if (page.samplesPerPixel === 4) entries.push([338, TYPE_SHORT, [EXTRA_SAMPLES_UNASSOCIATED_ALPHA]]);
+  return entries;
+};
+
+const valueSize = (type: number, values: number[]) => (type === TYPE_SHORT ? 2 : 4) * values.length;
+
+// Values that don't fit in the 4-byte entry slot are stored right after the IFD
+const getIFDSize = (entries: IFDEntry[]) =>
+  2 + entries.length * 12 + 4 +
+  entries.reduce((total, [, type, values]) => total + (valueSize(type, values) > 4 ? valueSize(type, values) : 0), 0);
+
+const writeIFD = (entries: IFDEntry[], ifdOffset: number, nextIFDOffset: number): Uint8Array => {
+  const bytes = new Uint8Array(getIFDSize(entries));
+  const view = new DataView(bytes.buffer);
+  let overflow = 2 + entries.length * 12 + 4;
+
+  view.setUint16(0, entries.length, true);
+
+  entries.forEach(([tag, type, values], index) => {
+    const entry = 2 + index * 12;
+    const count = type === TYPE_RATIONAL ? values.length / 2 : values.length;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, type, true);
+    view.setUint32(entry + 4, count, true);
+
+    const size = valueSize(type, values);
+    let target = entry + 8;
+    if (size > 4) {
+      view.setUint32(entry + 8, ifdOffset + overflow, true);
+      target = overflow;
+      overflow += size;
+    }
+
+    values.forEach((value, i) => {
+      if (type === TYPE_SHORT) view.setUint16(target + i * 2, value, true);
+      else view.setUint32(target + i * 4, value, true);
+    });
+  });
+
+  view.setUint32(2 + entries.length * 12, nextIFDOffset, true);
+  return bytes;
+};
+
+export const buildTIFF = (pages: TIFFPage[]): Blob => {
+  if (pages.length === 0) throw new Error('No pages to write');
+
+  // Lay out every page first: each IFD has to point at the next one
+  const layout: { page: TIFFPage; dataOffset: number; ifdOffset: number; padding: number }[] = [];
+  let offset = 8;
+  for (const page of pages) {
+    const dataOffset = offset;
+    offset += page.data.length;
+    const padding = offset % 2; // IFDs start on a word boundary
+    offset += padding;
+    layout.push({ page, dataOffset, ifdOffset: offset, padding });
+    offset += getIFDSize(getEntries(page, dataOffset));
+  }
+
+  const header = new Uint8Array(8);
+  const headerView = new DataView(header.buffer);
+  header.set([0x49, 0x49, 42, 0]); // "II", little-endian
+  headerView.setUint32(4, layout[0].ifdOffset, true);
+
+  const parts: Uint8Array[] = [header];
+  layout.forEach(({ page, dataOffset, ifdOffset, padding }, index) => {
+    parts.push(page.data);
+    if (padding) parts.push(new Uint8Array(padding));
+    parts.push(writeIFD(getEntries(page, dataOffset), ifdOffset, layout[index + 1]?.ifdOffset ?? 0));
+  });
+
+  return new Blob(parts, { type: 'image/tiff' });
+};
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA
+}
+
+const UNSUPPORTED_TIFF_ERROR = "This TIFF image uses features that can't be read in the browser";
+
+// Numeric values of every BYTE, SHORT or LONG field in an IFD
+const readIFD = (view: DataView, offset: number, littleEndian: boolean): Map<number, number[]> => {
+  const fields = new Map<number, number[]>();
+  const count = view.getUint16(offset, littleEndian);
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const length = view.getUint32(entry + 4, littleEndian);
+    const size = type === TYPE_SHORT ? 2 : type === TYPE_LONG ? 4 : type === 1 ? 1 : 0;
+    if (!size) continue;
+
+    const start = size * length > 4 ? view.getUint32(entry + 8, littleEndian) : entry + 8;
+    const values: number[] = [];
+    for (let j = 0; j < length; j++) {
+      const position = start + j * size;
+      values.push(
+        size === 1 ? view.getUint8(position)
+          : size === 2 ? view.getUint16(position, littleEndian)
+          : view.getUint32(position, littleEndian)
+      );
+    }
+    fields.set(tag, values);
+  }
+
+  return fields;
+};
+
+// TIFF LZW: MSB-first codes of 9-12 bits that widen one code early
+const decodeLZW = (input: Uint8Array, expectedLength: number): Uint8Array => {
+  const CLEAR = 256;
+  const END = 257;
+  const output = new Uint8Array(expectedLength);
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const lengths = new Uint16Array(4096);
+
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    first[i] = i;
+    lengths[i] = 1;
+  }
+
+  let nextCode = 258;
+  let codeWidth = 9;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let inputPos = 0;
+  let outputPos = 0;
+  let previous = -1;
+
+  const readCode = () => {
+    while (bitCount < codeWidth) {
+      if (inputPos >= input.length) return END;
+      bitBuffer = ((bitBuffer << 8) | input[inputPos++]) & 0xffffff;
+      bitCount += 8;
+    }
+    bitCount -= codeWidth;
+    return (bitBuffer >>> bitCount) & ((1 << codeWidth) - 1);
+  };
+
+  const write = (code: number) => {
+    const length = lengths[code];
+    for (let i = length - 1, c = code; i >= 0; i--, c = prefix[c]) {
+      if (outputPos + i < expectedLength) output[outputPos + i] = suffix[c];
+    }
+    outputPos += length;
+  };
+
+  const add = (code: number, char: number) => {
+    if (nextCode >= 4096) return;
+    prefix[nextCode] = code;
+    suffix[nextCode] = char;
+    first[nextCode] = first[code];
+    lengths[nextCode] = lengths[code] + 1;
+    nextCode++;
+    if (nextCode === (1 << codeWidth) - 1 && codeWidth < 12) codeWidth++;
+  };
+
+  while (outputPos < expectedLength) {
+    let code = readCode();
+    if (code === END) break;
+
+    if (code === CLEAR) {
+      nextCode = 258;
+      codeWidth = 9;
+      code = readCode();
+      if (code === END) break;
+      write(code);
+      previous = code;
+      continue;
+    }
+
+    if (previous === -1) {
+      write(code);
+    } else if (code < nextCode) {
+      write(code);
+      add(previous, first[code]);
+    } else {
+      add(previous, first[previous]);
+      write(code);
+    }
+    previous = code;
+  }
+
+  return output;
+};
+
+const decodePackBits = (input: Uint8Array, expectedLength: number): Uint8Array => {
+  const output = new Uint8Array(expectedLength);
+  let inputPos = 0;
+  let outputPos = 0;
+
+  while (inputPos < input.length && outputPos < expectedLength) {
+    const header = (input[inputPos++] << 24) >> 24;
+    if (header >= 0) {
+      output.set(input.subarray(inputPos, inputPos + header + 1).subarray(0, expectedLength - outputPos), outputPos);
+      inputPos += header + 1;
+      outputPos += header + 1;
+    } else if (header !== -128) {
+      output.fill(input[inputPos++], outputPos, Math.min(expectedLength, outputPos + 1 - header));
+      outputPos += 1 - header;
+    }
+  }
+
+  return output;
+};
+
+/** Decode the first image in a TIFF file to RGBA pixels. */
+export const decodeTIFF = async (bytes: Uint8Array): Promise<DecodedImage> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = bytes[0] === 0x49 && bytes[1] === 0x49;
+  if ((!littleEndian && !(bytes[0] === 0x4d && bytes[1] === 0x4d)) || view.getUint16(2, littleEndian) !== 42) {
+    throw new Error('Not a valid TIFF image');
+  }
+
+  const fields = readIFD(view, view.getUint32(4, littleEndian), littleEndian);
+  const field = (tag: number, fallback: number) => fields.get(tag)?.[0] ?? fallback;
+
+  const width = field(256, 0);
+  const height = field(257, 0);
+  const bitsPerSample = field(258, 1);
+  const compression = field(259, COMPRESSION_NONE);
+  const photometric = field(262, PHOTOMETRIC_BLACK_IS_ZERO);
+  const samplesPerPixel = field(277, 1);
+  const rowsPerStrip = field(278, height);
+  const predictor = field(317, 1);
+  const extraSamples = fields.get(338) || [];
+  const stripOffsets = fields.get(273);
+  const stripByteCounts = fields.get(279);
+
+  if (
+    !width || !height || !stripOffsets || !stripByteCounts || fields.has(322) ||
+    field(284, 1) !== 1 || field(339, 1) !== 1 ||
+    ![1, 2, 4, 8, 16].includes(bitsPerSample) ||
+    (predictor === 2 && bitsPerSample !== 8)
+  ) {
+    throw new Error(UNSUPPORTED_TIFF_ERROR);
+  }
+
+  // Unpack every strip into one buffer of rows
+  const rowLength = Math.ceil((width * samplesPerPixel * bitsPerSample) / 8);
+  const samples = new Uint8Array(rowLength * height);
+
+  for (let strip = 0; strip < stripOffsets.length; strip++) {
+    const rowStart = strip * rowsPerStrip;
+    const expected = Math.min(rowsPerStrip, height - rowStart) * rowLength;
+    if (expected <= 0) break;
+    const data = bytes.subarray(stripOffsets[strip], stripOffsets[strip] + stripByteCounts[strip]);
+
+    let decoded: Uint8Array;
+    if (compression === COMPRESSION_NONE) decoded = data;
+    else if (compression === COMPRESSION_LZW) decoded = decodeLZW(data, expected);
+    else if (compression === COMPRESSION_PACKBITS) decoded = decodePackBits(data, expected);
+    else if (compression === COMPRESSION_DEFLATE || compression === COMPRESSION_ADOBE_DEFLATE) decoded = await inflate(data);
+    else throw new Error(UNSUPPORTED_TIFF_ERROR);
+
+    samples.set(decoded.subarray(0, expected), rowStart * rowLength);
+  }
+
+  if (predictor === 2) {
+    for (let y = 0; y < height; y++) {
+      for (let i = y * rowLength + samplesPerPixel; i < (y + 1) * rowLength; i++) {
+        samples[i] = (samples[i] + samples[i - samplesPerPixel]) & 0xff;
+      }
+    }
+  }
+
+  const maxValue = bitsPerSample === 16 ? 255 : (1 << bitsPerSample) - 1;
+
+  // Sample n of pixel (x, y) scaled to 0-maxValue; 16-bit samples keep their high byte
+  const readSample = (x: number, y: number, n: number): number => {
+    const index = x * samplesPerPixel + n;
+    if (bitsPerSample === 8) return samples[y * rowLength + index];
+    if (bitsPerSample === 16) return samples[y * rowLength + index * 2 + (littleEndian ? 1 : 0)];
+    const bit = index * bitsPerSample;
+    return (samples[y * rowLength + (bit >> 3)] >> (8 - bitsPerSample - (bit & 7))) & maxValue;
+  };
+
+  const colorComponents = photometric === PHOTOMETRIC_RGB ? 3 : photometric === PHOTOMETRIC_CMYK ? 4 : 1;
+  const hasAlpha = extraSamples.length > 0 && samplesPerPixel > colorComponents;
+  const premultiplied = hasAlpha && extraSamples[0] === EXTRA_SAMPLES_ASSOCIATED_ALPHA;
+  const colorMap = fields.get(320);
+  const paletteSize = 1 << bitsPerSample;
+
+  if (
+    samplesPerPixel < colorComponents ||
+    ![PHOTOMETRIC_WHITE_IS_ZERO, PHOTOMETRIC_BLACK_IS_ZERO, PHOTOMETRIC_RGB, PHOTOMETRIC_PALETTE, PHOTOMETRIC_CMYK].includes(photometric) ||
+    (photometric === PHOTOMETRIC_PALETTE && (!colorMap || colorMap.length < paletteSize * 3))
+  ) {
+    throw new Error(UNSUPPORTED_TIFF_ERROR);
+  }
+
+  const scale = 255 / maxValue;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      let r: number, g: number, b: number;
+
+      if (photometric === PHOTOMETRIC_RGB) {
+        r = readSample(x, y, 0) * scale;
+        g = readSample(x, y, 1) * scale;
+        b = readSample(x, y, 2) * scale;
+      } else if (photometric === PHOTOMETRIC_CMYK) {
+        const k = 1 - readSample(x, y, 3) / maxValue;
+        r = (maxValue - readSample(x, y, 0)) * scale * k;
+        g = (maxValue - readSample(x, y, 1)) * scale * k;
+        b = (maxValue - readSample(x, y, 2)) * scale * k;
+      } else if (photometric === PHOTOMETRIC_PALETTE) {
+        // Color map entries are 16-bit: all reds, then all greens, then all blues
+        const index = readSample(x, y, 0);
+        r = colorMap![index] >> 8;
+        g = colorMap![paletteSize + index] >> 8;
+        b = colorMap![paletteSize * 2 + index] >> 8;
+      } else {
+        const value = readSample(x, y, 0) * scale;
+        r = g = b = photometric === PHOTOMETRIC_WHITE_IS_ZERO ? 255 - value : value;
+      }
+
+      const alpha = hasAlpha ? readSample(x, y, colorComponents) * scale : 255;
+      if (premultiplied && alpha > 0) {
+        r = (r * 255) / alpha;
+        g = (g * 255) / alpha;
+        b = (b * 255) / alpha;
+      }
+
+      data[target] = r;
+      data[target + 1] = g;
+      data[target + 2] = b;
+      data[target + 3] = alpha;
+    }
+  }
+
+  return { width, height, data };
+};
@@ -0,0 +1,180 @@
+/**
+ * Just enough of the TrueType format for the font subsystem: which characters a
+ * font has glyphs for, and a way to reach glyphs outside the Basic Multilingual
+ * Plane (emoji, rare Han), since jsPDF only reads 16-bit (format 4) character maps.
+ */
+
+const PRIVATE_USE_START = 0xe000;
+const PRIVATE_USE_END = 0xf8ff;
+
+interface TableRecord {
+  recordOffset: number; // of the entry in the table directory
+  offset: number;
+  length: number;
+}
+
+const readTables = (view: DataView): Map<string, TableRecord> => {
+  const tables = new Map<string, TableRecord>();
+  const count = view.getUint16(4);
+  for (let i = 0; i < count; i++) {
+    const recordOffset = 12 + i * 16;
+    const tag = String.fromCharCode(
+      view.getUint8(recordOffset),
+      view.getUint8(recordOffset + 1),
+      view.getUint8(recordOffset + 2),
+      view.getUint8(recordOffset + 3)
+    );
+    tables.set(tag, { recordOffset, offset: view.getUint32(recordOffset + 8), length: view.getUint32(recordOffset + 12) });
+  }
+  return tables;
+};
+
+const readFormat4 = (view: DataView, table: number, map: Map<number, number>) => {
+  const segments = view.getUint16(table + 6) / 2;
+  const ends = table + 14;
+  const starts = ends + segments * 2 + 2;
+  const deltas = starts + segments * 2;
+  const rangeOffsets = deltas + segments * 2;
+
+  for (let i = 0; i < segments; i++) {
+    const end = view.getUint16(ends + i * 2);
+    const start = view.getUint16(starts + i * 2);
+    const delta = view.getUint16(deltas + i * 2);
+    const rangeOffset = view.getUint16(rangeOffsets + i * 2);
+
+    for (let code = start; code <= end && code !== 0xffff; code++) {
+      let glyph: number;
+      if (rangeOffset === 0) {
+        glyph = (code + delta) & 0xffff;
+      } else {
+        // The offset is relative to where it's stored, into the glyph index array that follows
+        glyph = view.getUint16(rangeOffsets + i * 2 + rangeOffset + (code - start) * 2);
+        if (glyph) glyph = (glyph + delta) & 0xffff;
+      }
+      if (glyph) map.set(code, glyph);
+    }
+  }
+};
+
+const readFormat12 = (view: DataView, table: number, map: Map<number, number>) => {
+  const groups = view.getUint32(table + 12);
+  for (let i = 0; i < groups; i++) {
+    const group = table + 16 + i * 12;
+    const start = view.getUint32(group);
+    const end = view.getUint32(group + 4);
+    const glyph = view.getUint32(group + 8);
+    for (let code = start; code <= end; code++) map.set(code, glyph + code - start);
+  }
+};
+
+/** Code point to glyph index, from the font's Unicode character map. */
+export const readCharacterMap = (bytes: Uint8Array): Map<number, number> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const cmap = readTables(view).get('cmap');
+  if (!cmap) throw new Error('The font has no character map');
+
+  // Prefer the full-repertoire map, then the 16-bit one
+  let format4 = -1;
+  let format12 = -1;
+  const count = view.getUint16(cmap.offset + 2);
+  for (let i = 0; i < count; i++) {
+    const record = cmap.offset + 4 + i * 8;
+    const platform = view.getUint16(record);
+    const encoding = view.getUint16(record + 2);
+    const table = cmap.offset + view.getUint32(record + 4);
+    const format = view.getUint16(table);
+    const unicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+    if (!unicode) continue;
+    if (format === 12 && format12 < 0) format12 = table;
+    else if (format === 4 && format4 < 0) format4 = table;
+  }
+
+  const map = new Map<number, number>();
+  if (format12 >= 0) readFormat12(view, format12, map);
+  else if (format4 >= 0) readFormat4(view, format4, map);
+  else throw new Error('The font has no Unicode character map');
+  return map;
+};
+
+// Runs of consecutive codes whose glyphs are offset by the same amount
+const buildFormat4 = (entries: [number, number][]): Uint8Array => {
+  const segments: { start: number; end: number; delta: number }[] = [];
+  for (const [code, glyph] of entries) {
+    const last = segments[segments.length - 1];
+    const delta = (glyph - code) & 0xffff;
+    if (last && last.end === code - 1 && last.delta === delta) last.end = code;
+    else segments.push({ start: code, end: code, delta });
+  }
+  // The required final segment
+  segments.push({ start: 0xffff, end: 0xffff, delta: 1 });
+
+  const length = 16 + segments.length * 8;
+  if (length > 0xffff) throw new Error('The character map is too large to rewrite');
+
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  const count = segments.length;
+  const selector = Math.floor(Math.log2(count));
+  const searchRange = 2 ** selector * 2;
+
+  view.setUint16(0, 4);
+  view.setUint16(2, length);
+  view.setUint16(6, count * 2);
+  view.setUint16(8, searchRange);
+  view.setUint16(10, selector);
+  view.setUint16(12, count * 2 - searchRange);
+  segments.forEach(({ start, end, delta }, i) => {
+    view.setUint16(14 + i * 2, end);
+    view.setUint16(16 + count * 2 + i * 2, start);
+    view.setUint16(16 + count * 4 + i * 2, delta);
+    // idRangeOffset stays 0: glyphs come from the delta alone
+  });
+  return bytes;
+};
+
+/**
+ * Give every character above U+FFFF a stand-in from the Private Use Area and
+ * rewrite the font's character map to the 16-bit format with those stand-ins.
+ * Text drawn with the font must swap in the aliases first.
+ */
+export const aliasSupplementaryCharacters = (bytes: Uint8Array): { bytes: Uint8Array; aliases: Map<number, number> } => {
+  const characters = readCharacterMap(bytes);
+  const aliases = new Map<number, number>();
+  const entries: [number, number][] = [];
+
+  let next = PRIVATE_USE_START;
+  for (const [code, glyph] of [...characters].sort((a, b) => a[0] - b[0])) {
+    if (code <= 0xffff) {
+      entries.push([code, glyph]);
+      continue;
+    }
+    while (characters.has(next)) next++;
+    if (next > PRIVATE_USE_END) break;
+    aliases.set(code, next);
+    entries.push([next, glyph]);
+    next++;
+  }
+  entries.sort((a, b) => a[0] - b[0]);
+
+  // A cmap table with a single Windows Unicode subtable
+  const subtable = buildFormat4(entries);
+  const cmap = new Uint8Array(12 + subtable.length);
+  const cmapView = new DataView(cmap.buffer);
+  cmapView.setUint16(2, 1);
+  cmapView.setUint16(4, 3);
+  cmapView.setUint16(6, 1);
+  cmapView.setUint32(8, 12);
+  cmap.set(subtable, 12);
+
+  // Append it and point the directory at it; the old table is left unused
+  const offset = Math.ceil(bytes.length / 4) * 4;
+  const result = new Uint8Array(offset + Math.ceil(cmap.length / 4) * 4);
+  result.set(bytes);
+  result.set(cmap, offset);
+  const view = new DataView(result.buffer);
+  const record = readTables(view).get('cmap')!;
+  view.setUint32(record.recordOffset + 8, offset);
+  view.setUint32(record.recordOffset + 12, cmap.length);
+
+  return { bytes: result, aliases };
+};
@@ -0,0 +1,157 @@
+import type { PDFTaskArgs, PDFTaskName, PDFTaskResult, PDFWorkerRequest, PDFWorkerResponse } from './pdf-tasks';
+import type { ProcessingOptions } from './pdf-utils';
+
+interface PoolJob {
+  id: number;
+  task: PDFTaskName;
+  args: unknown;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProcessingOptions['onProgress'];
+  cleanup: () => void;
+}
+
+// Leave one core for the UI, and cap it since every worker holds whole documents in memory
+const POOL_SIZE = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+const queue: PoolJob[] = [];
+const idleWorkers: Worker[] = [];
+const runningJobs = new Map<Worker, PoolJob>();
+let workerCount = 0;
+let nextJobId = 1;
+
+const createAbortError = () => new DOMException('Cancelled', 'AbortError');
+
+// pdf.js needs OffscreenCanvas to render pages inside a worker
+export const isWorkerPoolSupported = (): boolean => {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+};
+
+const retireWorker = (worker: Worker) => {
+  worker.terminate();
+  workerCount--;
+};
+
+const spawnWorker = (): Worker => {
+  const worker = new Worker(new URL('./pdf.worker.ts', import.meta.url), { type: 'module' });
+  workerCount++;
+
+  worker.onmessage = (event: MessageEvent<PDFWorkerResponse>) => {
+    const job = runningJobs.get(worker);
+
+    if ('progress' in event.data) {
+      if (job?.id === event.data.id) job.onProgress?.(event.data.progress);
+      return;
+    }
+
+    runningJobs.delete(worker);
+    idleWorkers.push(worker);
+
+    if (job && job.id === event.data.id) {
+      job.cleanup();
+      if ('error' in event.data) {
+        job.reject(new Error(event.data.error));
+      } else {
+        job.resolve(event.data.result);
+      }
+    }
+    dispatch();
+  };
+
+  // Failing to load or running out of memory kills the worker, not just the job
+  worker.onerror = (event) => {
+    event.preventDefault();
+    const job = runningJobs.get(worker);
+    runningJobs.delete(worker);
+    retireWorker(worker);
+
+    if (job) {
+      job.cleanup();
+      job.reject(new Error('Processing failed. The file may be too large for this device.'));
+    }
+    dispatch();
+  };
+
+  return worker;
+};
+
+const dispatch = () => {
+  while (queue.length > 0) {
+    let worker = idleWorkers.pop();
+    if (!worker) {
+      if (workerCount >= POOL_SIZE) return;
+      worker = spawnWorker();
+    }
+
+    const job = queue.shift()!;
+    runningJobs.set(worker, job);
+
+    const request: PDFWorkerRequest = { id: job.id, task: job.task, args: job.args };
+    worker.postMessage(request);
+  }
+};
+
+const cancelJob = (job: PoolJob) => {
+  const queuedIndex = queue.indexOf(job);
+
+  if (queuedIndex !== -1) {
+    queue.splice(queuedIndex, 1);
+  } else {
+    // A running job can't be interrupted mid-page, so replace its worker
+    for (const [worker, running] of runningJobs) {
+      if (running === job) {
+        runningJobs.delete(worker);
+        retireWorker(worker);
+        break;
+      }
+    }
+  }
+
+  job.cleanup();
+  job.reject(createAbortError());
+  dispatch();
+};
+
+/**
+ * Run a PDF task on the worker pool. Jobs beyond the pool size wait in a queue,
+ * so a batch of files can be submitted at once and processed in parallel.
+ * Aborting the signal rejects with an AbortError and stops the work;
+ * progress reported by the task is forwarded to onProgress.
+ */
+export const runPDFTask = <T extends PDFTaskName>(
+  task: T,
+  args: PDFTaskArgs<T>,
+  options: ProcessingOptions = {}
+): Promise<PDFTaskResult<T>> => {
+  const { signal, onProgress } = options;
+
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  if (!isWorkerPoolSupported()) {
+    // Older browsers: same code on the main thread
+    return import('./pdf-tasks').then(({ runPDFTaskInline }) => {
+      if (signal?.aborted) throw createAbortError();
+      return runPDFTaskInline(task, args, options);
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => cancelJob(job);
+
+    const job: PoolJob = {
+      id: nextJobId++,
+      task,
+      args,
+      resolve: resolve as (result: unknown) => void,
+      reject,
+      onProgress,
+      cleanup: () => signal?.removeEventListener('abort', onAbort),
+    };
+
+    signal?.addEventListener('abort', onAbort);
+    queue.push(job);
+    dispatch();
+  });
+};
@@ -1,23 +1,61 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { Minimize2, ShieldCheck, AlertTriangle } from 'lucide-react';
 import JSZip from 'jszip';
 import { Layout } from '@/components/layout/Layout';
 import { FileDropzone } from '@/components/pdf/FileDropzone';
 import { ProcessingStatus } from '@/components/pdf/ProcessingStatus';
+import { CompressionSummary } from '@/components/pdf/CompressionSummary';
 import { Button } from '@/components/ui/button';
-import { ProcessedPDF, downloadBlob, getPDFInfo, compressPDF } from '@/lib/pdf-utils';
+import { CompressionSettings, ProcessedPDF, downloadBlob, formatFileSize, hasLockedFiles, isAbortError } from '@/lib/pdf-utils';
+import { runPDFTask } from '@/lib/worker-pool';
+import type { ColorMode } from '@/lib/pdf-color';
 import { useToast } from '@/hooks/use-toast';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+type CompressionMethod = CompressionSettings['method'];
+
+const DPI_PRESETS = [
+  { value: '72', label: '72 DPI — screen' },
+  { value: '150', label: '150 DPI — ebook' },
+  { value: '200', label: '200 DPI — office print' },
+  { value: '300', label: '300 DPI — high-quality print' },
+];
+
+const COLOR_MODES: { value: ColorMode; label: string }[] = [
+  { value: 'color', label: 'Keep colors' },
+  { value: 'grayscale', label: 'Grayscale' },
+  { value: 'monochrome', label: 'Black & white' },
+];
+
+const SIZE_UNITS = { KB: 1024, MB: 1024 * 1024 };
+
+type SizeUnit = keyof typeof SIZE_UNITS;
 
 const Compress = () => {
   const [files, setFiles] = useState<ProcessedPDF[]>([]);
   const [quality, setQuality] = useState([70]);
+  const [method, setMethod] = useState<CompressionMethod>('downsample');
+  const [targetDPI, setTargetDPI] = useState('150');
+  const [targetSize, setTargetSize] = useState('2');
+  const [targetUnit, setTargetUnit] = useState<SizeUnit>('MB');
+  const [allowRasterize, setAllowRasterize] = useState(false);
+  const [colorMode, setColorMode] = useState<ColorMode>('color');
   const [isProcessing, setIsProcessing] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
+  const controllersRef = useRef(new Map<string, AbortController>());
   const { toast } = useToast();
 
+  // Stop any running jobs when leaving the page
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
   const handleCompress = useCallback(async () => {
     if (files.length === 0) {
       toast({
@@ -31,44 +69,82 @@ const Compress = () => {
     setIsProcessing(true);
     setIsComplete(false);
 
-    const updatedFiles = [...files];
-
-    for (let i = 0; i < updatedFiles.length; i++) {
-      updatedFiles[i] = { ...updatedFiles[i], status: 'processing' };
-      setFiles([...updatedFiles]);
-
-      try {
-        const info = await getPDFInfo(updatedFiles[i].originalFile);
-        const compressedBlob = await compressPDF(updatedFiles[i].originalFile, quality[0]);
-
-        updatedFiles[i] = {
-          ...updatedFiles[i],
-          status: 'success',
-          processedBlob: compressedBlob,
-          pageCount: info.pageCount,
-        };
-      } catch (error) {
-        updatedFiles[i] = {
-          ...updatedFiles[i],
-          status: 'error',
-          error: error instanceof Error ? error.message : 'Failed to compress PDF',
-        };
-      }
+    const updateFile = (id: string, changes: Partial<ProcessedPDF>) => {
+      setFiles((prev) => prev.map((f) => (f.id === id ? { ...f, ...changes } : f)));
+    };
 
-      setFiles([...updatedFiles]);
-    }
+    setFiles((prev) =>
+      prev.map((f) => ({ ...f, status: 'processing', error: undefined, progress: undefined, compressionReport: undefined }))
+    );
+
+    const targetBytes = Math.round(parseFloat(targetSize) * SIZE_UNITS[targetUnit]);
+
+    const settings: CompressionSettings = {
+      ...(method === 'target'
+        ? { method, targetBytes, allowRasterize }
+        : method === 'downsample'
+          ? { method, quality: quality[0], targetDPI: parseInt(targetDPI, 10) }
+          : { method, quality: quality[0] }),
+      colorMode,
+    };
+
+    // Every file goes to the worker pool at once; the pool decides how many run in parallel
+    const results = await Promise.all(
+      files.map(async (file) => {
+        const controller = new AbortController();
+        controllersRef.current.set(file.id, controller);
+
+        try {
+          const { blob, pageCount, report } = await runPDFTask(
+            'compress',
+            { file: file.originalFile, settings },
+            {
+              signal: controller.signal,
+              onProgress: (progress) => updateFile(file.id, { progress }),
+            }
+          );
+          const warning = method === 'target' && blob.size > targetBytes
+            ? `Could not reach ${formatFileSize(targetBytes)}; this is the smallest achievable size.`
+            : undefined;
+          updateFile(file.id, {
+            status: 'success',
+            processedBlob: blob,
+            pageCount,
+            progress: undefined,
+            warning,
+            compressionReport: report,
+          });
+          return true;
+        } catch (error) {
+          updateFile(file.id, {
+            status: 'error',
+            progress: undefined,
+            error: isAbortError(error)
+              ? 'Cancelled'
+              : error instanceof Error ? error.message : 'Failed to compress PDF',
+          });
+          return false;
+        } finally {
+          controllersRef.current.delete(file.id);
+        }
+      })
+    );
 
     setIsProcessing(false);
     setIsComplete(true);
 
-    const successCount = updatedFiles.filter((f) => f.status === 'success').length;
+    const successCount = results.filter(Boolean).length;
     if (successCount > 0) {
       toast({
         title: 'Compression complete',
         description: `Successfully compressed ${successCount} file${successCount > 1 ? 's' : ''}.`,
       });
     }
-  }, [files, quality, toast]);
+  }, [files, quality, method, targetDPI, targetSize, targetUnit, allowRasterize, colorMode, toast]);
+
+  const handleCancel = useCallback((file: ProcessedPDF) => {
+    controllersRef.current.get(file.id)?.abort();
+  }, []);
 
   const handleDownload = useCallback((file: ProcessedPDF) => {
     if (file.processedBlob) {
@@ -98,10 +174,17 @@ const Compress = () => {
   const handleReset = useCallback(() => {
     setFiles([]);
     setQuality([70]);
+    setMethod('downsample');
+    setTargetDPI('150');
+    setTargetSize('2');
+    setTargetUnit('MB');
+    setAllowRasterize(false);
+    setColorMode('color');
     setIsComplete(false);
   }, []);
 
-  const canCompress = files.length > 0 && !isProcessing;
+  const hasValidTarget = method !== 'target' || parseFloat(targetSize) > 0;
+  const canCompress = files.length > 0 && !hasLockedFiles(files) && !isProcessing && hasValidTarget;
 
   return (
     <Layout>
@@ -129,7 +212,7 @@ const Compress = () => {
             transition={{ delay: 0.1 }}
             className="space-y-6"
           >
-            {!isComplete ? (
+            {!isComplete && !isProcessing ? (
               <>
                 <div className="p-6 rounded-2xl bg-card border border-border">
                   <h2 className="font-semibold text-foreground mb-4">1. Upload PDFs</h2>
@@ -137,25 +220,127 @@ const Compress = () => {
                 </div>
 
                 <div className="p-6 rounded-2xl bg-card border border-border">
-                  <h2 className="font-semibold text-foreground mb-4">2. Set Compression Quality</h2>
+                  <h2 className="font-semibold text-foreground mb-4">2. Compression Settings</h2>
                   <div className="space-y-4">
-                    <div className="flex justify-between items-center">
-                      <Label>Quality: {quality[0]}%</Label>
-                      <span className="text-sm text-muted-foreground">
-                        {quality[0] > 80 ? 'High quality' : quality[0] > 50 ? 'Medium quality' : 'Maximum compression'}
-                      </span>
+                    <div className="space-y-3">
+                      <Label>Method</Label>
+                      <Select value={method} onValueChange={(v) => setMethod(v as CompressionMethod)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="downsample">Downsample images (keeps text selectable)</SelectItem>
+                          <SelectItem value="quality">Re-save or rasterize pages</SelectItem>
+                          <SelectItem value="target">Target file size</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {method === 'downsample' && (
+                      <div className="space-y-3">
+                        <Label>Target Image Resolution</Label>
+                        <Select value={targetDPI} onValueChange={setTargetDPI}>
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {DPI_PRESETS.map((preset) => (
+                              <SelectItem key={preset.value} value={preset.value}>
+                                {preset.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                          Only images stored above this resolution are resampled. Text and vector graphics are left untouched.
+                        </p>
+                      </div>
+                    )}
+
+                    {method === 'target' ? (
+                      <div className="space-y-4">
+                        <div className="space-y-3">
+                          <Label htmlFor="target-size">Maximum File Size</Label>
+                          <div className="flex gap-2">
+                            <Input
+                              id="target-size"
+                              type="number"
+                              min={0}
+                              step="any"
+                              value={targetSize}
+                              onChange={(e) => setTargetSize(e.target.value)}
+                              className="flex-1"
+                            />
+                            <Select value={targetUnit} onValueChange={(v) => setTargetUnit(v as SizeUnit)}>
+                              <SelectTrigger className="w-24">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="KB">KB</SelectItem>
+                                <SelectItem value="MB">MB</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            The highest image quality that fits is chosen for each file.
+                          </p>
+                        </div>
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <Label htmlFor="allow-rasterize">Convert pages to images if needed</Label>
+                            <p className="text-xs text-muted-foreground">
+                              Last resort for stubborn files. Text will no longer be selectable.
+                            </p>
+                          </div>
+                          <Switch id="allow-rasterize" checked={allowRasterize} onCheckedChange={setAllowRasterize} />
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex justify-between items-center">
+                          <Label>Quality: {quality[0]}%</Label>
+                          <span className="text-sm text-muted-foreground">
+                            {quality[0] > 80 ? 'High quality' : quality[0] > 50 ? 'Medium quality' : 'Maximum compression'}
+                          </span>
+                        </div>
+                        <Slider
+                          value={quality}
+                          onValueChange={setQuality}
+                          min={20}
+                          max={100}
+                          step={5}
+                          className="w-full"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          {method === 'downsample'
+                            ? 'JPEG quality for resampled images.'
+                            : 'Lower quality = smaller file size. Below 40% pages are converted to images.'}
+                        </p>
+                      </>
+                    )}
+
+                    <div className="space-y-3 pt-2">
+                      <Label>Color</Label>
+                      <Select value={colorMode} onValueChange={(v) => setColorMode(v as ColorMode)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {COLOR_MODES.map((mode) => (
+                            <SelectItem key={mode.value} value={mode.value}>
+                              {mode.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {colorMode !== 'color' && (
+                        <p className="text-xs text-muted-foreground">
+                          {colorMode === 'grayscale'
+                            ? 'Images, text and drawings are converted to shades of gray to save on printing.'
+                            : 'Everything becomes pure black or white, like a fax. Light colors may disappear.'}
+                        </p>
+                      )}
                     </div>
-                    <Slider
-                      value={quality}
-                      onValueChange={setQuality}
-                      min={20}
-                      max={100}
-                      step={5}
-                      className="w-full"
-                    />
-                    <p className="text-xs text-muted-foreground">
-                      Lower quality = smaller file size. Higher quality = better image clarity.
-                    </p>
                   </div>
                 </div>
 
@@ -174,48 +359,51 @@ const Compress = () => {
                   disabled={!canCompress}
                   className="w-full h-14 text-lg gap-2 gradient-primary text-primary-foreground shadow-glow"
                 >
-                  {isProcessing ? (
-                    <>
-                      <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
-                      Compressing...
-                    </>
-                  ) : (
-                    <>
-                      <Minimize2 className="w-5 h-5" />
-                      Compress {files.length > 0 ? `${files.length} PDF${files.length > 1 ? 's' : ''}` : 'PDFs'}
-                    </>
-                  )}
+                  <Minimize2 className="w-5 h-5" />
+                  Compress {files.length > 0 ? `${files.length} PDF${files.length > 1 ? 's' : ''}` : 'PDFs'}
                 </Button>
               </>
             ) : (
               <>
                 <div className="p-6 rounded-2xl bg-card border border-border">
-                  <h2 className="font-semibold text-foreground mb-4">Download Compressed Files</h2>
+                  <h2 className="font-semibold text-foreground mb-4">
+                    {isProcessing ? 'Compressing...' : 'Download Compressed Files'}
+                  </h2>
                   <ProcessingStatus
                     files={files}
                     onDownload={handleDownload}
-                    onDownloadAll={handleDownloadAll}
+                    onDownloadAll={isProcessing ? undefined : handleDownloadAll}
+                    onCancel={handleCancel}
                     actionLabel="compressed"
+                    renderDetails={(file) =>
+                      file.status === 'success' && file.compressionReport && (
+                        <CompressionSummary report={file.compressionReport} />
+                      )
+                    }
                   />
                 </div>
 
-                <div className="flex items-start gap-3 p-4 rounded-xl bg-success/10 border border-success/20">
-                  <ShieldCheck className="w-5 h-5 text-success shrink-0 mt-0.5" />
-                  <div className="text-sm">
-                    <p className="font-medium text-foreground">Compression Complete</p>
-                    <p className="text-muted-foreground">
-                      Your files have been optimized for smaller size.
-                    </p>
-                  </div>
-                </div>
+                {!isProcessing && (
+                  <>
+                    <div className="flex items-start gap-3 p-4 rounded-xl bg-success/10 border border-success/20">
+                      <ShieldCheck className="w-5 h-5 text-success shrink-0 mt-0.5" />
+                      <div className="text-sm">
+                        <p className="font-medium text-foreground">Compression Complete</p>
+                        <p className="text-muted-foreground">
+                          Your files have been optimized for smaller size.
+                        </p>
+                      </div>
+                    </div>
 
-                <Button
-                  onClick={handleReset}
-                  variant="outline"
-                  className="w-full h-12"
-                >
-                  Compress More PDFs
-                </Button>
+                    <Button
+                      onClick={handleReset}
+                      variant="outline"
+                      className="w-full h-12"
+                    >
+                      Compress More PDFs
+                    </Button>
+                  </>
+                )}
               </>
             )}
           </motion.div>
@@ -1,17 +1,43 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { FileOutput, ShieldCheck, Image as ImageIcon, FileText, Upload, ArrowRightLeft, BookOpen } from 'lucide-react';
+import { FileOutput, ShieldCheck, Image as ImageIcon, FileText, Upload, ArrowRightLeft, BookOpen, FileType, FileCode, FileSpreadsheet } from 'lucide-react';
 import JSZip from 'jszip';
 import { Layout } from '@/components/layout/Layout';
 import { FileDropzone } from '@/components/pdf/FileDropzone';
 import { ProcessingStatus } from '@/components/pdf/ProcessingStatus';
+import { ImageLayoutSettings } from '@/components/convert/ImageLayoutSettings';
+import { PDFToTextConverter } from '@/components/convert/PDFToTextConverter';
+import { PDFToEPUBConverter } from '@/components/convert/PDFToEPUBConverter';
+import { DocumentToPDFConverter } from '@/components/convert/DocumentToPDFConverter';
+import { TextToPDFConverter } from '@/components/convert/TextToPDFConverter';
+import { OfficeToPDFConverter } from '@/components/convert/OfficeToPDFConverter';
 import { Button } from '@/components/ui/button';
-import { ProcessedPDF, downloadBlob, getPDFInfo, convertPDFToImages, convertImagesToPDF, convertEpubToPDF, generateFileId } from '@/lib/pdf-utils';
+import {
+  DEFAULT_IMAGE_LAYOUT,
+  ImageExportFormat,
+  ImageLayoutOptions,
+  ProcessedPDF,
+  ProcessingProgress,
+  downloadBlob,
+  convertImagesToPDF,
+  convertEpubToPDF,
+  generateFileId,
+  hasLockedFiles,
+  isAbortError,
+} from '@/lib/pdf-utils';
+import { isImageFile } from '@/lib/crypto-utils';
+import { runPDFTask } from '@/lib/worker-pool';
 import { useToast } from '@/hooks/use-toast';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
+type ConversionMode = 'pdf-to-image' | 'pdf-to-text' | 'pdf-to-epub' | 'image-to-pdf' | 'epub-to-pdf' | 'html-to-pdf' | 'markdown-to-pdf' | 'text-to-pdf' | 'csv-to-pdf' | 'office-to-pdf';
+
 interface ImageFile {
   id: string;
   name: string;
@@ -19,18 +45,38 @@ interface ImageFile {
   preview: string;
 }
 
+const IMAGE_FORMATS: { value: ImageExportFormat; label: string }[] = [
+  { value: 'png', label: 'PNG (Lossless, larger file)' },
+  { value: 'jpeg', label: 'JPEG (Compressed, smaller file)' },
+  { value: 'webp', label: 'WebP (Compressed, supports transparency)' },
+  { value: 'tiff', label: 'TIFF (One multi-page file per PDF)' },
+];
+
+const DPI_OPTIONS = [
+  { value: '72', label: '72 DPI — screen' },
+  { value: '150', label: '150 DPI — standard' },
+  { value: '300', label: '300 DPI — print' },
+  { value: '600', label: '600 DPI — high detail' },
+];
+
 const Convert = () => {
-  const [conversionMode, setConversionMode] = useState<'pdf-to-image' | 'image-to-pdf' | 'epub-to-pdf'>('pdf-to-image');
+  const [conversionMode, setConversionMode] = useState<ConversionMode>('pdf-to-image');
   
   // PDF to Image state
   const [pdfFiles, setPdfFiles] = useState<ProcessedPDF[]>([]);
-  const [outputFormat, setOutputFormat] = useState('png');
+  const [outputFormat, setOutputFormat] = useState<ImageExportFormat>('png');
+  const [exportDpi, setExportDpi] = useState('150');
+  const [pageSelection, setPageSelection] = useState('');
+  const [imageQuality, setImageQuality] = useState([90]);
+  const [transparentBackground, setTransparentBackground] = useState(false);
   const [isPdfProcessing, setIsPdfProcessing] = useState(false);
   const [isPdfComplete, setIsPdfComplete] = useState(false);
   const [convertedImages, setConvertedImages] = useState<{ name: string; blob: Blob }[]>([]);
+  const pdfControllersRef = useRef(new Map<string, AbortController>());
   
   // Image to PDF state
   const [imageFiles, setImageFiles] = useState<ImageFile[]>([]);
+  const [imageLayout, setImageLayout] = useState<ImageLayoutOptions>(DEFAULT_IMAGE_LAYOUT);
   const [isImageProcessing, setIsImageProcessing] = useState(false);
   const [isImageComplete, setIsImageComplete] = useState(false);
   const [convertedPdf, setConvertedPdf] = useState<Blob | null>(null);
@@ -40,9 +86,20 @@ const Convert = () => {
   const [isEpubProcessing, setIsEpubProcessing] = useState(false);
   const [isEpubComplete, setIsEpubComplete] = useState(false);
   const [epubConvertedPdf, setEpubConvertedPdf] = useState<Blob | null>(null);
+  const [epubProgress, setEpubProgress] = useState<ProcessingProgress | null>(null);
+  const epubAbortRef = useRef<AbortController | null>(null);
   
   const { toast } = useToast();
 
+  // Stop any running jobs when leaving the page
+  useEffect(() => {
+    const controllers = pdfControllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      epubAbortRef.current?.abort();
+    };
+  }, []);
+
   // PDF to Image conversion
   const handlePdfToImage = useCallback(async () => {
     if (pdfFiles.length === 0) {
@@ -58,53 +115,87 @@ const Convert = () => {
     setIsPdfComplete(false);
     setConvertedImages([]);
 
-    const updatedFiles = [...pdfFiles];
-    const allImages: { name: string; blob: Blob }[] = [];
-
-    for (let i = 0; i < updatedFiles.length; i++) {
-      updatedFiles[i] = { ...updatedFiles[i], status: 'processing' };
-      setPdfFiles([...updatedFiles]);
-
-      try {
-        const info = await getPDFInfo(updatedFiles[i].originalFile);
-        const images = await convertPDFToImages(updatedFiles[i].originalFile, outputFormat as 'png' | 'jpeg');
-        
-        images.forEach((blob, pageIndex) => {
-          const baseName = updatedFiles[i].name.replace('.pdf', '');
-          allImages.push({
-            name: `${baseName}_page_${pageIndex + 1}.${outputFormat}`,
+    const updatePdfFile = (id: string, changes: Partial<ProcessedPDF>) => {
+      setPdfFiles((prev) => prev.map((f) => (f.id === id ? { ...f, ...changes } : f)));
+    };
+
+    setPdfFiles((prev) => prev.map((f) => ({ ...f, status: 'processing', error: undefined, progress: undefined })));
+
+    // Files convert in parallel on the worker pool; results are collected per file to keep their order
+    const results = await Promise.all(
+      pdfFiles.map(async (file) => {
+        const controller = new AbortController();
+        pdfControllersRef.current.set(file.id, controller);
+
+        try {
+          const dpi = parseInt(exportDpi, 10);
+          const images = await runPDFTask(
+            'convertToImages',
+            {
+              file: file.originalFile,
+              options: {
+                format: outputFormat,
+                dpi,
+                pages: pageSelection,
+                quality: imageQuality[0] / 100,
+                transparent: transparentBackground,
+              },
+            },
+            {
+              signal: controller.signal,
+              onProgress: (progress) => updatePdfFile(file.id, { progress }),
+            }
+          );
+          const baseName = file.name.replace('.pdf', '');
+
+          const lowestDpi = Math.min(...images.map((image) => image.dpi));
+          updatePdfFile(file.id, {
+            status: 'success',
+            pageCount: images.length,
+            progress: undefined,
+            warning: lowestDpi < dpi
+              ? `Some pages are too large for ${dpi} DPI, so they were exported at ${lowestDpi} DPI.`
+              : undefined,
+          });
+          return images.map(({ blob, pageNumbers }) => ({
+            name: outputFormat === 'tiff'
+              ? `${baseName}.tiff`
+              : `${baseName}_page_${pageNumbers[0]}.${outputFormat}`,
             blob,
+          }));
+        } catch (error) {
+          updatePdfFile(file.id, {
+            status: 'error',
+            progress: undefined,
+            error: isAbortError(error)
+              ? 'Cancelled'
+              : error instanceof Error ? error.message : 'Failed to convert PDF',
           });
-        });
-
-        updatedFiles[i] = {
-          ...updatedFiles[i],
-          status: 'success',
-          pageCount: info.pageCount,
-        };
-      } catch (error) {
-        updatedFiles[i] = {
-          ...updatedFiles[i],
-          status: 'error',
-          error: error instanceof Error ? error.message : 'Failed to convert PDF',
-        };
-      }
+          return null;
+        } finally {
+          pdfControllersRef.current.delete(file.id);
+        }
+      })
+    );
 
-      setPdfFiles([...updatedFiles]);
-    }
+    const allImages = results.flatMap((images) => images || []);
+    const successCount = results.filter(Boolean).length;
 
     setConvertedImages(allImages);
     setIsPdfProcessing(false);
     setIsPdfComplete(true);
 
-    const successCount = updatedFiles.filter((f) => f.status === 'success').length;
     if (successCount > 0) {
       toast({
         title: 'Conversion complete',
-        description: `Successfully converted ${successCount} file${successCount > 1 ? 's' : ''} to ${allImages.length} images.`,
+        description: `Successfully converted ${successCount} file${successCount > 1 ? 's' : ''} to ${allImages.length} image${allImages.length > 1 ? 's' : ''}.`,
       });
     }
-  }, [pdfFiles, outputFormat, toast]);
+  }, [pdfFiles, outputFormat, exportDpi, pageSelection, imageQuality, transparentBackground, toast]);
+
+  const handleCancelPdfToImage = useCallback((file: ProcessedPDF) => {
+    pdfControllersRef.current.get(file.id)?.abort();
+  }, []);
 
   // Image to PDF conversion
   const handleImageToPdf = useCallback(async () => {
@@ -122,7 +213,7 @@ const Convert = () => {
 
     try {
       const files = imageFiles.map(img => img.file);
-      const pdfBlob = await convertImagesToPDF(files);
+      const pdfBlob = await convertImagesToPDF(files, imageLayout);
       setConvertedPdf(pdfBlob);
       setIsImageComplete(true);
       
@@ -139,7 +230,7 @@ const Convert = () => {
     }
 
     setIsImageProcessing(false);
-  }, [imageFiles, toast]);
+  }, [imageFiles, imageLayout, toast]);
 
   const handleDownloadAll = useCallback(async () => {
     if (convertedImages.length === 0) return;
@@ -169,6 +260,10 @@ const Convert = () => {
   const handlePdfReset = useCallback(() => {
     setPdfFiles([]);
     setOutputFormat('png');
+    setExportDpi('150');
+    setPageSelection('');
+    setImageQuality([90]);
+    setTransparentBackground(false);
     setIsPdfComplete(false);
     setConvertedImages([]);
   }, []);
@@ -176,14 +271,13 @@ const Convert = () => {
   const handleImageReset = useCallback(() => {
     imageFiles.forEach(img => URL.revokeObjectURL(img.preview));
     setImageFiles([]);
+    setImageLayout(DEFAULT_IMAGE_LAYOUT);
     setIsImageComplete(false);
     setConvertedPdf(null);
   }, [imageFiles]);
 
   const handleImageDrop = useCallback((acceptedFiles: File[]) => {
-    const validImages = acceptedFiles.filter(file => 
-      file.type.startsWith('image/')
-    );
+    const validImages = acceptedFiles.filter(isImageFile);
 
     const newImages: ImageFile[] = validImages.map(file => ({
       id: generateFileId(),
@@ -203,8 +297,11 @@ const Convert = () => {
     });
   }, []);
 
-  const canConvertPdf = pdfFiles.length > 0 && !isPdfProcessing;
+  const canConvertPdf = pdfFiles.length > 0 && !hasLockedFiles(pdfFiles) && !isPdfProcessing;
   const canConvertImage = imageFiles.length > 0 && !isImageProcessing;
+  const imagePageCount = imageLayout.pageSize === 'image'
+    ? imageFiles.length
+    : Math.ceil(imageFiles.length / imageLayout.imagesPerPage);
   const canConvertEpub = epubFile !== null && !isEpubProcessing;
 
   // EPUB to PDF conversion
@@ -218,11 +315,17 @@ const Convert = () => {
       return;
     }
 
+    const controller = new AbortController();
+    epubAbortRef.current = controller;
     setIsEpubProcessing(true);
     setIsEpubComplete(false);
+    setEpubProgress(null);
 
     try {
-      const pdfBlob = await convertEpubToPDF(epubFile);
+      const pdfBlob = await convertEpubToPDF(epubFile, {
+        signal: controller.signal,
+        onProgress: setEpubProgress,
+      });
       setEpubConvertedPdf(pdfBlob);
       setIsEpubComplete(true);
       
@@ -231,16 +334,24 @@ const Convert = () => {
         description: 'Successfully converted EPUB to PDF.',
       });
     } catch (error) {
-      toast({
-        title: 'Conversion failed',
-        description: error instanceof Error ? error.message : 'Failed to convert EPUB',
-        variant: 'destructive',
-      });
+      if (!isAbortError(error)) {
+        toast({
+          title: 'Conversion failed',
+          description: error instanceof Error ? error.message : 'Failed to convert EPUB',
+          variant: 'destructive',
+        });
+      }
     }
 
+    epubAbortRef.current = null;
+    setEpubProgress(null);
     setIsEpubProcessing(false);
   }, [epubFile, toast]);
 
+  const handleCancelEpub = useCallback(() => {
+    epubAbortRef.current?.abort();
+  }, []);
+
   const handleDownloadEpubPdf = useCallback(() => {
     if (!epubConvertedPdf || !epubFile) return;
     const baseName = epubFile.name.replace(/\.epub$/i, '');
@@ -278,27 +389,62 @@ const Convert = () => {
               Convert Files
             </h1>
             <p className="text-muted-foreground">
-              Convert between PDF and image formats
+              Convert between PDF, images, text, EPUB, HTML, Markdown, CSV and Office documents
             </p>
           </motion.div>
 
-          <Tabs value={conversionMode} onValueChange={(v) => setConversionMode(v as 'pdf-to-image' | 'image-to-pdf' | 'epub-to-pdf')} className="w-full">
-            <TabsList className="grid w-full grid-cols-3 mb-6">
-              <TabsTrigger value="pdf-to-image" className="gap-2">
+          <Tabs value={conversionMode} onValueChange={(v) => setConversionMode(v as ConversionMode)} className="w-full">
+            <TabsList className="flex flex-wrap h-auto w-full mb-6">
+              <TabsTrigger value="pdf-to-image" className="flex-1 gap-2">
                 <FileText className="w-4 h-4" />
                 <span className="hidden sm:inline">PDF to Image</span>
                 <span className="sm:hidden">PDF→IMG</span>
               </TabsTrigger>
-              <TabsTrigger value="image-to-pdf" className="gap-2">
+              <TabsTrigger value="pdf-to-text" className="flex-1 gap-2">
+                <FileType className="w-4 h-4" />
+                <span className="hidden sm:inline">PDF to Text</span>
+                <span className="sm:hidden">PDF→TXT</span>
+              </TabsTrigger>
+              <TabsTrigger value="pdf-to-epub" className="flex-1 gap-2">
+                <BookOpen className="w-4 h-4" />
+                <span className="hidden sm:inline">PDF to EPUB</span>
+                <span className="sm:hidden">PDF→EPUB</span>
+              </TabsTrigger>
+              <TabsTrigger value="image-to-pdf" className="flex-1 gap-2">
                 <ImageIcon className="w-4 h-4" />
                 <span className="hidden sm:inline">Image to PDF</span>
                 <span className="sm:hidden">IMG→PDF</span>
               </TabsTrigger>
-              <TabsTrigger value="epub-to-pdf" className="gap-2">
+              <TabsTrigger value="epub-to-pdf" className="flex-1 gap-2">
                 <BookOpen className="w-4 h-4" />
                 <span className="hidden sm:inline">EPUB to PDF</span>
                 <span className="sm:hidden">EPUB→PDF</span>
               </TabsTrigger>
+              <TabsTrigger value="html-to-pdf" className="flex-1 gap-2">
+                <FileCode className="w-4 h-4" />
+                <span className="hidden sm:inline">HTML to PDF</span>
+                <span className="sm:hidden">HTML→PDF</span>
+              </TabsTrigger>
+              <TabsTrigger value="markdown-to-pdf" className="flex-1 gap-2">
+                <FileCode className="w-4 h-4" />
+                <span className="hidden sm:inline">Markdown to PDF</span>
+                <span className="sm:hidden">MD→PDF</span>
+              </TabsTrigger>
+              <TabsTrigger value="text-to-pdf" className="flex-1 gap-2">
+                <FileText className="w-4 h-4" />
+                <span className="hidden sm:inline">Text to PDF</span>
+                <span className="sm:hidden">TXT→PDF</span>
+              </TabsTrigger>
+              <TabsTrigger value="csv-to-pdf" className="flex-1 gap-2">
+                <FileSpreadsheet className="w-4 h-4" />
+                <span className="hidden sm:inline">CSV to PDF</span>
+                <span className="sm:hidden">CSV→PDF</span>
+              </TabsTrigger>
+              <TabsTrigger value="office-to-pdf" className="flex-1 gap-2">
+                <FileText className="w-4 h-4" />
+                <span className="hidden sm:inline">Office to PDF</span>
+                <span className="sm:hidden">Office→PDF</span>
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="pdf-to-image">
@@ -308,7 +454,16 @@ const Convert = () => {
                 transition={{ delay: 0.1 }}
                 className="space-y-6"
               >
-                {!isPdfComplete ? (
+                {isPdfProcessing ? (
+                  <div className="p-6 rounded-2xl bg-card border border-border">
+                    <h2 className="font-semibold text-foreground mb-4">Converting...</h2>
+                    <ProcessingStatus
+                      files={pdfFiles}
+                      onCancel={handleCancelPdfToImage}
+                      actionLabel="converted"
+                    />
+                  </div>
+                ) : !isPdfComplete ? (
                   <>
                     <div className="p-6 rounded-2xl bg-card border border-border">
                       <h2 className="font-semibold text-foreground mb-4">1. Upload PDFs</h2>
@@ -316,28 +471,81 @@ const Convert = () => {
                     </div>
 
                     <div className="p-6 rounded-2xl bg-card border border-border">
-                      <h2 className="font-semibold text-foreground mb-4">2. Choose Output Format</h2>
-                      <div className="space-y-3">
-                        <Label>Image Format</Label>
-                        <Select value={outputFormat} onValueChange={setOutputFormat}>
-                          <SelectTrigger className="w-full">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="png">
-                              <div className="flex items-center gap-2">
-                                <ImageIcon className="w-4 h-4" />
-                                PNG (Lossless, larger file)
-                              </div>
-                            </SelectItem>
-                            <SelectItem value="jpeg">
-                              <div className="flex items-center gap-2">
-                                <ImageIcon className="w-4 h-4" />
-                                JPEG (Compressed, smaller file)
-                              </div>
-                            </SelectItem>
-                          </SelectContent>
-                        </Select>
+                      <h2 className="font-semibold text-foreground mb-4">2. Choose Output Options</h2>
+                      <div className="space-y-5">
+                        <div className="space-y-3">
+                          <Label>Image Format</Label>
+                          <Select value={outputFormat} onValueChange={(v) => setOutputFormat(v as ImageExportFormat)}>
+                            <SelectTrigger className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {IMAGE_FORMATS.map((format) => (
+                                <SelectItem key={format.value} value={format.value}>
+                                  <div className="flex items-center gap-2">
+                                    <ImageIcon className="w-4 h-4" />
+                                    {format.label}
+                                  </div>
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        <div className="grid sm:grid-cols-2 gap-4">
+                          <div className="space-y-3">
+                            <Label>Resolution</Label>
+                            <Select value={exportDpi} onValueChange={setExportDpi}>
+                              <SelectTrigger className="w-full">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {DPI_OPTIONS.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-3">
+                            <Label htmlFor="page-selection">Pages</Label>
+                            <Input
+                              id="page-selection"
+                              placeholder="All pages, or e.g. 1-3, 5"
+                              value={pageSelection}
+                              onChange={(e) => setPageSelection(e.target.value)}
+                            />
+                          </div>
+                        </div>
+
+                        {(outputFormat === 'jpeg' || outputFormat === 'webp') && (
+                          <div className="space-y-3">
+                            <div className="flex justify-between items-center">
+                              <Label>Quality: {imageQuality[0]}%</Label>
+                              <span className="text-sm text-muted-foreground">
+                                {imageQuality[0] > 80 ? 'High quality' : imageQuality[0] > 50 ? 'Medium quality' : 'Smallest files'}
+                              </span>
+                            </div>
+                            <Slider value={imageQuality} onValueChange={setImageQuality} min={30} max={100} step={5} />
+                          </div>
+                        )}
+
+                        {outputFormat !== 'jpeg' && (
+                          <div className="flex items-center justify-between gap-4">
+                            <div>
+                              <Label htmlFor="transparent-background">Transparent background</Label>
+                              <p className="text-xs text-muted-foreground">
+                                Leave areas without content see-through instead of white.
+                              </p>
+                            </div>
+                            <Switch
+                              id="transparent-background"
+                              checked={transparentBackground}
+                              onCheckedChange={setTransparentBackground}
+                            />
+                          </div>
+                        )}
                       </div>
                     </div>
 
@@ -346,7 +554,7 @@ const Convert = () => {
                       <div className="text-sm">
                         <p className="font-medium text-foreground">High Quality Conversion</p>
                         <p className="text-muted-foreground">
-                          Each page is converted to a high-resolution image at 2x scale for crisp results.
+                          Pages are rendered at {exportDpi} DPI right in your browser, so your files never leave your device.
                         </p>
                       </div>
                     </div>
@@ -356,17 +564,8 @@ const Convert = () => {
                       disabled={!canConvertPdf}
                       className="w-full h-14 text-lg gap-2 gradient-primary text-primary-foreground shadow-glow"
                     >
-                      {isPdfProcessing ? (
-                        <>
-                          <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
-                          Converting...
-                        </>
-                      ) : (
-                        <>
-                          <FileOutput className="w-5 h-5" />
-                          Convert {pdfFiles.length > 0 ? `${pdfFiles.length} PDF${pdfFiles.length > 1 ? 's' : ''}` : 'PDFs'}
-                        </>
-                      )}
+                      <FileOutput className="w-5 h-5" />
+                      Convert {pdfFiles.length > 0 ? `${pdfFiles.length} PDF${pdfFiles.length > 1 ? 's' : ''}` : 'PDFs'}
                     </Button>
                   </>
                 ) : (
@@ -380,7 +579,9 @@ const Convert = () => {
                               <ImageIcon className="w-5 h-5 text-success" />
                             </div>
                             <div>
-                              <p className="font-medium text-foreground">{convertedImages.length} Images Created</p>
+                              <p className="font-medium text-foreground">
+                                {convertedImages.length} Image{convertedImages.length === 1 ? '' : 's'} Created
+                              </p>
                               <p className="text-sm text-muted-foreground">Format: {outputFormat.toUpperCase()}</p>
                             </div>
                           </div>
@@ -408,6 +609,14 @@ const Convert = () => {
               </motion.div>
             </TabsContent>
 
+            <TabsContent value="pdf-to-text">
+              <PDFToTextConverter />
+            </TabsContent>
+
+            <TabsContent value="pdf-to-epub">
+              <PDFToEPUBConverter />
+            </TabsContent>
+
             <TabsContent value="image-to-pdf">
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
@@ -432,7 +641,7 @@ const Convert = () => {
                         <input
                           id="image-input"
                           type="file"
-                          accept="image/*"
+                          accept="image/*,.heic,.heif,.tif,.tiff,.avif"
                           multiple
                           className="hidden"
                           onChange={(e) => {
@@ -446,7 +655,7 @@ const Convert = () => {
                           Drop images here or click to browse
                         </p>
                         <p className="text-sm text-muted-foreground">
-                          Supports JPG, PNG, GIF, WebP, and more
+                          Supports JPG, PNG, HEIC, TIFF, WebP, AVIF, and more
                         </p>
                       </div>
 
@@ -477,12 +686,17 @@ const Convert = () => {
                       )}
                     </div>
 
+                    <div className="p-6 rounded-2xl bg-card border border-border">
+                      <h2 className="font-semibold text-foreground mb-4">2. Page Layout</h2>
+                      <ImageLayoutSettings layout={imageLayout} onChange={setImageLayout} />
+                    </div>
+
                     <div className="flex items-start gap-3 p-4 rounded-xl bg-primary/5 border border-primary/20">
                       <ShieldCheck className="w-5 h-5 text-primary shrink-0 mt-0.5" />
                       <div className="text-sm">
                         <p className="font-medium text-foreground">Original Quality Preserved</p>
                         <p className="text-muted-foreground">
-                          Images are embedded at their original resolution. Each image becomes one PDF page.
+                          Images are embedded at their original resolution and only scaled on the page.
                         </p>
                       </div>
                     </div>
@@ -517,7 +731,7 @@ const Convert = () => {
                             </div>
                             <div>
                               <p className="font-medium text-foreground">PDF Created Successfully</p>
-                              <p className="text-sm text-muted-foreground">{imageFiles.length} page{imageFiles.length > 1 ? 's' : ''}</p>
+                              <p className="text-sm text-muted-foreground">{imagePageCount} page{imagePageCount > 1 ? 's' : ''}</p>
                             </div>
                           </div>
                         </div>
@@ -616,7 +830,7 @@ const Convert = () => {
                       <div className="text-sm">
                         <p className="font-medium text-foreground">EPUB to PDF Conversion</p>
                         <p className="text-muted-foreground">
-                          Converts your EPUB e-book to a PDF document with clean text formatting.
+                          Keeps headings, lists, tables, images and links in any language, and turns the table of contents into PDF bookmarks.
                         </p>
                       </div>
                     </div>
@@ -629,7 +843,9 @@ const Convert = () => {
                       {isEpubProcessing ? (
                         <>
                           <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
-                          Converting...
+                          {epubProgress
+                            ? `Converting chapter ${epubProgress.current} of ${epubProgress.total}...`
+                            : 'Converting...'}
                         </>
                       ) : (
                         <>
@@ -638,6 +854,17 @@ const Convert = () => {
                         </>
                       )}
                     </Button>
+
+                    {isEpubProcessing && (
+                      <div className="space-y-3">
+                        {epubProgress && epubProgress.total > 0 && (
+                          <Progress value={(epubProgress.current / epubProgress.total) * 100} className="h-1.5" />
+                        )}
+                        <Button onClick={handleCancelEpub} variant="outline" className="w-full h-12">
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
                   </>
                 ) : (
                   <>
@@ -677,6 +904,26 @@ const Convert = () => {
                 )}
               </motion.div>
             </TabsContent>
+
+            <TabsContent value="html-to-pdf">
+              <DocumentToPDFConverter source="html" />
+            </TabsContent>
+
+            <TabsContent value="markdown-to-pdf">
+              <DocumentToPDFConverter source="markdown" />
+            </TabsContent>
+
+            <TabsContent value="text-to-pdf">
+              <TextToPDFConverter source="text" />
+            </TabsContent>
+
+            <TabsContent value="csv-to-pdf">
+              <TextToPDFConverter source="csv" />
+            </TabsContent>
+
+            <TabsContent value="office-to-pdf">
+              <OfficeToPDFConverter />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
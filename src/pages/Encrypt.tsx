@@ -1,25 +1,113 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Lock, ShieldCheck, AlertTriangle, FileText, Image } from 'lucide-react';
+import { Lock, Unlock, ShieldCheck, AlertTriangle, FileText, Image } from 'lucide-react';
 import JSZip from 'jszip';
 import { Layout } from '@/components/layout/Layout';
 import { UniversalFileDropzone } from '@/components/pdf/UniversalFileDropzone';
 import { PasswordInput } from '@/components/pdf/PasswordInput';
+import { PermissionsSelector } from '@/components/pdf/PermissionsSelector';
 import { Button } from '@/components/ui/button';
-import { ProcessedPDF, downloadBlob, encryptPDF } from '@/lib/pdf-utils';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ProcessedPDF, PDFPermissions, EncryptionOptions, downloadBlob, encryptPDF, decryptPDF, hasLockedFiles } from '@/lib/pdf-utils';
 import { protectImageAsPDF, isPDFFile, isImageFile, getProtectedFileName } from '@/lib/crypto-utils';
 import { useToast } from '@/hooks/use-toast';
 
+type EncryptMode = 'encrypt' | 'unlock';
+
+// Starting point when the user opts into restrictions: readable and fillable, but locked down otherwise
+const DEFAULT_RESTRICTIONS: PDFPermissions = {
+  print: 'full',
+  extract: false,
+  fillForms: true,
+  annotate: false,
+  assemble: false,
+  modify: false,
+};
+
+const getUnlockedFileName = (name: string) => name.replace(/\.pdf$/i, '') + '_unlocked.pdf';
+
 const Encrypt = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const mode: EncryptMode = location.pathname === '/unlock' ? 'unlock' : 'encrypt';
   const [files, setFiles] = useState<ProcessedPDF[]>([]);
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [restrictPermissions, setRestrictPermissions] = useState(false);
+  const [ownerPassword, setOwnerPassword] = useState('');
+  const [permissions, setPermissions] = useState<PDFPermissions>(DEFAULT_RESTRICTIONS);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
   const { toast } = useToast();
 
+  // Start fresh whenever the user switches between encrypting and unlocking
+  useEffect(() => {
+    setFiles([]);
+    setPassword('');
+    setConfirmPassword('');
+    setRestrictPermissions(false);
+    setOwnerPassword('');
+    setPermissions(DEFAULT_RESTRICTIONS);
+    setIsComplete(false);
+  }, [mode]);
+
+  const handleUnlock = useCallback(async () => {
+    if (files.length === 0) {
+      toast({
+        title: 'No files selected',
+        description: 'Please upload at least one PDF file.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    setIsComplete(false);
+
+    const updatedFiles = [...files];
+
+    for (let i = 0; i < updatedFiles.length; i++) {
+      updatedFiles[i] = { ...updatedFiles[i], status: 'processing' };
+      setFiles([...updatedFiles]);
+
+      try {
+        const file = updatedFiles[i].originalFile;
+        const unlockedBlob = await decryptPDF(file, password);
+
+        updatedFiles[i] = {
+          ...updatedFiles[i],
+          status: 'success',
+          processedBlob: unlockedBlob,
+          name: getUnlockedFileName(file.name),
+        };
+      } catch (error) {
+        updatedFiles[i] = {
+          ...updatedFiles[i],
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Failed to unlock file',
+        };
+      }
+
+      setFiles([...updatedFiles]);
+    }
+
+    setIsProcessing(false);
+    setIsComplete(true);
+
+    const successCount = updatedFiles.filter((f) => f.status === 'success').length;
+    if (successCount > 0) {
+      toast({
+        title: 'Unlock complete',
+        description: `Removed the password from ${successCount} file${successCount > 1 ? 's' : ''}.`,
+      });
+    }
+  }, [files, password, toast]);
+
   const handleEncrypt = useCallback(async () => {
-    if (!password) {
+    if (!password && !restrictPermissions) {
       toast({
         title: 'Password required',
         description: 'Please enter a password to encrypt your files.',
@@ -37,6 +125,15 @@ const Encrypt = () => {
       return;
     }
 
+    if (restrictPermissions && (!ownerPassword || ownerPassword === password)) {
+      toast({
+        title: 'Owner password required',
+        description: 'Restrictions need an owner password that differs from the open password.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     if (files.length === 0) {
       toast({
         title: 'No files selected',
@@ -49,6 +146,10 @@ const Encrypt = () => {
     setIsProcessing(true);
     setIsComplete(false);
 
+    const options: EncryptionOptions = restrictPermissions
+      ? { userPassword: password, ownerPassword, permissions }
+      : { userPassword: password };
+
     const updatedFiles = [...files];
 
     for (let i = 0; i < updatedFiles.length; i++) {
@@ -62,11 +163,11 @@ const Encrypt = () => {
 
         if (isPDFFile(file)) {
           // Use QPDF for PDF encryption (native password protection)
-          encryptedBlob = await encryptPDF(file, password);
+          encryptedBlob = await encryptPDF(file, options);
           encryptedName = file.name;
         } else if (isImageFile(file)) {
           // Convert image to password-protected PDF
-          encryptedBlob = await protectImageAsPDF(file, password);
+          encryptedBlob = await protectImageAsPDF(file, options);
           encryptedName = getProtectedFileName(file.name, 'image');
         } else {
           throw new Error('Unsupported file type');
@@ -99,7 +200,7 @@ const Encrypt = () => {
         description: `Successfully encrypted ${successCount} file${successCount > 1 ? 's' : ''}.`,
       });
     }
-  }, [files, password, confirmPassword, toast]);
+  }, [files, password, confirmPassword, restrictPermissions, ownerPassword, permissions, toast]);
 
   const handleDownload = useCallback((file: ProcessedPDF) => {
     if (file.processedBlob) {
@@ -126,13 +227,16 @@ const Encrypt = () => {
     }
 
     const zipBlob = await zip.generateAsync({ type: 'blob' });
-    downloadBlob(zipBlob, 'encrypted_files.zip');
-  }, [files, handleDownload]);
+    downloadBlob(zipBlob, mode === 'unlock' ? 'unlocked_files.zip' : 'encrypted_files.zip');
+  }, [files, handleDownload, mode]);
 
   const handleReset = useCallback(() => {
     setFiles([]);
     setPassword('');
     setConfirmPassword('');
+    setRestrictPermissions(false);
+    setOwnerPassword('');
+    setPermissions(DEFAULT_RESTRICTIONS);
     setIsComplete(false);
   }, []);
 
@@ -143,12 +247,21 @@ const Encrypt = () => {
     return <FileText className="w-4 h-4" />;
   };
 
-  const canEncrypt = files.length > 0 && password && password === confirmPassword && !isProcessing;
+  const canEncrypt =
+    files.length > 0 &&
+    !hasLockedFiles(files) &&
+    password === confirmPassword &&
+    (restrictPermissions ? !!ownerPassword && ownerPassword !== password : !!password) &&
+    !isProcessing;
+  const canUnlock = files.length > 0 && !isProcessing;
   const successFiles = files.filter((f) => f.status === 'success');
   const pdfCount = files.filter(f => isPDFFile(f.originalFile)).length;
   const imageCount = files.filter(f => isImageFile(f.originalFile)).length;
 
   const getButtonText = () => {
+    if (mode === 'unlock') {
+      return files.length > 0 ? `Unlock ${pdfCount} PDF${pdfCount > 1 ? 's' : ''}` : 'Unlock PDFs';
+    }
     if (files.length === 0) return 'Encrypt Files';
     const parts = [];
     if (pdfCount > 0) parts.push(`${pdfCount} PDF${pdfCount > 1 ? 's' : ''}`);
@@ -166,16 +279,35 @@ const Encrypt = () => {
             className="text-center mb-10"
           >
             <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl gradient-primary text-primary-foreground mb-4 shadow-glow">
-              <Lock className="w-8 h-8" />
+              {mode === 'unlock' ? <Unlock className="w-8 h-8" /> : <Lock className="w-8 h-8" />}
             </div>
             <h1 className="text-3xl md:text-4xl font-bold text-foreground mb-3">
-              Encrypt Files
+              {mode === 'unlock' ? 'Unlock PDF Files' : 'Encrypt Files'}
             </h1>
             <p className="text-muted-foreground">
-              Protect your PDFs and images with password encryption
+              {mode === 'unlock'
+                ? 'Remove the password from protected PDFs you can open'
+                : 'Protect your PDFs and images with password encryption'}
             </p>
           </motion.div>
 
+          <Tabs
+            value={mode}
+            onValueChange={(v) => navigate(v === 'unlock' ? '/unlock' : '/encrypt')}
+            className="w-full mb-6"
+          >
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="encrypt" className="gap-2" disabled={isProcessing}>
+                <Lock className="w-4 h-4" />
+                Encrypt
+              </TabsTrigger>
+              <TabsTrigger value="unlock" className="gap-2" disabled={isProcessing}>
+                <Unlock className="w-4 h-4" />
+                Unlock
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -189,47 +321,118 @@ const Encrypt = () => {
                   <UniversalFileDropzone 
                     files={files} 
                     onFilesChange={setFiles}
-                    acceptedTypes="all"
+                    acceptedTypes={mode === 'unlock' ? 'pdf' : 'all'}
+                    detectEncryption={mode === 'encrypt'}
                   />
                 </div>
 
-                <div className="p-6 rounded-2xl bg-card border border-border">
-                  <h2 className="font-semibold text-foreground mb-4">2. Set Password</h2>
-                  <PasswordInput
-                    value={password}
-                    onChange={setPassword}
-                    label="Encryption Password"
-                    placeholder="Enter a strong password"
-                    showStrength
-                    confirmPassword
-                    confirmValue={confirmPassword}
-                    onConfirmChange={setConfirmPassword}
-                  />
-                </div>
+                {mode === 'unlock' ? (
+                  <div className="p-6 rounded-2xl bg-card border border-border">
+                    <h2 className="font-semibold text-foreground mb-4">2. Enter Password</h2>
+                    <PasswordInput
+                      value={password}
+                      onChange={setPassword}
+                      label="Current Password"
+                      placeholder="Password used to open the PDFs"
+                    />
+                    <p className="text-xs text-muted-foreground mt-3">
+                      Leave empty for PDFs that open without a password but restrict printing or copying.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="p-6 rounded-2xl bg-card border border-border">
+                    <h2 className="font-semibold text-foreground mb-4">2. Set Password</h2>
+                    <PasswordInput
+                      value={password}
+                      onChange={setPassword}
+                      label={restrictPermissions ? 'Open Password (optional)' : 'Encryption Password'}
+                      placeholder={restrictPermissions ? 'Leave empty to let anyone open the file' : 'Enter a strong password'}
+                      showStrength
+                      confirmPassword
+                      confirmValue={confirmPassword}
+                      onConfirmChange={setConfirmPassword}
+                    />
+                  </div>
+                )}
+
+                {mode === 'encrypt' && (
+                  <div className="p-6 rounded-2xl bg-card border border-border">
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <h2 className="font-semibold text-foreground">3. Permissions</h2>
+                        <p className="text-sm text-muted-foreground">
+                          Limit printing, copying and editing for people who only know the open password
+                        </p>
+                      </div>
+                      <Switch
+                        id="restrict-permissions"
+                        checked={restrictPermissions}
+                        onCheckedChange={setRestrictPermissions}
+                      />
+                    </div>
+
+                    {restrictPermissions && (
+                      <div className="space-y-6 mt-6">
+                        <div className="space-y-2">
+                          <PasswordInput
+                            id="owner-password"
+                            value={ownerPassword}
+                            onChange={setOwnerPassword}
+                            label="Owner Password"
+                            placeholder="Password that lifts all restrictions"
+                            showStrength
+                          />
+                          {ownerPassword && ownerPassword === password && (
+                            <p className="text-xs text-destructive">
+                              Must differ from the open password, otherwise everyone gets full rights
+                            </p>
+                          )}
+                        </div>
+                        <div className="space-y-3">
+                          <Label className="text-muted-foreground">Recipients may:</Label>
+                          <PermissionsSelector value={permissions} onChange={setPermissions} />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
 
                 <div className="flex items-start gap-3 p-4 rounded-xl bg-primary/5 border border-primary/20">
                   <ShieldCheck className="w-5 h-5 text-primary shrink-0 mt-0.5" />
                   <div className="text-sm">
-                    <p className="font-medium text-foreground">Password Protection</p>
-                    <p className="text-muted-foreground">
-                      All files are converted to password-protected PDFs. You'll need the password to open them.
-                    </p>
+                    {mode === 'unlock' ? (
+                      <>
+                        <p className="font-medium text-foreground">Password Removal</p>
+                        <p className="text-muted-foreground">
+                          Unlocked copies open without a password and have all restrictions lifted. Your originals are untouched.
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="font-medium text-foreground">Password Protection</p>
+                        <p className="text-muted-foreground">
+                          {password
+                            ? "All files are converted to password-protected PDFs. You'll need the password to open them."
+                            : 'All files are converted to PDFs that open without a password. The owner password is needed to lift their restrictions.'}
+                        </p>
+                      </>
+                    )}
                   </div>
                 </div>
 
                 <Button
-                  onClick={handleEncrypt}
-                  disabled={!canEncrypt}
+                  onClick={mode === 'unlock' ? handleUnlock : handleEncrypt}
+                  disabled={mode === 'unlock' ? !canUnlock : !canEncrypt}
                   className="w-full h-14 text-lg gap-2 gradient-primary text-primary-foreground shadow-glow"
                 >
                   {isProcessing ? (
                     <>
                       <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
-                      Encrypting...
+                      {mode === 'unlock' ? 'Unlocking...' : 'Encrypting...'}
                     </>
                   ) : (
                     <>
-                      <Lock className="w-5 h-5" />
+                      {mode === 'unlock' ? <Unlock className="w-5 h-5" /> : <Lock className="w-5 h-5" />}
                       {getButtonText()}
                     </>
                   )}
@@ -238,7 +441,9 @@ const Encrypt = () => {
             ) : (
               <>
                 <div className="p-6 rounded-2xl bg-card border border-border">
-                  <h2 className="font-semibold text-foreground mb-4">Download Encrypted Files</h2>
+                  <h2 className="font-semibold text-foreground mb-4">
+                    {mode === 'unlock' ? 'Download Unlocked Files' : 'Download Encrypted Files'}
+                  </h2>
                   <div className="space-y-3">
                     {files.map((file) => (
                       <div
@@ -256,7 +461,9 @@ const Encrypt = () => {
                           <div>
                             <p className="font-medium text-foreground">{file.name}</p>
                             <p className="text-sm text-muted-foreground">
-                              {file.status === 'success' ? 'Password protected' : file.error}
+                              {file.status === 'success'
+                                ? mode === 'unlock' ? 'Password removed' : 'Password protected'
+                                : file.error}
                             </p>
                           </div>
                         </div>
@@ -279,22 +486,37 @@ const Encrypt = () => {
                   </div>
                 </div>
 
-                <div className="flex items-start gap-3 p-4 rounded-xl bg-warning/10 border border-warning/20">
-                  <AlertTriangle className="w-5 h-5 text-warning shrink-0 mt-0.5" />
-                  <div className="text-sm">
-                    <p className="font-medium text-foreground">Remember your password</p>
-                    <p className="text-muted-foreground">
-                      You'll need the password to access these files. We don't store passwords, so make sure to save it securely.
-                    </p>
+                {mode === 'unlock' ? (
+                  <div className="flex items-start gap-3 p-4 rounded-xl bg-warning/10 border border-warning/20">
+                    <AlertTriangle className="w-5 h-5 text-warning shrink-0 mt-0.5" />
+                    <div className="text-sm">
+                      <p className="font-medium text-foreground">Handle unlocked files carefully</p>
+                      <p className="text-muted-foreground">
+                        Anyone with these copies can open them. Re-encrypt them before sharing if they contain sensitive data.
+                      </p>
+                    </div>
                   </div>
-                </div>
+                ) : (
+                  <div className="flex items-start gap-3 p-4 rounded-xl bg-warning/10 border border-warning/20">
+                    <AlertTriangle className="w-5 h-5 text-warning shrink-0 mt-0.5" />
+                    <div className="text-sm">
+                      <p className="font-medium text-foreground">Remember your password</p>
+                      <p className="text-muted-foreground">
+                        {password
+                          ? "You'll need the password to access these files."
+                          : "You'll need the owner password to lift these files' restrictions."}{' '}
+                        We don't store passwords, so make sure to save it securely.
+                      </p>
+                    </div>
+                  </div>
+                )}
 
                 <Button
                   onClick={handleReset}
                   variant="outline"
                   className="w-full h-12"
                 >
-                  Encrypt More Files
+                  {mode === 'unlock' ? 'Unlock More Files' : 'Encrypt More Files'}
                 </Button>
               </>
             )}
@@ -1,18 +1,69 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Layers, GripVertical, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import { Layers, Copy, Trash2, RotateCcw } from 'lucide-react';
 import { Layout } from '@/components/layout/Layout';
 import { FileDropzone } from '@/components/pdf/FileDropzone';
+import { PageGrid, PageGridItem } from '@/components/pdf/PageGrid';
 import { Button } from '@/components/ui/button';
-import { ProcessedPDF, mergePDFs, downloadBlob, getPDFInfo, formatFileSize } from '@/lib/pdf-utils';
+import { ProcessedPDF, PageReference, downloadBlob, generateFileId, hasLockedFiles, isAbortError } from '@/lib/pdf-utils';
+import { runPDFTask } from '@/lib/worker-pool';
 import { useToast } from '@/hooks/use-toast';
 
+interface ComposerPage extends PageReference {
+  id: string;
+}
+
+// Colour markers that tell pages from different source files apart
+const SOURCE_ACCENTS = ['bg-primary', 'bg-accent', 'bg-success', 'bg-warning', 'bg-destructive'];
+
 const Merge = () => {
   const [files, setFiles] = useState<ProcessedPDF[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string[]>>({});
+  const [pages, setPages] = useState<ComposerPage[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [mergedBlob, setMergedBlob] = useState<Blob | null>(null);
+  const requestedRef = useRef(new Set<string>());
+  const fileIdsRef = useRef(new Set<string>());
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
+  // Stop a running merge when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Load thumbnails for newly added files and drop pages of removed ones
+  useEffect(() => {
+    const fileIds = new Set(files.map((f) => f.id));
+    fileIdsRef.current = fileIds;
+    setPages((prev) => prev.filter((p) => fileIds.has(p.fileId)));
+
+    for (const file of files) {
+      // Locked files are picked up again once the user unlocks them
+      if (file.isLocked || requestedRef.current.has(file.id)) continue;
+      requestedRef.current.add(file.id);
+
+      runPDFTask('thumbnails', { file: file.originalFile })
+        .then((urls) => {
+          if (!fileIdsRef.current.has(file.id)) return;
+          setThumbnails((prev) => ({ ...prev, [file.id]: urls }));
+          setPages((prev) => [
+            ...prev,
+            ...urls.map((_, pageIndex) => ({ id: generateFileId(), fileId: file.id, pageIndex })),
+          ]);
+        })
+        .catch(() => {
+          // Marked as failed so the other files aren't left waiting on its previews
+          setFiles((prev) =>
+            prev.map((f) => (f.id === file.id ? { ...f, status: 'error', error: 'Could not read this PDF' } : f))
+          );
+          toast({
+            title: 'Could not read PDF',
+            description: `${file.name} may be corrupted or password protected.`,
+            variant: 'destructive',
+          });
+        });
+    }
+  }, [files, toast]);
+
   const handleMerge = useCallback(async () => {
     if (files.length < 2) {
       toast({
@@ -23,27 +74,34 @@ const Merge = () => {
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsProcessing(true);
 
     try {
-      const originalFiles = files.map((f) => f.originalFile);
-      const blob = await mergePDFs(originalFiles);
+      const blob = await runPDFTask('mergePages', { files, pages }, { signal: controller.signal });
       setMergedBlob(blob);
 
       toast({
         title: 'Merge complete',
-        description: `Successfully merged ${files.length} PDF files.`,
+        description: `Successfully merged ${pages.length} pages from ${files.length} PDF files.`,
       });
     } catch (error) {
+      if (isAbortError(error)) return;
       toast({
         title: 'Merge failed',
         description: error instanceof Error ? error.message : 'Failed to merge PDFs',
         variant: 'destructive',
       });
     } finally {
+      abortRef.current = null;
       setIsProcessing(false);
     }
-  }, [files, toast]);
+  }, [files, pages, toast]);
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
 
   const handleDownload = useCallback(() => {
     if (mergedBlob) {
@@ -53,24 +111,60 @@ const Merge = () => {
 
   const handleReset = useCallback(() => {
     setFiles([]);
+    setThumbnails({});
+    setPages([]);
     setMergedBlob(null);
+    requestedRef.current.clear();
+  }, []);
+
+  // Restore whole-file order: every page of every file, files in upload order
+  const resetPageOrder = useCallback(() => {
+    setPages(
+      files.flatMap((file) =>
+        (thumbnails[file.id] || []).map((_, pageIndex) => ({ id: generateFileId(), fileId: file.id, pageIndex }))
+      )
+    );
+  }, [files, thumbnails]);
+
+  const movePage = useCallback((fromIndex: number, toIndex: number) => {
+    setPages((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+      return next;
+    });
+  }, []);
+
+  const duplicatePage = useCallback((index: number) => {
+    setPages((prev) => {
+      const next = [...prev];
+      next.splice(index + 1, 0, { ...prev[index], id: generateFileId() });
+      return next;
+    });
   }, []);
 
-  const moveFile = useCallback((index: number, direction: 'up' | 'down') => {
-    const newFiles = [...files];
-    const newIndex = direction === 'up' ? index - 1 : index + 1;
-    
-    if (newIndex < 0 || newIndex >= files.length) return;
-    
-    [newFiles[index], newFiles[newIndex]] = [newFiles[newIndex], newFiles[index]];
-    setFiles(newFiles);
-  }, [files]);
+  const removePage = useCallback((index: number) => {
+    setPages((prev) => prev.filter((_, i) => i !== index));
+  }, []);
 
-  const removeFile = useCallback((index: number) => {
-    setFiles(files.filter((_, i) => i !== index));
-  }, [files]);
+  const gridItems = useMemo<PageGridItem[]>(() => {
+    return pages.map((page) => {
+      const fileIndex = files.findIndex((f) => f.id === page.fileId);
+      return {
+        id: page.id,
+        label: `File ${fileIndex + 1} · p${page.pageIndex + 1}`,
+        sublabel: files[fileIndex]?.name,
+        thumbnailUrl: thumbnails[page.fileId]?.[page.pageIndex],
+        accentClass: SOURCE_ACCENTS[fileIndex % SOURCE_ACCENTS.length],
+      };
+    });
+  }, [pages, files, thumbnails]);
 
-  const canMerge = files.length >= 2 && !isProcessing;
+  const isLocked = hasLockedFiles(files);
+  const unreadableFiles = files.filter((f) => f.status === 'error');
+  const isLoadingPages = files.some((f) => !f.isLocked && f.status !== 'error' && !thumbnails[f.id]);
+  const canMerge =
+    files.length >= 2 && pages.length > 0 && !unreadableFiles.length && !isLocked && !isLoadingPages && !isProcessing;
 
   return (
     <Layout>
@@ -88,7 +182,7 @@ const Merge = () => {
               Merge PDF Files
             </h1>
             <p className="text-muted-foreground">
-              Combine multiple PDFs into a single document
+              Combine pages from multiple PDFs into a single document
             </p>
           </motion.div>
 
@@ -112,63 +206,67 @@ const Merge = () => {
 
                 {files.length > 0 && (
                   <div className="p-6 rounded-2xl bg-card border border-border">
-                    <h2 className="font-semibold text-foreground mb-4">2. Arrange Order</h2>
+                    <div className="flex items-center justify-between gap-4 mb-4">
+                      <h2 className="font-semibold text-foreground">2. Arrange Pages</h2>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-2"
+                        onClick={resetPageOrder}
+                        disabled={isLoadingPages}
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        Reset
+                      </Button>
+                    </div>
                     <p className="text-sm text-muted-foreground mb-4">
-                      Drag to reorder or use the arrows. Files will be merged in this order.
+                      Drag pages to reorder or interleave them across files. Hover a page to duplicate or remove it.
                     </p>
-                    
-                    <div className="space-y-2">
-                      {files.map((file, index) => (
-                        <motion.div
-                          key={file.id}
-                          layout
-                          initial={{ opacity: 0, x: -20 }}
-                          animate={{ opacity: 1, x: 0 }}
-                          className="flex items-center gap-3 p-3 rounded-xl bg-muted/50 border border-border"
-                        >
-                          <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab" />
-                          <span className="flex items-center justify-center w-6 h-6 rounded-full bg-primary/10 text-primary text-xs font-medium">
-                            {index + 1}
-                          </span>
-                          <div className="flex-1 min-w-0">
-                            <p className="text-sm font-medium text-foreground truncate">
-                              {file.name}
-                            </p>
-                            <p className="text-xs text-muted-foreground">
-                              {formatFileSize(file.originalFile.size)}
-                            </p>
-                          </div>
-                          <div className="flex items-center gap-1">
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-8 w-8"
-                              onClick={() => moveFile(index, 'up')}
-                              disabled={index === 0}
-                            >
-                              <ArrowUp className="w-4 h-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-8 w-8"
-                              onClick={() => moveFile(index, 'down')}
-                              disabled={index === files.length - 1}
-                            >
-                              <ArrowDown className="w-4 h-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-8 w-8 text-destructive hover:text-destructive"
-                              onClick={() => removeFile(index)}
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </Button>
-                          </div>
-                        </motion.div>
-                      ))}
-                    </div>
+
+                    {isLocked && (
+                      <p className="mb-4 text-sm text-warning">
+                        Unlock the password protected files above to add their pages.
+                      </p>
+                    )}
+
+                    {unreadableFiles.length > 0 && (
+                      <p className="mb-4 text-sm text-destructive">
+                        {unreadableFiles.map((f) => f.name).join(', ')} could not be read. Remove{' '}
+                        {unreadableFiles.length > 1 ? 'them' : 'it'} above to merge the rest.
+                      </p>
+                    )}
+
+                    {isLoadingPages && (
+                      <div className="flex items-center gap-2 mb-4 text-sm text-muted-foreground">
+                        <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                        Loading page previews...
+                      </div>
+                    )}
+
+                    <PageGrid
+                      items={gridItems}
+                      onReorder={movePage}
+                      renderActions={(_, index) => (
+                        <>
+                          <Button
+                            variant="secondary"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => duplicatePage(index)}
+                          >
+                            <Copy className="w-3.5 h-3.5" />
+                          </Button>
+                          <Button
+                            variant="secondary"
+                            size="icon"
+                            className="h-7 w-7 text-destructive hover:text-destructive"
+                            onClick={() => removePage(index)}
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </Button>
+                        </>
+                      )}
+                    />
                   </div>
                 )}
 
@@ -185,10 +283,16 @@ const Merge = () => {
                   ) : (
                     <>
                       <Layers className="w-5 h-5" />
-                      Merge {files.length} PDF{files.length !== 1 ? 's' : ''}
+                      Merge {pages.length} Page{pages.length !== 1 ? 's' : ''}
                     </>
                   )}
                 </Button>
+
+                {isProcessing && (
+                  <Button onClick={handleCancel} variant="outline" className="w-full h-12">
+                    Cancel
+                  </Button>
+                )}
               </>
             ) : (
               <>
@@ -200,7 +304,7 @@ const Merge = () => {
                     PDFs Merged Successfully!
                   </h2>
                   <p className="text-muted-foreground mb-6">
-                    {files.length} files have been combined into one PDF.
+                    {pages.length} pages from {files.length} files have been combined into one PDF.
                   </p>
                   <Button
                     onClick={handleDownload}
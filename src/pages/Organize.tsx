@@ -0,0 +1,410 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { LayoutGrid, Copy, Trash2, FilePlus, FileOutput, RotateCcw } from 'lucide-react';
+import { Layout } from '@/components/layout/Layout';
+import { FileDropzone } from '@/components/pdf/FileDropzone';
+import { PageGrid, PageGridItem } from '@/components/pdf/PageGrid';
+import { Button } from '@/components/ui/button';
+import { OrganizedPage, ProcessedPDF, downloadBlob, generateFileId, isAbortError } from '@/lib/pdf-utils';
+import { runPDFTask } from '@/lib/worker-pool';
+import { useToast } from '@/hooks/use-toast';
+
+type OrganizerPage = OrganizedPage & { id: string };
+
+const sourcePages = (count: number): OrganizerPage[] =>
+  Array.from({ length: count }, (_, pageIndex) => ({ id: generateFileId(), type: 'page', pageIndex }));
+
+const Organize = () => {
+  const [files, setFiles] = useState<ProcessedPDF[]>([]);
+  const [thumbnails, setThumbnails] = useState<string[] | null>(null);
+  const [pages, setPages] = useState<OrganizerPage[]>([]);
+  const [selectedIds, setSelectedIds] = useState(new Set<string>());
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [organizedBlob, setOrganizedBlob] = useState<Blob | null>(null);
+  const requestedRef = useRef<string | undefined>();
+  const abortRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  const file = files[0];
+  const baseName = file?.name.replace(/\.pdf$/i, '') ?? '';
+
+  // Stop a running save when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Start from the document's own pages whenever a different file is added
+  useEffect(() => {
+    if (requestedRef.current === file?.id) return;
+    // Locked files are picked up again once the user unlocks them
+    requestedRef.current = file?.isLocked ? undefined : file?.id;
+    setThumbnails(null);
+    setPages([]);
+    setSelectedIds(new Set());
+    if (!file || file.isLocked) return;
+
+    runPDFTask('thumbnails', { file: file.originalFile })
+      .then((urls) => {
+        if (requestedRef.current !== file.id) return;
+        setThumbnails(urls);
+        setPages(sourcePages(urls.length));
+      })
+      .catch(() => {
+        // Marked as failed so the previews stop loading and the file can be removed or replaced
+        setFiles((prev) =>
+          prev.map((f) => (f.id === file.id ? { ...f, status: 'error', error: 'Could not read this PDF' } : f))
+        );
+        toast({
+          title: 'Could not read PDF',
+          description: `${file.name} may be corrupted or password protected.`,
+          variant: 'destructive',
+        });
+      });
+  }, [file, toast]);
+
+  const runOrganize = useCallback(
+    async (selection: OrganizerPage[]) => {
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setIsProcessing(true);
+
+      try {
+        return await runPDFTask('organize', { file: file.originalFile, pages: selection }, { signal: controller.signal });
+      } catch (error) {
+        if (!isAbortError(error)) {
+          toast({
+            title: 'Could not save pages',
+            description: error instanceof Error ? error.message : 'Failed to organize PDF',
+            variant: 'destructive',
+          });
+        }
+        return null;
+      } finally {
+        abortRef.current = null;
+        setIsProcessing(false);
+      }
+    },
+    [file, toast]
+  );
+
+  const handleSave = useCallback(async () => {
+    const blob = await runOrganize(pages);
+    if (!blob) return;
+    setOrganizedBlob(blob);
+    toast({
+      title: 'PDF organized',
+      description: `Saved ${pages.length} page${pages.length !== 1 ? 's' : ''} in the new order.`,
+    });
+  }, [pages, runOrganize, toast]);
+
+  // Selected pages go into their own PDF in the order they're shown, and the document stays as it is
+  const handleExtract = useCallback(async () => {
+    const selection = pages.filter((page) => selectedIds.has(page.id));
+    const blob = await runOrganize(selection);
+    if (!blob) return;
+    downloadBlob(blob, `${baseName}_extract.pdf`);
+    toast({
+      title: 'Pages extracted',
+      description: `Saved ${selection.length} page${selection.length !== 1 ? 's' : ''} to a new PDF.`,
+    });
+  }, [pages, selectedIds, baseName, runOrganize, toast]);
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const handleDownload = useCallback(() => {
+    if (organizedBlob) {
+      downloadBlob(organizedBlob, `${baseName}_organized.pdf`);
+    }
+  }, [organizedBlob, baseName]);
+
+  const handleReset = useCallback(() => {
+    setFiles([]);
+    setOrganizedBlob(null);
+  }, []);
+
+  const resetPages = useCallback(() => {
+    setPages(sourcePages(thumbnails?.length ?? 0));
+    setSelectedIds(new Set());
+  }, [thumbnails]);
+
+  const movePage = useCallback((fromIndex: number, toIndex: number) => {
+    setPages((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+      return next;
+    });
+  }, []);
+
+  const duplicatePage = useCallback((index: number) => {
+    setPages((prev) => {
+      const next = [...prev];
+      next.splice(index + 1, 0, { ...prev[index], id: generateFileId() });
+      return next;
+    });
+  }, []);
+
+  const insertBlankPage = useCallback((index: number) => {
+    setPages((prev) => {
+      const next = [...prev];
+      next.splice(index + 1, 0, { id: generateFileId(), type: 'blank' });
+      return next;
+    });
+  }, []);
+
+  const removePage = useCallback((index: number) => {
+    setPages((prev) => prev.filter((_, i) => i !== index));
+  }, []);
+
+  const toggleSelect = useCallback((item: PageGridItem) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(item.id)) next.add(item.id);
+      return next;
+    });
+  }, []);
+
+  // Copies of the selected pages go right after the last of them, keeping their order
+  const duplicateSelected = useCallback(() => {
+    setPages((prev) => {
+      const lastIndex = prev.map((page) => selectedIds.has(page.id)).lastIndexOf(true);
+      const copies = prev.filter((page) => selectedIds.has(page.id)).map((page) => ({ ...page, id: generateFileId() }));
+      return [...prev.slice(0, lastIndex + 1), ...copies, ...prev.slice(lastIndex + 1)];
+    });
+  }, [selectedIds]);
+
+  const removeSelected = useCallback(() => {
+    setPages((prev) => prev.filter((page) => !selectedIds.has(page.id)));
+    setSelectedIds(new Set());
+  }, [selectedIds]);
+
+  const gridItems = useMemo<PageGridItem[]>(() => {
+    return pages.map((page) =>
+      page.type === 'blank'
+        ? { id: page.id, label: 'Blank page' }
+        : { id: page.id, label: `Page ${page.pageIndex + 1}`, thumbnailUrl: thumbnails?.[page.pageIndex] }
+    );
+  }, [pages, thumbnails]);
+
+  const selectedCount = pages.filter((page) => selectedIds.has(page.id)).length;
+  const isUnreadable = file?.status === 'error';
+  const isLoadingPages = !!file && !file.isLocked && !isUnreadable && !thumbnails;
+  const canSave = pages.length > 0 && !isLoadingPages && !isProcessing;
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-2xl mx-auto">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-center mb-10"
+          >
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl gradient-primary text-primary-foreground mb-4 shadow-glow">
+              <LayoutGrid className="w-8 h-8" />
+            </div>
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground mb-3">
+              Organize PDF Pages
+            </h1>
+            <p className="text-muted-foreground">
+              Reorder, delete, duplicate and extract pages, or add blank ones
+            </p>
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="space-y-6"
+          >
+            {!organizedBlob ? (
+              <>
+                <div className="p-6 rounded-2xl bg-card border border-border">
+                  <h2 className="font-semibold text-foreground mb-4">1. Upload PDF</h2>
+                  <FileDropzone
+                    files={files}
+                    onFilesChange={setFiles}
+                    multiple={false}
+                    maxFiles={1}
+                  />
+                </div>
+
+                {file && (
+                  <div className="p-6 rounded-2xl bg-card border border-border">
+                    <div className="flex items-center justify-between gap-4 mb-4">
+                      <h2 className="font-semibold text-foreground">2. Arrange Pages</h2>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-2"
+                        onClick={resetPages}
+                        disabled={isLoadingPages || isUnreadable}
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        Reset
+                      </Button>
+                    </div>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Drag pages to reorder them. Hover a page to duplicate it, add a blank page after it or remove it,
+                      and tick pages to work on several at once.
+                    </p>
+
+                    {file.isLocked && (
+                      <p className="mb-4 text-sm text-warning">
+                        Unlock the password protected file above to see its pages.
+                      </p>
+                    )}
+
+                    {isUnreadable && (
+                      <p className="mb-4 text-sm text-destructive">
+                        {file.name} could not be read. Remove it above and add another PDF to organize.
+                      </p>
+                    )}
+
+                    {isLoadingPages && (
+                      <div className="flex items-center gap-2 mb-4 text-sm text-muted-foreground">
+                        <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                        Loading page previews...
+                      </div>
+                    )}
+
+                    {pages.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-2 mb-4 p-2 rounded-xl bg-muted/50">
+                        <span className="px-2 text-sm text-muted-foreground">
+                          {selectedCount} of {pages.length} selected
+                        </span>
+                        <div className="flex flex-wrap gap-1 ml-auto">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              setSelectedIds(selectedCount === pages.length ? new Set() : new Set(pages.map((p) => p.id)))
+                            }
+                          >
+                            {selectedCount === pages.length ? 'Clear' : 'Select all'}
+                          </Button>
+                          <Button variant="ghost" size="sm" className="gap-2" onClick={duplicateSelected} disabled={!selectedCount}>
+                            <Copy className="w-4 h-4" />
+                            Duplicate
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-2"
+                            onClick={handleExtract}
+                            disabled={!selectedCount || isProcessing}
+                          >
+                            <FileOutput className="w-4 h-4" />
+                            Extract
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-2 text-destructive hover:text-destructive"
+                            onClick={removeSelected}
+                            disabled={!selectedCount}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    <PageGrid
+                      items={gridItems}
+                      onReorder={movePage}
+                      selectedIds={selectedIds}
+                      onToggleSelect={toggleSelect}
+                      renderActions={(_, index) => (
+                        <>
+                          <Button
+                            variant="secondary"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => duplicatePage(index)}
+                          >
+                            <Copy className="w-3.5 h-3.5" />
+                          </Button>
+                          <Button
+                            variant="secondary"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => insertBlankPage(index)}
+                          >
+                            <FilePlus className="w-3.5 h-3.5" />
+                          </Button>
+                          <Button
+                            variant="secondary"
+                            size="icon"
+                            className="h-7 w-7 text-destructive hover:text-destructive"
+                            onClick={() => removePage(index)}
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </Button>
+                        </>
+                      )}
+                    />
+                  </div>
+                )}
+
+                <Button
+                  onClick={handleSave}
+                  disabled={!canSave}
+                  className="w-full h-14 text-lg gap-2 gradient-primary text-primary-foreground shadow-glow"
+                >
+                  {isProcessing ? (
+                    <>
+                      <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <LayoutGrid className="w-5 h-5" />
+                      Save {pages.length} Page{pages.length !== 1 ? 's' : ''}
+                    </>
+                  )}
+                </Button>
+
+                {isProcessing && (
+                  <Button onClick={handleCancel} variant="outline" className="w-full h-12">
+                    Cancel
+                  </Button>
+                )}
+              </>
+            ) : (
+              <>
+                <div className="p-6 rounded-2xl bg-card border border-border text-center">
+                  <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-green-500/10 text-green-500 mb-4">
+                    <LayoutGrid className="w-8 h-8" />
+                  </div>
+                  <h2 className="text-xl font-semibold text-foreground mb-2">
+                    PDF Organized Successfully!
+                  </h2>
+                  <p className="text-muted-foreground mb-6">
+                    {pages.length} pages have been saved in the order you arranged.
+                  </p>
+                  <Button
+                    onClick={handleDownload}
+                    className="h-12 px-8 text-lg gap-2 gradient-primary text-primary-foreground shadow-glow"
+                  >
+                    Download Organized PDF
+                  </Button>
+                </div>
+
+                <Button onClick={() => setOrganizedBlob(null)} variant="outline" className="w-full h-12">
+                  Keep Editing
+                </Button>
+                <Button onClick={handleReset} variant="ghost" className="w-full h-12">
+                  Organize Another PDF
+                </Button>
+              </>
+            )}
+          </motion.div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Organize;
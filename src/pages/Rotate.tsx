@@ -0,0 +1,361 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { RotateCw, RotateCcw } from 'lucide-react';
+import JSZip from 'jszip';
+import { Layout } from '@/components/layout/Layout';
+import { FileDropzone } from '@/components/pdf/FileDropzone';
+import { PageGrid, PageGridItem } from '@/components/pdf/PageGrid';
+import { ProcessingStatus } from '@/components/pdf/ProcessingStatus';
+import { Button } from '@/components/ui/button';
+import { ProcessedPDF, downloadBlob, hasLockedFiles, isAbortError } from '@/lib/pdf-utils';
+import { runPDFTask } from '@/lib/worker-pool';
+import { useToast } from '@/hooks/use-toast';
+
+const turn = (rotation: number, by: number) => (((rotation + by) % 360) + 360) % 360;
+
+const outputName = (file: ProcessedPDF) => file.name.replace(/\.pdf$/i, '') + '_rotated.pdf';
+
+const Rotate = () => {
+  const [files, setFiles] = useState<ProcessedPDF[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string[]>>({});
+  // Degrees clockwise to add to each page, on top of the rotation it already has
+  const [rotations, setRotations] = useState<Record<string, number[]>>({});
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
+  const requestedRef = useRef(new Set<string>());
+  const fileIdsRef = useRef(new Set<string>());
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  // Load thumbnails for newly added files and forget the rotations of removed ones
+  useEffect(() => {
+    const fileIds = new Set(files.map((f) => f.id));
+    fileIdsRef.current = fileIds;
+    setRotations((prev) => Object.fromEntries(Object.entries(prev).filter(([fileId]) => fileIds.has(fileId))));
+
+    for (const file of files) {
+      // Locked files are picked up again once the user unlocks them
+      if (file.isLocked || requestedRef.current.has(file.id)) continue;
+      requestedRef.current.add(file.id);
+
+      runPDFTask('thumbnails', { file: file.originalFile })
+        .then((urls) => {
+          if (!fileIdsRef.current.has(file.id)) return;
+          setThumbnails((prev) => ({ ...prev, [file.id]: urls }));
+          setRotations((prev) => ({ ...prev, [file.id]: urls.map(() => 0) }));
+        })
+        .catch(() => {
+          // Marked as failed so the other files aren't left waiting on its previews
+          setFiles((prev) =>
+            prev.map((f) => (f.id === file.id ? { ...f, status: 'error', error: 'Could not read this PDF' } : f))
+          );
+          toast({
+            title: 'Could not read PDF',
+            description: `${file.name} may be corrupted or password protected.`,
+            variant: 'destructive',
+          });
+        });
+    }
+  }, [files, toast]);
+
+  const rotatePage = useCallback((fileId: string, pageIndex: number, by: number) => {
+    setRotations((prev) => ({
+      ...prev,
+      [fileId]: prev[fileId].map((rotation, i) => (i === pageIndex ? turn(rotation, by) : rotation)),
+    }));
+  }, []);
+
+  const rotateFile = useCallback((fileId: string, by: number) => {
+    setRotations((prev) => ({ ...prev, [fileId]: prev[fileId].map((rotation) => turn(rotation, by)) }));
+  }, []);
+
+  const rotateAll = useCallback((by: number) => {
+    setRotations((prev) =>
+      Object.fromEntries(Object.entries(prev).map(([fileId, pages]) => [fileId, pages.map((r) => turn(r, by))]))
+    );
+  }, []);
+
+  const resetRotations = useCallback(() => {
+    setRotations((prev) =>
+      Object.fromEntries(Object.entries(prev).map(([fileId, pages]) => [fileId, pages.map(() => 0)]))
+    );
+  }, []);
+
+  const handleRotate = useCallback(async () => {
+    setIsProcessing(true);
+    setIsComplete(false);
+
+    const updateFile = (id: string, changes: Partial<ProcessedPDF>) => {
+      setFiles((prev) => prev.map((f) => (f.id === id ? { ...f, ...changes } : f)));
+    };
+
+    setFiles((prev) => prev.map((f) => ({ ...f, status: 'processing', error: undefined, progress: undefined })));
+
+    const results = await Promise.all(
+      files.map(async (file) => {
+        const controller = new AbortController();
+        controllersRef.current.set(file.id, controller);
+
+        try {
+          const blob = await runPDFTask(
+            'rotate',
+            { file: file.originalFile, rotations: rotations[file.id] },
+            { signal: controller.signal }
+          );
+          updateFile(file.id, { status: 'success', processedBlob: blob });
+          return true;
+        } catch (error) {
+          updateFile(file.id, {
+            status: 'error',
+            error: isAbortError(error)
+              ? 'Cancelled'
+              : error instanceof Error ? error.message : 'Failed to rotate pages',
+          });
+          return false;
+        } finally {
+          controllersRef.current.delete(file.id);
+        }
+      })
+    );
+
+    setIsProcessing(false);
+    setIsComplete(true);
+
+    const successCount = results.filter(Boolean).length;
+    if (successCount > 0) {
+      toast({
+        title: 'Rotation complete',
+        description: `Rotated the pages of ${successCount} file${successCount > 1 ? 's' : ''}.`,
+      });
+    }
+  }, [files, rotations, toast]);
+
+  const handleCancel = useCallback((file: ProcessedPDF) => {
+    controllersRef.current.get(file.id)?.abort();
+  }, []);
+
+  const handleDownload = (file: ProcessedPDF) => {
+    if (file.processedBlob) downloadBlob(file.processedBlob, outputName(file));
+  };
+
+  const handleDownloadAll = async () => {
+    const zip = new JSZip();
+    for (const file of files) {
+      if (file.status === 'success' && file.processedBlob) zip.file(outputName(file), file.processedBlob);
+    }
+    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(zipBlob, 'rotated_files.zip');
+  };
+
+  const handleReset = useCallback(() => {
+    setFiles([]);
+    setThumbnails({});
+    setRotations({});
+    setIsComplete(false);
+    requestedRef.current.clear();
+  }, []);
+
+  const gridItems = useMemo<Record<string, PageGridItem[]>>(() => {
+    return Object.fromEntries(
+      files.map((file) => [
+        file.id,
+        (thumbnails[file.id] || []).map((thumbnailUrl, pageIndex) => {
+          const rotation = rotations[file.id]?.[pageIndex] || 0;
+          return {
+            id: `${file.id}-${pageIndex}`,
+            label: `Page ${pageIndex + 1}`,
+            sublabel: rotation ? `Turned ${rotation}°` : undefined,
+            thumbnailUrl,
+            rotation,
+          };
+        }),
+      ])
+    );
+  }, [files, thumbnails, rotations]);
+
+  const isLocked = hasLockedFiles(files);
+  const unreadableFiles = files.filter((f) => f.status === 'error');
+  const isLoadingPages = files.some((f) => !f.isLocked && f.status !== 'error' && !thumbnails[f.id]);
+  const hasChanges = Object.values(rotations).some((pages) => pages.some(Boolean));
+  const canRotate =
+    files.length > 0 && hasChanges && !unreadableFiles.length && !isLocked && !isLoadingPages && !isProcessing;
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-2xl mx-auto">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-center mb-10"
+          >
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl gradient-primary text-primary-foreground mb-4 shadow-glow">
+              <RotateCw className="w-8 h-8" />
+            </div>
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground mb-3">
+              Rotate PDF Pages
+            </h1>
+            <p className="text-muted-foreground">
+              Turn sideways or upside-down pages the right way up, one page at a time or all at once
+            </p>
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="space-y-6"
+          >
+            {!isProcessing && !isComplete ? (
+              <>
+                <div className="p-6 rounded-2xl bg-card border border-border">
+                  <h2 className="font-semibold text-foreground mb-4">1. Upload PDFs</h2>
+                  <FileDropzone files={files} onFilesChange={setFiles} multiple maxFiles={20} />
+                </div>
+
+                {files.length > 0 && (
+                  <div className="p-6 rounded-2xl bg-card border border-border">
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                      <h2 className="font-semibold text-foreground">2. Rotate Pages</h2>
+                      <div className="flex flex-wrap gap-1">
+                        <Button variant="ghost" size="sm" className="gap-2" onClick={() => rotateAll(-90)} disabled={isLoadingPages}>
+                          <RotateCcw className="w-4 h-4" />
+                          All left
+                        </Button>
+                        <Button variant="ghost" size="sm" className="gap-2" onClick={() => rotateAll(90)} disabled={isLoadingPages}>
+                          <RotateCw className="w-4 h-4" />
+                          All right
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => rotateAll(180)} disabled={isLoadingPages}>
+                          All 180°
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={resetRotations} disabled={!hasChanges}>
+                          Reset
+                        </Button>
+                      </div>
+                    </div>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      The buttons above turn every page of every file. Hover a page to turn just that one.
+                    </p>
+
+                    {isLocked && (
+                      <p className="mb-4 text-sm text-warning">
+                        Unlock the password protected files above to rotate their pages.
+                      </p>
+                    )}
+
+                    {unreadableFiles.length > 0 && (
+                      <p className="mb-4 text-sm text-destructive">
+                        {unreadableFiles.map((f) => f.name).join(', ')} could not be read. Remove{' '}
+                        {unreadableFiles.length > 1 ? 'them' : 'it'} above to rotate the rest.
+                      </p>
+                    )}
+
+                    {isLoadingPages && (
+                      <div className="flex items-center gap-2 mb-4 text-sm text-muted-foreground">
+                        <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                        Loading page previews...
+                      </div>
+                    )}
+
+                    <div className="space-y-6">
+                      {files
+                        .filter((file) => thumbnails[file.id])
+                        .map((file) => (
+                          <div key={file.id}>
+                            {files.length > 1 && (
+                              <div className="flex items-center justify-between gap-2 mb-3">
+                                <p className="text-sm font-medium text-foreground truncate">{file.name}</p>
+                                <div className="flex shrink-0 gap-1">
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => rotateFile(file.id, -90)}
+                                  >
+                                    <RotateCcw className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => rotateFile(file.id, 90)}
+                                  >
+                                    <RotateCw className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              </div>
+                            )}
+                            <PageGrid
+                              items={gridItems[file.id]}
+                              renderActions={(_, index) => (
+                                <>
+                                  <Button
+                                    variant="secondary"
+                                    size="icon"
+                                    className="h-7 w-7"
+                                    onClick={() => rotatePage(file.id, index, 90)}
+                                  >
+                                    <RotateCw className="w-3.5 h-3.5" />
+                                  </Button>
+                                  <Button
+                                    variant="secondary"
+                                    size="icon"
+                                    className="h-7 w-7"
+                                    onClick={() => rotatePage(file.id, index, -90)}
+                                  >
+                                    <RotateCcw className="w-3.5 h-3.5" />
+                                  </Button>
+                                </>
+                              )}
+                            />
+                          </div>
+                        ))}
+                    </div>
+                  </div>
+                )}
+
+                <Button
+                  onClick={handleRotate}
+                  disabled={!canRotate}
+                  className="w-full h-14 text-lg gap-2 gradient-primary text-primary-foreground shadow-glow"
+                >
+                  <RotateCw className="w-5 h-5" />
+                  Rotate {files.length > 0 ? `${files.length} PDF${files.length > 1 ? 's' : ''}` : 'PDFs'}
+                </Button>
+              </>
+            ) : (
+              <>
+                <div className="p-6 rounded-2xl bg-card border border-border">
+                  <h2 className="font-semibold text-foreground mb-4">
+                    {isProcessing ? 'Rotating pages...' : 'Download Rotated PDFs'}
+                  </h2>
+                  <ProcessingStatus
+                    files={files}
+                    onDownload={handleDownload}
+                    onDownloadAll={isProcessing ? undefined : handleDownloadAll}
+                    onCancel={handleCancel}
+                    actionLabel="rotated"
+                  />
+                </div>
+
+                {!isProcessing && (
+                  <Button onClick={handleReset} variant="outline" className="w-full h-12">
+                    Rotate More PDFs
+                  </Button>
+                )}
+              </>
+            )}
+          </motion.div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Rotate;
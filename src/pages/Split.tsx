@@ -0,0 +1,297 @@
+import { useState, useCallback, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Scissors, ShieldCheck, FileText } from 'lucide-react';
+import JSZip from 'jszip';
+import { Layout } from '@/components/layout/Layout';
+import { FileDropzone } from '@/components/pdf/FileDropzone';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ProcessedPDF, SplitOptions, SplitPart, downloadBlob, getPDFInfo, splitPDF, formatFileSize } from '@/lib/pdf-utils';
+import { useToast } from '@/hooks/use-toast';
+
+type SplitMode = SplitOptions['mode'];
+
+const Split = () => {
+  const [files, setFiles] = useState<ProcessedPDF[]>([]);
+  const [mode, setMode] = useState<SplitMode>('ranges');
+  const [ranges, setRanges] = useState('');
+  const [pagesPerFile, setPagesPerFile] = useState('1');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [parts, setParts] = useState<SplitPart[]>([]);
+  const { toast } = useToast();
+
+  const file = files[0];
+
+  // Read the page count once so the user knows which ranges are valid
+  useEffect(() => {
+    if (!file || file.isLocked || file.pageCount !== undefined) return;
+
+    let cancelled = false;
+    getPDFInfo(file.originalFile)
+      .then((info) => {
+        if (!cancelled) {
+          setFiles((prev) => prev.map((f) => (f.id === file.id ? { ...f, pageCount: info.pageCount } : f)));
+        }
+      })
+      .catch(() => {
+        // Split reports the error with more context
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const handleSplit = useCallback(async () => {
+    if (!file) {
+      toast({
+        title: 'No file selected',
+        description: 'Please upload a PDF file to split.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+
+    try {
+      const options: SplitOptions =
+        mode === 'ranges'
+          ? { mode, ranges }
+          : mode === 'every'
+          ? { mode, pagesPerFile: parseInt(pagesPerFile, 10) }
+          : { mode };
+
+      const result = await splitPDF(file.originalFile, options);
+      setParts(result);
+
+      toast({
+        title: 'Split complete',
+        description: `Created ${result.length} PDF file${result.length !== 1 ? 's' : ''}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Split failed',
+        description: error instanceof Error ? error.message : 'Failed to split PDF',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [file, mode, ranges, pagesPerFile, toast]);
+
+  const handleDownloadAll = useCallback(async () => {
+    if (parts.length === 0 || !file) return;
+
+    if (parts.length === 1) {
+      downloadBlob(parts[0].blob, parts[0].name);
+      return;
+    }
+
+    const zip = new JSZip();
+
+    for (const part of parts) {
+      zip.file(part.name, part.blob);
+    }
+
+    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(zipBlob, `${file.name.replace(/\.pdf$/i, '')}_split.zip`);
+  }, [parts, file]);
+
+  const handleReset = useCallback(() => {
+    setFiles([]);
+    setRanges('');
+    setPagesPerFile('1');
+    setParts([]);
+  }, []);
+
+  const canSplit =
+    !!file &&
+    !file.isLocked &&
+    !isProcessing &&
+    (mode !== 'ranges' || ranges.trim().length > 0) &&
+    (mode !== 'every' || parseInt(pagesPerFile, 10) > 0);
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-2xl mx-auto">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-center mb-10"
+          >
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl gradient-primary text-primary-foreground mb-4 shadow-glow">
+              <Scissors className="w-8 h-8" />
+            </div>
+            <h1 className="text-3xl md:text-4xl font-bold text-foreground mb-3">
+              Split PDF
+            </h1>
+            <p className="text-muted-foreground">
+              Break a PDF into smaller documents by page ranges, fixed size or bookmarks
+            </p>
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="space-y-6"
+          >
+            {parts.length === 0 ? (
+              <>
+                <div className="p-6 rounded-2xl bg-card border border-border">
+                  <h2 className="font-semibold text-foreground mb-4">1. Upload PDF</h2>
+                  <FileDropzone
+                    files={files}
+                    onFilesChange={setFiles}
+                    multiple={false}
+                    maxFiles={1}
+                  />
+                </div>
+
+                <div className="p-6 rounded-2xl bg-card border border-border">
+                  <h2 className="font-semibold text-foreground mb-4">2. Choose How to Split</h2>
+                  <div className="space-y-4">
+                    <div className="space-y-3">
+                      <Label>Split Mode</Label>
+                      <Select value={mode} onValueChange={(v) => setMode(v as SplitMode)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ranges">By page ranges</SelectItem>
+                          <SelectItem value="every">Every N pages</SelectItem>
+                          <SelectItem value="bookmarks">By top-level bookmarks</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {mode === 'ranges' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="split-ranges">Page Ranges</Label>
+                        <Input
+                          id="split-ranges"
+                          value={ranges}
+                          onChange={(e) => setRanges(e.target.value)}
+                          placeholder="e.g. 1-3, 5, 8-"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Each comma-separated range becomes its own PDF. "8-" runs to the last page
+                          {file?.pageCount ? ` (page ${file.pageCount})` : ''}.
+                        </p>
+                      </div>
+                    )}
+
+                    {mode === 'every' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="split-every">Pages per File</Label>
+                        <Input
+                          id="split-every"
+                          type="number"
+                          min={1}
+                          max={file?.pageCount}
+                          value={pagesPerFile}
+                          onChange={(e) => setPagesPerFile(e.target.value)}
+                        />
+                        {file?.pageCount && parseInt(pagesPerFile, 10) > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Produces {Math.ceil(file.pageCount / parseInt(pagesPerFile, 10))} files from {file.pageCount} pages.
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {mode === 'bookmarks' && (
+                      <p className="text-sm text-muted-foreground">
+                        A new PDF starts at each top-level bookmark. Pages before the first bookmark are kept with the first section.
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-start gap-3 p-4 rounded-xl bg-primary/5 border border-primary/20">
+                  <ShieldCheck className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+                  <div className="text-sm">
+                    <p className="font-medium text-foreground">Lossless Splitting</p>
+                    <p className="text-muted-foreground">
+                      Pages are copied as-is, so text, images and links keep their original quality.
+                    </p>
+                  </div>
+                </div>
+
+                <Button
+                  onClick={handleSplit}
+                  disabled={!canSplit}
+                  className="w-full h-14 text-lg gap-2 gradient-primary text-primary-foreground shadow-glow"
+                >
+                  {isProcessing ? (
+                    <>
+                      <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+                      Splitting...
+                    </>
+                  ) : (
+                    <>
+                      <Scissors className="w-5 h-5" />
+                      Split PDF
+                    </>
+                  )}
+                </Button>
+              </>
+            ) : (
+              <>
+                <div className="p-6 rounded-2xl bg-card border border-border">
+                  <h2 className="font-semibold text-foreground mb-4">Download Split Files</h2>
+                  <div className="space-y-3">
+                    {parts.map((part) => (
+                      <div
+                        key={part.name}
+                        className="flex items-center justify-between p-4 rounded-xl border bg-success/5 border-success/20"
+                      >
+                        <div className="flex items-center gap-3 min-w-0">
+                          <div className="p-2 rounded-lg bg-primary/10 text-primary">
+                            <FileText className="w-4 h-4" />
+                          </div>
+                          <div className="min-w-0">
+                            <p className="font-medium text-foreground truncate">{part.name}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {part.pageCount} page{part.pageCount !== 1 ? 's' : ''} • {formatFileSize(part.blob.size)}
+                            </p>
+                          </div>
+                        </div>
+                        <Button size="sm" onClick={() => downloadBlob(part.blob, part.name)}>
+                          Download
+                        </Button>
+                      </div>
+                    ))}
+
+                    {parts.length > 1 && (
+                      <Button
+                        onClick={handleDownloadAll}
+                        className="w-full h-12 gap-2 gradient-primary text-primary-foreground"
+                      >
+                        Download All as ZIP
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <Button
+                  onClick={handleReset}
+                  variant="outline"
+                  className="w-full h-12"
+                >
+                  Split Another PDF
+                </Button>
+              </>
+            )}
+          </motion.div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Split;
@@ -2,6 +2,7 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { VitePWA } from "vite-plugin-pwa";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -10,7 +11,42 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [
+    react(),
+    mode === "development" && componentTagger(),
+    VitePWA({
+      // Updates wait for the user to accept them from the banner in Layout
+      registerType: "prompt",
+      injectRegister: false,
+      includeAssets: ["favicon.ico", "pwa-icon.svg"],
+      manifest: {
+        name: "FileForge - PDF Tools",
+        short_name: "FileForge",
+        description: "Merge, compress, convert and encrypt PDFs, entirely in your browser",
+        theme_color: "#5f42f0",
+        background_color: "#ffffff",
+        display: "standalone",
+        start_url: ".",
+        scope: ".",
+        icons: [
+          { src: "favicon.ico", sizes: "256x256", type: "image/x-icon" },
+          { src: "pwa-icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any maskable" },
+        ],
+      },
+      workbox: {
+        // The app shell plus QPDF (public/qpdf), pdf.js with its character maps and standard fonts
+        // (public/pdfjs) and the fonts embedded in generated PDFs, so every PDF opens and converts offline
+        globPatterns: ["**/*.{js,css,html,ico,png,svg,woff2,wasm,ttf,bcmap,pfb}"],
+        globIgnores: ["404.html"],
+        // pdf.js, the QPDF wasm and the CJK fonts (Noto Sans SC is about 10 MB) are well above workbox's 2 MB default
+        maximumFileSizeToCacheInBytes: 12 * 1024 * 1024,
+      },
+    }),
+  ].filter(Boolean),
+  worker: {
+    // The PDF worker lazy-loads pdf.js, which needs code-splitting inside the worker
+    format: "es",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),